@@ -0,0 +1,52 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+
+/** Runs the built CLI in a scratch directory (results are written under the working directory). */
+function runCli(dir: string, args: string[]): string {
+  return execFileSync(process.execPath, [path.join(__dirname, 'cli.js'), ...args], {
+    cwd: dir,
+    encoding: 'utf-8',
+    stdio: ['ignore', 'pipe', 'pipe'],
+    env: { ...process.env, HANABI_STRATEGY_DIR: '' },
+  });
+}
+
+function summaryOf(dir: string): Record<string, unknown> {
+  const [timestamp] = fs.readdirSync(path.join(dir, 'results'));
+  return JSON.parse(fs.readFileSync(path.join(dir, 'results', timestamp, 'summary.json'), 'utf-8'));
+}
+
+describe('cli simulate', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hanabi-cli-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('runs a sequential comparison of the default strategies', () => {
+    const out = runCli(dir, ['--preset', 'quick', '--sequential', '20']);
+    expect(out).toContain('simulation complete');
+    expect(out).toMatch(/HintPartner: avg/);
+    const summary = summaryOf(dir);
+    expect(summary.sequential).toMatchObject({ lookSchedule: { batchSize: 20, maxGames: 100 } });
+  });
+
+  it('prints the all-pairs ranking when more than two strategies run', () => {
+    const out = runCli(dir, ['--preset', 'quick']);
+    expect(out).toMatch(/^Ranking \(paired t-test, Holm/m);
+    expect(out).toMatch(/^  1\. \[tier 1\] HintPartner/m);
+    expect(out).toMatch(/^\d+ of 15 pairs differ significantly\.$/m);
+    const [timestamp] = fs.readdirSync(path.join(dir, 'results'));
+    expect(fs.existsSync(path.join(dir, 'results', timestamp, 'comparisons.json'))).toBe(true);
+  });
+
+  it('rejects an unknown preset', () => {
+    expect(() => runCli(dir, ['--preset', 'nope'])).toThrow(/Unknown preset nope/);
+  });
+});
@@ -1,32 +1,267 @@
-import { runSimulation } from './simulator/runner';
+import * as fs from 'fs';
+import * as path from 'path';
+import { runSimulationParallel } from './simulator/parallel';
 import { writeResults } from './storage/results-writer';
-import { createDefaultConfig } from './config';
-import { computeAggregateMetrics, formatComparison } from './statistics/metrics';
+import { getAllPresets } from './config/presets';
+import { validateGameConfig } from './config/validate';
+import {
+  computeAggregateMetrics,
+  computeSweepTable,
+  formatComparison,
+  isComparisonTest,
+  COMPARISON_TESTS,
+} from './statistics/metrics';
+import type { ComparisonTest } from './statistics/metrics';
+import {
+  compareAllPairs,
+  formatLeaderboard,
+  isPValueCorrection,
+  P_VALUE_CORRECTIONS,
+} from './statistics/comparisons';
+import type { PValueCorrection } from './statistics/comparisons';
+import { parseSweepSpec, createSweep, loadSweep, runSweep } from './simulator/sweep';
+import { parseSequentialOptions, runSequential } from './simulator/sequential';
+import type { SequentialOptions } from './simulator/sequential';
+import { formatSequentialDecision } from './statistics/sequential';
+import { planFromPilot, formatPowerPlan } from './statistics/power';
+import { verifyTrace, traceStateAt, formatTraceVerification } from './simulator/trace-verifier';
+import { snapshotState } from './simulator/replay';
+import type { GameTrace } from './simulator/runner';
 
-const config = createDefaultConfig();
+const strategyDir = process.env.HANABI_STRATEGY_DIR || undefined;
 
-const result = runSimulation(config);
-const outputDir = writeResults(result, config);
+/**
+ * Runs the strategies with a preset's config, then compares them: `--preset <id>` picks the preset
+ * (default 'default'), `--strategy <name>` (repeatable) the strategies instead of every compatible
+ * one, `--test <name>` the significance test and `--correction <holm|bh>` the multiple-comparison
+ * correction for rankings. `--sequential <batch size>` plays in batches and stops once every pair
+ * is decided.
+ */
+async function simulate(args: string[]): Promise<void> {
+  let presetId = 'default';
+  let strategyNames: string[] | undefined;
+  let test: ComparisonTest = 'paired-t';
+  let correction: PValueCorrection = 'holm';
+  let sequential: SequentialOptions | undefined;
+  for (let i = 0; i < args.length; i += 2) {
+    if (args[i] === '--preset' && args[i + 1] !== undefined) {
+      presetId = args[i + 1];
+    } else if (args[i] === '--strategy' && args[i + 1] !== undefined) {
+      strategyNames = [...(strategyNames ?? []), args[i + 1]];
+    } else if (args[i] === '--test' && isComparisonTest(args[i + 1])) {
+      test = args[i + 1] as ComparisonTest;
+    } else if (args[i] === '--correction' && isPValueCorrection(args[i + 1])) {
+      correction = args[i + 1] as PValueCorrection;
+    } else if (args[i] === '--sequential' && args[i + 1] !== undefined) {
+      sequential = parseSequentialOptions({ batchSize: Number(args[i + 1]) });
+    } else {
+      throw new Error(
+        'Usage: [--preset <id>] [--strategy <name>]... ' +
+          `[--test ${Object.keys(COMPARISON_TESTS).join('|')}] ` +
+          `[--correction ${Object.keys(P_VALUE_CORRECTIONS).join('|')}] [--sequential <batch size>]`
+      );
+    }
+  }
+  const presets = getAllPresets();
+  const preset = presets.find((p) => p.id === presetId);
+  if (!preset) {
+    throw new Error(`Unknown preset ${presetId}; one of ${presets.map((p) => p.id).join(', ')}`);
+  }
+  const config = { ...preset.config, strategyDir };
 
-console.log('Hanabi Simulator — simulation complete.');
-console.log(`Results written to ${outputDir}`);
+  const sequentialResult = sequential ? await runSequential(config, strategyNames, sequential) : undefined;
+  const result = sequentialResult ?? (await runSimulationParallel(config, strategyNames));
+  const outputDir = writeResults(result, config, { sequential: sequentialResult?.sequential });
 
-for (const r of result.results) {
-  const m = computeAggregateMetrics(r);
-  console.log(
-    `  ${r.name}: avg ${m.avgScore.toFixed(2)} ± ${m.stdError.toFixed(2)}, ` +
-      `perfect ${(m.perfectRate * 100).toFixed(1)}%`
-  );
+  console.log('Hanabi Simulator — simulation complete.');
+  console.log(`Results written to ${outputDir}`);
+
+  for (const r of result.results) {
+    const m = computeAggregateMetrics(r);
+    console.log(
+      `  ${r.name}: avg ${m.avgScore.toFixed(2)} ± ${m.stdError.toFixed(2)}, ` +
+        `median ${m.medianScore} [${m.medianScoreCi95.lower}, ${m.medianScoreCi95.upper}], ` +
+        `perfect ${(m.perfectRate * 100).toFixed(1)}% ` +
+        `[${(m.perfectRateCi95.lower * 100).toFixed(1)}, ${(m.perfectRateCi95.upper * 100).toFixed(1)}]`
+    );
+  }
+
+  if (sequentialResult) {
+    console.log('');
+    console.log(formatSequentialDecision(sequentialResult.sequential.decision));
+  }
+
+  if (result.results.length === 2) {
+    console.log('\nComparison:');
+    console.log(
+      formatComparison(
+        result.results[0].name,
+        result.results[1].name,
+        result.results[0],
+        result.results[1],
+        test
+      )
+    );
+  } else if (result.results.length > 2) {
+    console.log('');
+    console.log(formatLeaderboard(compareAllPairs(result.results, { test, correction })));
+  }
+}
+
+/**
+ * `sweep <spec.json>` creates and runs a parameter sweep; the file holds a SweepSpec plus an
+ * optional base `config` (a partial GameConfig). `sweep --resume <results dir>` runs the cells an
+ * interrupted sweep is missing.
+ */
+async function sweep(args: string[]): Promise<void> {
+  let dir: string;
+  if (args.length === 2 && args[0] === '--resume') {
+    dir = path.resolve(args[1]);
+  } else if (args.length === 1) {
+    const { config, ...spec } = JSON.parse(fs.readFileSync(args[0], 'utf-8')) as Record<string, unknown>;
+    const validated = validateGameConfig(config ?? {});
+    if (!validated.ok) {
+      const errors = validated.errors.map((e) => `${e.field} ${e.message}`).join('; ');
+      throw new Error(`Invalid config in ${args[0]}: ${errors}`);
+    }
+    dir = createSweep(parseSweepSpec(spec), { ...validated.config, strategyDir });
+    console.log(`Sweep created in ${dir}`);
+  } else {
+    throw new Error('Usage: sweep <spec.json> | sweep --resume <results dir>');
+  }
+
+  const plan = loadSweep(dir, strategyDir);
+  console.log(`If interrupted, continue with: sweep --resume ${dir}`);
+  const result = await runSweep(dir, {
+    strategyDir,
+    onProgress: (p) => {
+      if (p.gamesDone < p.gameCount) return;
+      console.log(`  [${p.strategyIndex + 1}/${p.strategyCount}] ${p.strategyName}: avg ${p.meanScore.toFixed(2)}`);
+    },
+  });
+  writeResults({ results: result.results, seeds: result.seeds }, plan.config, {
+    sweep: result,
+    resultsDir: dir,
+  });
+
+  console.log(`Sweep complete — ${result.cells.length} cells × ${result.seeds.length} games.`);
+  const rows = [...computeSweepTable(result).rows].sort((a, b) => b.avgScore - a.avgScore);
+  for (const row of rows) {
+    console.log(
+      `  ${row.name}: avg ${row.avgScore.toFixed(2)} ` +
+        `[${row.ci95.lower.toFixed(2)}, ${row.ci95.upper.toFixed(2)}], ` +
+        `perfect ${(row.perfectRate * 100).toFixed(1)}%`
+    );
+  }
+}
+
+/**
+ * `power <results dir> --diff <points> [--power p] [--alpha a] [--a name --b name]` sizes a run
+ * from the variances in an earlier (pilot) run: games needed to detect the difference, for every
+ * pair of its strategies or just A vs B.
+ */
+function power(args: string[]): void {
+  const usage =
+    'Usage: power <results dir> --diff <points> [--power 0.8] [--alpha 0.05] [--a <name> --b <name>]';
+  const [dir, ...flags] = args;
+  if (dir === undefined || dir.startsWith('--')) throw new Error(usage);
+  const values: Record<string, string> = {};
+  for (let i = 0; i < flags.length; i += 2) {
+    const flag = flags[i];
+    if (!['--diff', '--power', '--alpha', '--a', '--b'].includes(flag) || flags[i + 1] === undefined) {
+      throw new Error(usage);
+    }
+    values[flag.slice(2)] = flags[i + 1];
+  }
+  if (values.diff === undefined || (values.a === undefined) !== (values.b === undefined)) {
+    throw new Error(usage);
+  }
+
+  const rawScores = JSON.parse(fs.readFileSync(path.join(dir, 'raw_scores.json'), 'utf-8')) as Record<
+    string,
+    number[]
+  >;
+  const names = values.a !== undefined ? [values.a, values.b] : Object.keys(rawScores);
+  for (const name of names) {
+    if (!rawScores[name]) throw new Error(`No strategy named ${name} in ${dir}`);
+  }
+  if (names.length < 2) throw new Error(`${dir} has a single strategy; the pilot must run at least two`);
+
+  const options = {
+    ...(values.power !== undefined && { power: Number(values.power) }),
+    ...(values.alpha !== undefined && { alpha: Number(values.alpha) }),
+  };
+  for (let i = 0; i < names.length; i++) {
+    for (let j = i + 1; j < names.length; j++) {
+      const plan = planFromPilot(rawScores[names[i]], rawScores[names[j]], Number(values.diff), options);
+      console.log(formatPowerPlan(names[i], names[j], plan));
+    }
+  }
+}
+
+/**
+ * `verify <trace.json | results dir>` checks traces against the engine (deck, every event, final
+ * state) and exits non-zero if any fails; a results directory means every trace in its traces/.
+ * `verify <trace.json> --at <event index>` prints the game's state before that event instead.
+ */
+function verify(args: string[]): void {
+  const usage = 'Usage: verify <trace.json | results dir> [--at <event index>]';
+  const [target, flag, value] = args;
+  if (target === undefined || target.startsWith('--')) throw new Error(usage);
+  if (flag !== undefined && (flag !== '--at' || value === undefined)) throw new Error(usage);
+  const readTrace = (file: string): GameTrace => {
+    const trace = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    if (!Array.isArray(trace?.events) || !Array.isArray(trace?.initialDeckOrder)) {
+      throw new Error(`${file} is not a game trace`);
+    }
+    return trace;
+  };
+
+  if (flag === '--at') {
+    const state = traceStateAt(readTrace(target), Number(value));
+    console.log(JSON.stringify(snapshotState(state), null, 2));
+    return;
+  }
+
+  let files = [target];
+  if (fs.statSync(target).isDirectory()) {
+    const tracesDir = fs.existsSync(path.join(target, 'traces')) ? path.join(target, 'traces') : target;
+    if (tracesDir === target && fs.existsSync(path.join(target, 'summary.json'))) {
+      throw new Error(`${target} has no traces; runs keep them with debug logging`);
+    }
+    files = fs
+      .readdirSync(tracesDir)
+      .filter((f) => f.endsWith('.json'))
+      .sort()
+      .map((f) => path.join(tracesDir, f));
+    if (files.length === 0) throw new Error(`No traces in ${tracesDir}`);
+  }
+  let failed = 0;
+  for (const file of files) {
+    const result = verifyTrace(readTrace(file));
+    if (!result.ok) failed++;
+    console.log(formatTraceVerification(path.basename(file), result));
+  }
+  if (files.length > 1) console.log(`${files.length - failed} of ${files.length} traces verified.`);
+  if (failed > 0) process.exitCode = 1;
 }
 
-if (result.results.length === 2) {
-  console.log('\nComparison:');
-  console.log(
-    formatComparison(
-      result.results[0].name,
-      result.results[1].name,
-      result.results[0],
-      result.results[1]
-    )
-  );
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+  if (command === 'sweep') {
+    await sweep(args);
+  } else if (command === 'power') {
+    power(args);
+  } else if (command === 'verify') {
+    verify(args);
+  } else if (command === undefined || command.startsWith('--')) {
+    await simulate(process.argv.slice(2));
+  } else {
+    throw new Error(`Unknown command: ${command}`);
+  }
 }
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
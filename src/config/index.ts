@@ -1,19 +1,50 @@
+import type { VariantId } from '../engine/variants';
+import type { RuleSet } from '../engine/rules';
+import { DEFAULT_RULES, withHintMode } from '../engine/rules';
+
 export type LoggingMode = 'normal' | 'debug';
 
+/**
+ * What the runner does when a strategy returns an invalid action (OQ-4): throw and abort the run,
+ * forfeit the game with score 0, or substitute discard slot 0 / play slot 0 and continue.
+ * 'substitute-discard' falls back to playing slot 0 when discarding is illegal (hint tokens full).
+ */
+export type InvalidActionPolicy = 'fail-fast' | 'forfeit' | 'substitute-discard' | 'substitute-play';
+
 export interface GameConfig {
+  /** Number of seats, 2-5 (FR-10: 5 cards each for 2-3 players, 4 cards each for 4-5). */
+  playerCount: number;
+  /** Suit set; see VARIANTS in engine/variants.ts. */
+  variant: VariantId;
+  /** Rule caps and toggles; hintTokens/lifeTokens below are starting values within these caps. */
+  rules: RuleSet;
   hintTokens: number;
   lifeTokens: number;
   gameCount: number;
   seedList: number[];
   loggingMode: LoggingMode;
+  invalidActionPolicy: InvalidActionPolicy;
+  /**
+   * Extra directory of compiled strategy modules for the registry to discover (OQ-2). Set by the
+   * CLI or server from HANABI_STRATEGY_DIR; never accepted from API input.
+   */
+  strategyDir?: string;
 }
 
+/**
+ * Runs allow empty number hints by default: every built-in strategy but Random needs them, so a
+ * default run would otherwise leave them all out. Standard rules are opt-in (the 'standard' presets).
+ */
 export const DEFAULT_CONFIG: GameConfig = {
+  playerCount: 2,
+  variant: 'standard',
+  rules: withHintMode(DEFAULT_RULES, 'empty-clues'),
   hintTokens: 8,
   lifeTokens: 3,
   gameCount: 1000,
   seedList: [],
   loggingMode: 'normal',
+  invalidActionPolicy: 'fail-fast',
 };
 
 export function createDefaultConfig(overrides?: Partial<GameConfig>): GameConfig {
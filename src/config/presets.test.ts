@@ -0,0 +1,93 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CONFIG_PRESETS,
+  getAllPresets,
+  loadUserPresets,
+  saveUserPreset,
+  presetIdFromLabel,
+  userPresetsPath,
+} from './presets';
+import { DEFAULT_CONFIG } from './index';
+import { selectStrategies } from '../simulator/runner';
+import { getStrategies } from '../strategies/registry';
+
+describe('built-in presets', () => {
+  const runs = (id: string) => selectStrategies(CONFIG_PRESETS.find((p) => p.id === id)!.config).map((s) => s.name);
+
+  it('run every built-in strategy, HintPartner ones included, by default', () => {
+    const all = getStrategies().map((s) => s.name);
+    expect(all.filter((name) => name.startsWith('HintPartner'))).toHaveLength(5);
+    for (const id of ['default', 'quick', '100k', 'debug', '3p', 'rainbow']) {
+      expect(runs(id)).toEqual(all);
+    }
+  });
+
+  it('leave strategies that need empty clues out of the standard-rules presets', () => {
+    expect(runs('standard')).toEqual(['Random']);
+  });
+});
+
+describe('user presets', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hanabi-presets-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('saves a validated preset to disk and lists it after the built-ins', () => {
+    const result = saveUserPreset('My 3p run', { playerCount: 3, gameCount: 20 }, dir);
+    expect(result.ok).toBe(true);
+    expect(fs.existsSync(userPresetsPath(dir))).toBe(true);
+
+    const all = getAllPresets(dir);
+    expect(all.slice(0, CONFIG_PRESETS.length)).toEqual(CONFIG_PRESETS);
+    expect(all[all.length - 1]).toEqual({
+      id: 'my-3p-run',
+      label: 'My 3p run',
+      config: { ...DEFAULT_CONFIG, playerCount: 3, gameCount: 20 },
+    });
+  });
+
+  it('replaces a saved preset with the same id', () => {
+    saveUserPreset('Mine', { gameCount: 5 }, dir);
+    saveUserPreset('mine', { gameCount: 6 }, dir);
+    const saved = getAllPresets(dir).filter((p) => p.id === 'mine');
+    expect(saved).toHaveLength(1);
+    expect(saved[0].config.gameCount).toBe(6);
+  });
+
+  it('reports label and config field errors without writing', () => {
+    const result = saveUserPreset('Quick', { gameCount: -1 }, dir);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.errors.map((e) => e.field)).toEqual(['label', 'gameCount']);
+    expect(saveUserPreset('  ', {}, dir).ok).toBe(false);
+    expect(fs.existsSync(userPresetsPath(dir))).toBe(false);
+  });
+
+  it('returns saved presets that no longer validate apart, and keeps them on save', () => {
+    const stale = { id: 'stale', label: 'Stale', config: { ...DEFAULT_CONFIG, gameCount: -1 } };
+    fs.mkdirSync(path.dirname(userPresetsPath(dir)), { recursive: true });
+    fs.writeFileSync(userPresetsPath(dir), JSON.stringify([stale]));
+
+    const loaded = loadUserPresets(dir);
+    expect(loaded.presets).toEqual([]);
+    expect(loaded.invalid).toEqual([
+      { id: 'stale', label: 'Stale', errors: [expect.objectContaining({ field: 'gameCount' })] },
+    ]);
+    expect(getAllPresets(dir).map((p) => p.id)).not.toContain('stale');
+
+    saveUserPreset('Mine', { gameCount: 5 }, dir);
+    const stored = JSON.parse(fs.readFileSync(userPresetsPath(dir), 'utf-8')) as { id: string }[];
+    expect(stored.map((p) => p.id)).toEqual(['stale', 'mine']);
+  });
+
+  it('derives ids from labels', () => {
+    expect(presetIdFromLabel('  Rainbow: 5k games! ')).toBe('rainbow-5k-games');
+  });
+});
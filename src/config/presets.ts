@@ -1,5 +1,10 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import { createDefaultConfig } from './index';
+import { DEFAULT_RULES, withHintMode } from '../engine/rules';
 import type { GameConfig } from './index';
+import { validateGameConfig } from './validate';
+import type { ConfigFieldError } from './validate';
 
 export interface ConfigPreset {
   id: string;
@@ -15,9 +20,119 @@ export const CONFIG_PRESETS: ConfigPreset[] = [
     label: '100k games',
     config: createDefaultConfig({ gameCount: 100_000 }),
   },
+  {
+    id: 'standard',
+    label: 'Standard rules: hints must touch a card (1k games)',
+    config: createDefaultConfig({ rules: withHintMode(DEFAULT_RULES, 'standard') }),
+  },
+  {
+    id: 'standard-debug',
+    label: 'Standard rules, debug (10 games, full traces)',
+    config: createDefaultConfig({
+      gameCount: 10,
+      loggingMode: 'debug',
+      rules: withHintMode(DEFAULT_RULES, 'standard'),
+    }),
+  },
+  {
+    id: '3p',
+    label: '3 players (1k games)',
+    config: createDefaultConfig({ playerCount: 3 }),
+  },
+  {
+    id: '4p',
+    label: '4 players (1k games)',
+    config: createDefaultConfig({ playerCount: 4 }),
+  },
+  {
+    id: 'rainbow',
+    label: 'Rainbow variant (1k games)',
+    config: createDefaultConfig({ variant: 'rainbow' }),
+  },
   {
     id: 'debug',
     label: 'Debug (10 games, full traces)',
     config: createDefaultConfig({ gameCount: 10, loggingMode: 'debug' }),
   },
 ];
+
+/** Presets saved from the UI; persisted as JSON in presets/user-presets.json under the working directory. */
+export function userPresetsPath(baseDir = process.cwd()): string {
+  return path.join(baseDir, 'presets', 'user-presets.json');
+}
+
+/** A saved preset whose config no longer validates (e.g. after a GameConfig change). */
+export interface InvalidUserPreset {
+  id: string;
+  label: string;
+  errors: ConfigFieldError[];
+}
+
+function readStoredPresets(baseDir: string): ConfigPreset[] {
+  const file = userPresetsPath(baseDir);
+  if (!fs.existsSync(file)) return [];
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as ConfigPreset[];
+}
+
+/**
+ * Reads saved presets. Entries whose config no longer validates are returned apart with their
+ * errors rather than failing the whole list.
+ */
+export function loadUserPresets(
+  baseDir = process.cwd()
+): { presets: ConfigPreset[]; invalid: InvalidUserPreset[] } {
+  const presets: ConfigPreset[] = [];
+  const invalid: InvalidUserPreset[] = [];
+  for (const p of readStoredPresets(baseDir)) {
+    const result = validateGameConfig(p.config);
+    if (result.ok) {
+      presets.push({ id: p.id, label: p.label, config: result.config });
+    } else {
+      invalid.push({ id: p.id, label: p.label, errors: result.errors });
+    }
+  }
+  return { presets, invalid };
+}
+
+/** Built-in presets followed by saved ones. */
+export function getAllPresets(baseDir = process.cwd()): ConfigPreset[] {
+  return [...CONFIG_PRESETS, ...loadUserPresets(baseDir).presets];
+}
+
+export function presetIdFromLabel(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Saves a named preset, replacing a saved preset with the same id. Built-in preset ids cannot be
+ * reused. Returns the saved preset or field errors (label errors are reported on 'label').
+ */
+export function saveUserPreset(
+  label: unknown,
+  config: unknown,
+  baseDir = process.cwd()
+): { ok: true; preset: ConfigPreset } | { ok: false; errors: ConfigFieldError[] } {
+  const errors: ConfigFieldError[] = [];
+  const id = typeof label === 'string' ? presetIdFromLabel(label) : '';
+  if (!id) {
+    errors.push({ field: 'label', message: 'must contain at least one letter or digit' });
+  } else if (CONFIG_PRESETS.some((p) => p.id === id)) {
+    errors.push({ field: 'label', message: `'${id}' is a built-in preset` });
+  }
+  const result = validateGameConfig(config);
+  if (!result.ok) errors.push(...result.errors);
+  if (errors.length > 0 || !result.ok) return { ok: false, errors };
+
+  const preset: ConfigPreset = { id, label: (label as string).trim(), config: result.config };
+  // Presets that no longer validate are kept as stored, so a later fix can bring them back
+  const saved = readStoredPresets(baseDir).filter((p) => p.id !== id);
+  saved.push(preset);
+  const file = userPresetsPath(baseDir);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(saved, null, 2));
+  return { ok: true, preset };
+}
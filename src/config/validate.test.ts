@@ -0,0 +1,67 @@
+import { validateGameConfig } from './validate';
+import { DEFAULT_CONFIG } from './index';
+
+function fieldsOf(input: unknown): string[] {
+  const result = validateGameConfig(input);
+  return result.ok ? [] : result.errors.map((e) => e.field);
+}
+
+describe('validateGameConfig', () => {
+  it('fills missing fields from the defaults', () => {
+    const result = validateGameConfig({ gameCount: 50, rules: { maxStrikes: 4 } });
+    expect(result).toEqual({
+      ok: true,
+      config: { ...DEFAULT_CONFIG, gameCount: 50, rules: { ...DEFAULT_CONFIG.rules, maxStrikes: 4 } },
+    });
+  });
+
+  it('reports every invalid field with its path', () => {
+    expect(
+      fieldsOf({
+        playerCount: 6,
+        variant: 'purple',
+        gameCount: 0,
+        loggingMode: 'verbose',
+        invalidActionPolicy: 'retry',
+        rules: { maxHintTokens: 'eight', endOfDeck: 'never', fiveRefundsHint: 1 },
+      }).sort()
+    ).toEqual(
+      [
+        'playerCount',
+        'variant',
+        'gameCount',
+        'loggingMode',
+        'invalidActionPolicy',
+        'rules.maxHintTokens',
+        'rules.endOfDeck',
+        'rules.fiveRefundsHint',
+      ].sort()
+    );
+  });
+
+  it('checks starting tokens against the rule caps', () => {
+    expect(fieldsOf({ hintTokens: 9 })).toEqual(['hintTokens']);
+    expect(fieldsOf({ hintTokens: 6, rules: { maxHintTokens: 6 } })).toEqual([]);
+    expect(fieldsOf({ lifeTokens: 4 })).toEqual(['lifeTokens']);
+  });
+
+  it('points at the first bad seed', () => {
+    const result = validateGameConfig({ seedList: [1, 2, -3, 4.5] });
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.errors).toEqual([{ field: 'seedList[2]', message: expect.any(String) }]);
+  });
+
+  it('rejects unknown fields', () => {
+    expect(fieldsOf({ gameCnt: 10, rules: { maxClues: 8 } })).toEqual(['gameCnt', 'rules.maxClues']);
+    expect(fieldsOf({ rules: { handSize: 11 } })).toEqual(['rules.handSize']);
+  });
+
+  it('refuses a strategy directory from untrusted input', () => {
+    expect(fieldsOf({ strategyDir: '/tmp/strategies' })).toEqual(['strategyDir']);
+  });
+
+  it('rejects non-object input', () => {
+    expect(fieldsOf('default')).toEqual(['']);
+    expect(fieldsOf({ rules: [] })).toEqual(['rules']);
+  });
+});
@@ -0,0 +1,152 @@
+import type { GameConfig, InvalidActionPolicy, LoggingMode } from './index';
+import { DEFAULT_CONFIG } from './index';
+import type { EndOfDeckRule, RuleSet } from '../engine/rules';
+import { MIN_PLAYER_COUNT, MAX_PLAYER_COUNT } from '../engine/game-state';
+import { isVariantId } from '../engine/variants';
+
+/** Largest game count accepted from the API; larger runs should go through the CLI. */
+export const MAX_GAME_COUNT = 1_000_000;
+
+const LOGGING_MODES: LoggingMode[] = ['normal', 'debug'];
+const INVALID_ACTION_POLICIES: InvalidActionPolicy[] = [
+  'fail-fast',
+  'forfeit',
+  'substitute-discard',
+  'substitute-play',
+];
+const END_OF_DECK_RULES: EndOfDeckRule[] = ['final-round', 'final-round-inclusive', 'immediate'];
+
+/** A problem with one field; `field` is a dotted path such as 'rules.maxHintTokens' or 'seedList[3]'. */
+export interface ConfigFieldError {
+  field: string;
+  message: string;
+}
+
+export type ConfigValidationResult =
+  | { ok: true; config: GameConfig }
+  | { ok: false; errors: ConfigFieldError[] };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isInt(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value);
+}
+
+function checkInt(
+  errors: ConfigFieldError[],
+  field: string,
+  value: unknown,
+  min: number,
+  max = Number.MAX_SAFE_INTEGER
+): void {
+  if (!isInt(value)) {
+    errors.push({ field, message: 'must be an integer' });
+  } else if (value < min || value > max) {
+    errors.push({ field, message: `must be between ${min} and ${max}` });
+  }
+}
+
+function checkBoolean(errors: ConfigFieldError[], field: string, value: unknown): void {
+  if (typeof value !== 'boolean') errors.push({ field, message: 'must be true or false' });
+}
+
+function checkOneOf<T extends string>(
+  errors: ConfigFieldError[],
+  field: string,
+  value: unknown,
+  allowed: readonly T[]
+): void {
+  if (!allowed.includes(value as T)) {
+    errors.push({ field, message: `must be one of: ${allowed.join(', ')}` });
+  }
+}
+
+function checkUnknownFields(
+  errors: ConfigFieldError[],
+  prefix: string,
+  input: Record<string, unknown>,
+  known: object
+): void {
+  for (const key of Object.keys(input)) {
+    if (!(key in known)) errors.push({ field: prefix + key, message: 'unknown field' });
+  }
+}
+
+/**
+ * Validates a (possibly partial) GameConfig from untrusted input such as an API body. Missing
+ * fields (and rules) take DEFAULT_CONFIG values; every problem is reported with its field path
+ * rather than stopping at the first.
+ */
+export function validateGameConfig(input: unknown): ConfigValidationResult {
+  if (!isObject(input)) {
+    return { ok: false, errors: [{ field: '', message: 'config must be an object' }] };
+  }
+  const errors: ConfigFieldError[] = [];
+  // Loading strategy code from a path is left to whoever starts the process
+  const { strategyDir, ...rest } = input;
+  if (strategyDir !== undefined) {
+    errors.push({ field: 'strategyDir', message: 'cannot be set here' });
+  }
+  checkUnknownFields(errors, '', rest, DEFAULT_CONFIG);
+
+  let rulesInput: Record<string, unknown> = {};
+  if (input.rules !== undefined) {
+    if (isObject(input.rules)) {
+      rulesInput = input.rules;
+      checkUnknownFields(errors, 'rules.', rulesInput, { ...DEFAULT_CONFIG.rules, handSize: 0 });
+    } else {
+      errors.push({ field: 'rules', message: 'must be an object' });
+    }
+  }
+  const rules = { ...DEFAULT_CONFIG.rules, ...rulesInput } as RuleSet;
+  const config = { ...DEFAULT_CONFIG, ...rest, rules } as GameConfig;
+
+  checkInt(errors, 'playerCount', config.playerCount, MIN_PLAYER_COUNT, MAX_PLAYER_COUNT);
+  if (!isVariantId(config.variant)) {
+    errors.push({ field: 'variant', message: `unknown variant '${String(config.variant)}'` });
+  }
+
+  checkInt(errors, 'rules.maxHintTokens', rules.maxHintTokens, 1, 99);
+  checkInt(errors, 'rules.maxStrikes', rules.maxStrikes, 1, 99);
+  // 5 hands of 10 still fit the smallest (50-card) deck
+  if (rules.handSize !== undefined) checkInt(errors, 'rules.handSize', rules.handSize, 1, 10);
+  checkBoolean(errors, 'rules.allowEmptyNumberHints', rules.allowEmptyNumberHints);
+  checkBoolean(errors, 'rules.fiveRefundsHint', rules.fiveRefundsHint);
+  checkBoolean(errors, 'rules.strikeoutScoresZero', rules.strikeoutScoresZero);
+  checkOneOf(errors, 'rules.endOfDeck', rules.endOfDeck, END_OF_DECK_RULES);
+
+  checkInt(
+    errors,
+    'hintTokens',
+    config.hintTokens,
+    0,
+    isInt(rules.maxHintTokens) ? rules.maxHintTokens : Number.MAX_SAFE_INTEGER
+  );
+  checkInt(
+    errors,
+    'lifeTokens',
+    config.lifeTokens,
+    1,
+    isInt(rules.maxStrikes) ? rules.maxStrikes : Number.MAX_SAFE_INTEGER
+  );
+  checkInt(errors, 'gameCount', config.gameCount, 1, MAX_GAME_COUNT);
+
+  if (!Array.isArray(config.seedList)) {
+    errors.push({ field: 'seedList', message: 'must be an array of seeds' });
+  } else {
+    if (config.seedList.length > MAX_GAME_COUNT) {
+      errors.push({ field: 'seedList', message: `must have at most ${MAX_GAME_COUNT} seeds` });
+    }
+    const bad = config.seedList.findIndex((s) => !isInt(s) || s < 0 || s > 0xffffffff);
+    if (bad >= 0) {
+      errors.push({ field: `seedList[${bad}]`, message: 'must be an integer between 0 and 4294967295' });
+    }
+  }
+
+  checkOneOf(errors, 'loggingMode', config.loggingMode, LOGGING_MODES);
+  checkOneOf(errors, 'invalidActionPolicy', config.invalidActionPolicy, INVALID_ACTION_POLICIES);
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, config };
+}
@@ -1,8 +1,10 @@
-import { Color, COLORS } from './types';
+import { Color } from './types';
 import type { GameState } from './game-state';
-import { PLAYER_COUNT } from './game-state';
+import type { RuleSet } from './rules';
+import type { Variant } from './variants';
+import { getVariant, getHintColors, isTouchedByHint } from './variants';
 import type { Observation } from './observation';
-import { getSelfSeat } from './observation';
+import { getSelfSeat, getOtherSeats } from './observation';
 
 export type PlayAction = {
   type: 'play';
@@ -23,6 +25,34 @@ export type HintAction = {
 
 export type Action = PlayAction | DiscardAction | HintAction;
 
+/**
+ * Checks the hint value and that the hint touches at least one card in the target hand (per suit
+ * touch rules). With rules.allowEmptyNumberHints, number hints 1-5 need not touch anything.
+ */
+function validateHintTouches(
+  variant: Variant,
+  rules: RuleSet,
+  targetHand: { color?: Color; value?: number }[],
+  action: HintAction
+): string | null {
+  if (action.hintType === 'number') {
+    if (typeof action.hintValue !== 'number' || action.hintValue < 1 || action.hintValue > 5) {
+      return `Invalid hint: number hint must be 1-5, got ${action.hintValue}`;
+    }
+    // Position-encoding: number hints may encode a slot index instead of touching cards
+    if (rules.allowEmptyNumberHints) return null;
+  } else if (!getHintColors(variant).includes(action.hintValue as Color)) {
+    return `Invalid hint: ${Color[action.hintValue as Color] ?? action.hintValue} is not a hint color in this variant`;
+  }
+  const hasMatch = targetHand.some((card) =>
+    isTouchedByHint(variant, card, action.hintType, action.hintValue)
+  );
+  if (!hasMatch) {
+    return 'Invalid hint: no matching cards in target hand';
+  }
+  return null;
+}
+
 export function validateAction(state: GameState, action: Action): string | null {
   const hand = state.hands[state.currentPlayer];
   const handSize = hand.length;
@@ -38,7 +68,7 @@ export function validateAction(state: GameState, action: Action): string | null
     if (action.cardIndex < 0 || action.cardIndex >= handSize) {
       return `Invalid discard: cardIndex ${action.cardIndex} out of range [0, ${handSize - 1}]`;
     }
-    if (state.hintTokens >= 8) {
+    if (state.hintTokens >= state.rules.maxHintTokens) {
       return 'Cannot discard: already at max hint tokens';
     }
     return null;
@@ -51,27 +81,11 @@ export function validateAction(state: GameState, action: Action): string | null
     if (action.targetPlayer === state.currentPlayer) {
       return 'Cannot hint: cannot hint yourself';
     }
-    if (action.targetPlayer < 0 || action.targetPlayer >= PLAYER_COUNT) {
+    if (action.targetPlayer < 0 || action.targetPlayer >= state.playerCount) {
       return `Invalid hint: targetPlayer ${action.targetPlayer} out of range`;
     }
     const targetHand = state.hands[action.targetPlayer];
-    if (action.hintType === 'number' && typeof action.hintValue === 'number') {
-      // Position-encoding: number hints 1-5 are always legal (encode slot index)
-      if (action.hintValue < 1 || action.hintValue > 5) {
-        return `Invalid hint: number hint must be 1-5, got ${action.hintValue}`;
-      }
-    } else {
-      const hasMatch = targetHand.some((card) => {
-        if (action.hintType === 'color') {
-          return card.color === action.hintValue;
-        }
-        return card.value === action.hintValue;
-      });
-      if (!hasMatch) {
-        return 'Invalid hint: no matching cards in target hand';
-      }
-    }
-    return null;
+    return validateHintTouches(getVariant(state.variantId), state.rules, targetHand, action);
   }
 
   return null;
@@ -85,22 +99,28 @@ export function getLegalActions(state: GameState, seatIndex: number): Action[] {
   for (let i = 0; i < handSize; i++) {
     actions.push({ type: 'play', cardIndex: i });
   }
-  if (state.hintTokens < 8) {
+  if (state.hintTokens < state.rules.maxHintTokens) {
     for (let i = 0; i < handSize; i++) {
       actions.push({ type: 'discard', cardIndex: i });
     }
   }
   if (state.hintTokens > 0) {
-    for (let target = 0; target < PLAYER_COUNT; target++) {
+    const variant = getVariant(state.variantId);
+    for (let target = 0; target < state.playerCount; target++) {
       if (target === seatIndex) continue;
       const targetHand = state.hands[target];
-      for (const color of COLORS) {
-        if (targetHand.some((c) => c.color === color)) {
+      for (const color of getHintColors(variant)) {
+        if (targetHand.some((c) => isTouchedByHint(variant, c, 'color', color))) {
           actions.push({ type: 'hint', targetPlayer: target, hintType: 'color', hintValue: color });
         }
       }
       for (let value = 1; value <= 5; value++) {
-        // Number hints 1-5 are always legal (position-encoding convention)
+        if (
+          !state.rules.allowEmptyNumberHints &&
+          !targetHand.some((c) => isTouchedByHint(variant, c, 'number', value))
+        ) {
+          continue;
+        }
         actions.push({ type: 'hint', targetPlayer: target, hintType: 'number', hintValue: value });
       }
     }
@@ -130,7 +150,7 @@ export function validateActionForObservation(
     if (action.cardIndex < 0 || action.cardIndex >= handSize) {
       return `Invalid discard: cardIndex ${action.cardIndex} out of range [0, ${handSize - 1}]`;
     }
-    if (observation.hintsRemaining >= 8) {
+    if (observation.hintsRemaining >= observation.rules.maxHintTokens) {
       return 'Cannot discard: already at max hint tokens';
     }
     return null;
@@ -143,27 +163,16 @@ export function validateActionForObservation(
     if (action.targetPlayer === selfSeat) {
       return 'Cannot hint: cannot hint yourself';
     }
-    if (action.targetPlayer < 0 || action.targetPlayer >= PLAYER_COUNT) {
+    if (action.targetPlayer < 0 || action.targetPlayer >= observation.playerCount) {
       return `Invalid hint: targetPlayer ${action.targetPlayer} out of range`;
     }
-    const partnerSeat = 1 - selfSeat;
-    const targetHand = action.targetPlayer === partnerSeat ? observation.visibleCards : [];
-    if (action.hintType === 'number' && typeof action.hintValue === 'number') {
-      if (action.hintValue < 1 || action.hintValue > 5) {
-        return `Invalid hint: number hint must be 1-5, got ${action.hintValue}`;
-      }
-    } else {
-      const hasMatch = targetHand.some((card) => {
-        if (action.hintType === 'color') {
-          return card.color === action.hintValue;
-        }
-        return card.value === action.hintValue;
-      });
-      if (!hasMatch) {
-        return 'Invalid hint: no matching cards in target hand';
-      }
-    }
-    return null;
+    const targetHand = observation.visibleCards[action.targetPlayer] ?? [];
+    return validateHintTouches(
+      getVariant(observation.variantId),
+      observation.rules,
+      targetHand,
+      action
+    );
   }
 
   return null;
@@ -176,26 +185,33 @@ export function validateActionForObservation(
 export function getLegalActionsFromObservation(observation: Observation): Action[] {
   const actions: Action[] = [];
   const handSize = observation.ownHandSize;
-  const selfSeat = getSelfSeat(observation);
 
   for (let i = 0; i < handSize; i++) {
     actions.push({ type: 'play', cardIndex: i });
   }
-  if (observation.hintsRemaining < 8) {
+  if (observation.hintsRemaining < observation.rules.maxHintTokens) {
     for (let i = 0; i < handSize; i++) {
       actions.push({ type: 'discard', cardIndex: i });
     }
   }
   if (observation.hintsRemaining > 0) {
-    const partnerSeat = 1 - selfSeat;
-    const targetHand = observation.visibleCards;
-    for (const color of COLORS) {
-      if (targetHand.some((c) => c.color === color)) {
-        actions.push({ type: 'hint', targetPlayer: partnerSeat, hintType: 'color', hintValue: color });
+    const variant = getVariant(observation.variantId);
+    for (const target of getOtherSeats(observation)) {
+      const targetHand = observation.visibleCards[target] ?? [];
+      for (const color of getHintColors(variant)) {
+        if (targetHand.some((c) => isTouchedByHint(variant, c, 'color', color))) {
+          actions.push({ type: 'hint', targetPlayer: target, hintType: 'color', hintValue: color });
+        }
+      }
+      for (let value = 1; value <= 5; value++) {
+        if (
+          !observation.rules.allowEmptyNumberHints &&
+          !targetHand.some((c) => isTouchedByHint(variant, c, 'number', value))
+        ) {
+          continue;
+        }
+        actions.push({ type: 'hint', targetPlayer: target, hintType: 'number', hintValue: value });
       }
-    }
-    for (let value = 1; value <= 5; value++) {
-      actions.push({ type: 'hint', targetPlayer: partnerSeat, hintType: 'number', hintValue: value });
     }
   }
   return actions;
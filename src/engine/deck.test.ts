@@ -1,4 +1,5 @@
 import { createDeck, shuffleDeck } from './deck';
+import { deal } from './game-state';
 
 describe('createDeck', () => {
   it('creates 50 cards', () => {
@@ -54,3 +55,20 @@ describe('shuffleDeck', () => {
     expect(deck.map((c) => c.id)).toEqual(originalIds);
   });
 });
+
+describe('deal', () => {
+  it('deals 5 cards each for 2-3 players and 4 cards each for 4-5 players', () => {
+    const expected: Record<number, number> = { 2: 5, 3: 5, 4: 4, 5: 4 };
+    for (const [playerCount, handSize] of Object.entries(expected)) {
+      const { hands, deck } = deal(createDeck(), Number(playerCount));
+      expect(hands).toHaveLength(Number(playerCount));
+      for (const hand of hands) expect(hand).toHaveLength(handSize);
+      expect(deck).toHaveLength(50 - Number(playerCount) * handSize);
+    }
+  });
+
+  it('rejects unsupported player counts', () => {
+    expect(() => deal(createDeck(), 1)).toThrow(/Invalid player count/);
+    expect(() => deal(createDeck(), 6)).toThrow(/Invalid player count/);
+  });
+});
@@ -1,16 +1,19 @@
 import { createSeededRNG } from './seeded-rng';
-import { type Card, Color, COLORS, DECK_COMPOSITION } from './types';
+import type { Card } from './types';
+import type { Variant } from './variants';
+import { getVariant } from './variants';
 
 /**
- * Creates a standard Hanabi deck: 5 colors × (3×1, 2×2, 2×3, 2×4, 1×5) = 50 cards.
- * Each card has a stable unique ID (0-49).
+ * Creates a Hanabi deck for the variant. Standard: 5 colors × (3×1, 2×2, 2×3, 2×4, 1×5) = 50 cards;
+ * variant suits add their own composition (e.g. one copy of each rank for dark suits).
+ * Each card has a stable unique ID (0 to deck size - 1).
  */
-export function createDeck(): Card[] {
+export function createDeck(variant: Variant = getVariant()): Card[] {
   const deck: Card[] = [];
   let id = 0;
-  for (const color of COLORS) {
+  for (const { color, composition } of variant.suits) {
     for (let value = 1; value <= 5; value++) {
-      const count = DECK_COMPOSITION[value];
+      const count = composition[value] ?? 0;
       for (let i = 0; i < count; i++) {
         deck.push({ id: id++, color, value });
       }
@@ -1,4 +1,4 @@
-import { Card, Color } from './types';
+import { Card, Color, PlayedStacks } from './types';
 
 export type PlayEvent = {
   type: 'play';
@@ -28,13 +28,14 @@ export type HintEvent = {
 
 export type GameEvent = PlayEvent | DiscardEvent | HintEvent;
 
-export type EndReason = 'lives_zero' | 'max_score' | 'deck_empty';
+/** 'forfeit' is set by the runner when the invalid-action policy ends a game early. */
+export type EndReason = 'lives_zero' | 'max_score' | 'deck_empty' | 'forfeit';
 
 export interface FinalState {
   score: number;
   livesRemaining: number;
   hintsRemaining: number;
   endReason: EndReason;
-  playedStacks: Record<Color, number>;
+  playedStacks: PlayedStacks;
   discardPile: Card[];
 }
@@ -31,6 +31,38 @@ describe('runGame', () => {
     expect(r1.finalState.endReason).toBe(r2.finalState.endReason);
   });
 
+  it('runs 3- to 5-player games to completion', () => {
+    const strategy = new ExampleStrategy(7);
+    for (const playerCount of [3, 4, 5]) {
+      const result = runGame(11, (obs) => strategy.getAction(obs), { playerCount });
+      expect(result.finalState.score).toBeLessThanOrEqual(25);
+      const seats = new Set(result.events.map((e) => e.playerIndex));
+      expect(seats.size).toBe(playerCount);
+    }
+  });
+
+  it('final round gives each player a turn after the deck runs out', () => {
+    const state = createInitialState(5, { playerCount: 4 });
+    state.deck = state.deck.slice(0, 1);
+    state.hintTokens = 0;
+    executeAction(state, { type: 'discard', cardIndex: 0 });
+    expect(state.finalRoundStarted).toBe(true);
+    let turns = 0;
+    while (!state.gameOver) {
+      executeAction(state, { type: 'discard', cardIndex: 0 });
+      turns++;
+    }
+    expect(turns).toBe(3);
+    expect(state.endReason).toBe('deck_empty');
+  });
+
+  it('rejects hints targeting a seat outside the table', () => {
+    const state = createInitialState(42, { playerCount: 3 });
+    expect(() => {
+      executeAction(state, { type: 'hint', targetPlayer: 3, hintType: 'number', hintValue: 1 });
+    }).toThrow(/out of range/);
+  });
+
   it('throws when strategy returns invalid action', () => {
     const state = createInitialState(42);
     expect(() => {
@@ -1,22 +1,43 @@
-import type { Card } from './types';
-import { Color, COLORS } from './types';
+import type { Card, PlayedStacks } from './types';
 import type { Action } from './actions';
 import type { GameEvent, EndReason } from './events';
 import type { GameState } from './game-state';
-import { PLAYER_COUNT, createInitialState } from './game-state';
+import type { InitialStateOptions } from './game-state';
+import { createInitialState, applyHintToKnowledge } from './game-state';
 import { validateAction } from './actions';
 import { buildObservation } from './observation';
 import type { Observation } from './observation';
+import { getVariant, getMaxScore, isTouchedByHint } from './variants';
 
-const MAX_HINT_TOKENS = 8;
-const MAX_SCORE = 25;
-
-export function calculateScore(playedStacks: Record<Color, number>): number {
+/** Sum of the top card of every suit stack (max 5 per suit). */
+export function calculateScore(playedStacks: PlayedStacks): number {
   let score = 0;
-  for (const c of COLORS) {
-    score += playedStacks[c] ?? 0;
+  for (const value of Object.values(playedStacks)) {
+    score += value ?? 0;
+  }
+  return score;
+}
+
+/**
+ * Final score under the active rules: 0 for a forfeited game or after a strikeout when
+ * strikeoutScoresZero is set, otherwise the sum of the stacks.
+ */
+export function calculateFinalScore(state: GameState): number {
+  if (state.endReason === 'forfeit') {
+    return 0;
   }
-  return Math.min(score, MAX_SCORE);
+  if (state.endReason === 'lives_zero' && state.rules.strikeoutScoresZero) {
+    return 0;
+  }
+  return calculateScore(state.playedStacks);
+}
+
+/**
+ * Ends the game immediately with a score of 0.
+ */
+export function forfeitGame(state: GameState): void {
+  state.gameOver = true;
+  state.endReason = 'forfeit';
 }
 
 function drawCard(state: GameState, playerIndex: number): void {
@@ -26,7 +47,19 @@ function drawCard(state: GameState, playerIndex: number): void {
 }
 
 function advancePlayer(state: GameState): void {
-  state.currentPlayer = (state.currentPlayer + 1) % PLAYER_COUNT;
+  state.currentPlayer = (state.currentPlayer + 1) % state.playerCount;
+}
+
+/** Turns still to be played after the action that emptied the deck (see EndOfDeckRule). */
+function turnsAfterLastDraw(state: GameState): number {
+  switch (state.rules.endOfDeck) {
+    case 'immediate':
+      return 0;
+    case 'final-round-inclusive':
+      return state.playerCount;
+    default:
+      return state.playerCount - 1;
+  }
 }
 
 function checkGameEnd(state: GameState): void {
@@ -35,7 +68,7 @@ function checkGameEnd(state: GameState): void {
     state.endReason = 'lives_zero';
     return;
   }
-  if (calculateScore(state.playedStacks) === MAX_SCORE) {
+  if (calculateScore(state.playedStacks) === getMaxScore(getVariant(state.variantId))) {
     state.gameOver = true;
     state.endReason = 'max_score';
     return;
@@ -63,7 +96,11 @@ export function executeAction(state: GameState, action: Action): GameEvent {
 
     if (success) {
       state.playedStacks[card.color] = card.value;
-      if (card.value === 5 && state.hintTokens < MAX_HINT_TOKENS) {
+      if (
+        card.value === 5 &&
+        state.rules.fiveRefundsHint &&
+        state.hintTokens < state.rules.maxHintTokens
+      ) {
         state.hintTokens++;
       }
       event = {
@@ -88,7 +125,7 @@ export function executeAction(state: GameState, action: Action): GameEvent {
   } else if (action.type === 'discard') {
     const card = hand.splice(action.cardIndex, 1)[0];
     state.discardPile.push(card);
-    if (state.hintTokens < MAX_HINT_TOKENS) {
+    if (state.hintTokens < state.rules.maxHintTokens) {
       state.hintTokens++;
     }
     event = {
@@ -100,46 +137,26 @@ export function executeAction(state: GameState, action: Action): GameEvent {
     drawCard(state, playerIndex);
   } else {
     state.hintTokens--;
+    const variant = getVariant(state.variantId);
     const targetHand = state.hands[action.targetPlayer];
     const matchedCardIndices: number[] = [];
     const matchedCardIds: number[] = [];
     targetHand.forEach((card, idx) => {
-      const matches =
-        action.hintType === 'color'
-          ? card.color === action.hintValue
-          : card.value === action.hintValue;
+      const matches = isTouchedByHint(variant, card, action.hintType, action.hintValue);
       if (matches) {
         matchedCardIndices.push(idx);
         matchedCardIds.push(card.id);
-        const known = state.hintKnowledge.get(card.id) ?? {};
-        if (action.hintType === 'color') {
-          known.color = action.hintValue as Color;
-        } else {
-          known.value = action.hintValue as number;
-        }
+      }
+      // Matched cards learn the hint; the rest get option removal
+      const known = applyHintToKnowledge(
+        state.hintKnowledge.get(card.id) ?? {},
+        variant,
+        action.hintType,
+        action.hintValue,
+        matches
+      );
+      if (Object.keys(known).length > 0) {
         state.hintKnowledge.set(card.id, known);
-      } else {
-        // Option removal: cards that don't match can no longer be that color/number
-        const known = state.hintKnowledge.get(card.id) ?? {};
-        if (action.hintType === 'color') {
-          if (known.color === undefined) {
-            const excluded = known.excludedColors ?? [];
-            const val = action.hintValue as Color;
-            if (!excluded.includes(val)) {
-              known.excludedColors = [...excluded, val];
-              state.hintKnowledge.set(card.id, known);
-            }
-          }
-        } else {
-          if (known.value === undefined) {
-            const excluded = known.excludedValues ?? [];
-            const val = action.hintValue as number;
-            if (!excluded.includes(val)) {
-              known.excludedValues = [...excluded, val];
-              state.hintKnowledge.set(card.id, known);
-            }
-          }
-        }
       }
     });
     event = {
@@ -156,12 +173,11 @@ export function executeAction(state: GameState, action: Action): GameEvent {
   state.actionHistory.push(event);
   advancePlayer(state);
 
-  if (!state.finalRoundStarted && state.deck.length === 0) {
-    state.finalRoundStarted = true;
-    state.finalRoundTurnsLeft = PLAYER_COUNT;
-  }
   if (state.finalRoundStarted) {
-    state.finalRoundTurnsLeft = (state.finalRoundTurnsLeft ?? PLAYER_COUNT) - 1;
+    state.finalRoundTurnsLeft = (state.finalRoundTurnsLeft ?? 0) - 1;
+  } else if (state.deck.length === 0) {
+    state.finalRoundStarted = true;
+    state.finalRoundTurnsLeft = turnsAfterLastDraw(state);
   }
   checkGameEnd(state);
   return event;
@@ -173,7 +189,7 @@ export interface RunGameResult {
     livesRemaining: number;
     hintsRemaining: number;
     endReason: EndReason;
-    playedStacks: Record<Color, number>;
+    playedStacks: PlayedStacks;
     discardPile: Card[];
   };
   events: GameEvent[];
@@ -181,9 +197,10 @@ export interface RunGameResult {
 
 export function runGame(
   seed: number,
-  getAction: (obs: Observation) => Action
+  getAction: (obs: Observation) => Action,
+  options: InitialStateOptions = {}
 ): RunGameResult {
-  const state = createInitialState(seed);
+  const state = createInitialState(seed, options);
 
   while (!state.gameOver) {
     const obs = buildObservation(state, state.currentPlayer);
@@ -193,7 +210,7 @@ export function runGame(
 
   return {
     finalState: {
-      score: calculateScore(state.playedStacks),
+      score: calculateFinalScore(state),
       livesRemaining: state.lifeTokens,
       hintsRemaining: state.hintTokens,
       endReason: state.endReason!,
@@ -1,16 +1,28 @@
-import type { Card } from './types';
-import { Color, COLORS } from './types';
+import type { Card, PlayedStacks } from './types';
+import { Color } from './types';
 import type { GameEvent, EndReason } from './events';
 import { createDeck, shuffleDeck } from './deck';
+import type { RuleSet } from './rules';
+import { DEFAULT_RULES } from './rules';
+import type { Variant, VariantId } from './variants';
+import {
+  DEFAULT_VARIANT_ID,
+  getVariant,
+  getSuitColors,
+  getSuitsTouchedByColor,
+} from './variants';
 
-/** Game is always 2 players. */
-export const PLAYER_COUNT = 2;
-
-const CARDS_PER_PLAYER = 5;
+/** Default table size; 2–5 players are supported (FR-10). */
+export const DEFAULT_PLAYER_COUNT = 2;
+export const MIN_PLAYER_COUNT = 2;
+export const MAX_PLAYER_COUNT = 5;
 
 export interface GameState {
+  playerCount: number;
+  variantId: VariantId;
+  rules: RuleSet;
   hands: Card[][];
-  playedStacks: Record<Color, number>;
+  playedStacks: PlayedStacks;
   discardPile: Card[];
   hintTokens: number;
   lifeTokens: number;
@@ -32,18 +44,90 @@ export interface HintKnowledge {
   excludedValues?: number[];
 }
 
-const MAX_HINT_TOKENS = 8;
-const MAX_LIFE_TOKENS = 3;
+/**
+ * Applies one hint to a card's knowledge using the variant's touch rules (e.g. a red hint on a
+ * rainbow variant only narrows the card to red-or-rainbow). Mutates and returns `known`.
+ */
+export function applyHintToKnowledge(
+  known: HintKnowledge,
+  variant: Variant,
+  hintType: 'color' | 'number',
+  hintValue: Color | number,
+  matched: boolean
+): HintKnowledge {
+  const suitColors = getSuitColors(variant);
+  const excluded = known.excludedColors ?? [];
+  const excludeColors = (colors: Color[]): void => {
+    const added = colors.filter((c) => !excluded.includes(c));
+    if (added.length > 0) {
+      known.excludedColors = [...excluded, ...added];
+    }
+  };
+
+  if (hintType === 'color') {
+    if (known.color !== undefined) return known;
+    const touched = getSuitsTouchedByColor(variant, hintValue as Color);
+    if (!matched) {
+      excludeColors(touched);
+      return known;
+    }
+    const candidates = touched.filter((c) => !excluded.includes(c));
+    if (candidates.length === 1) {
+      known.color = candidates[0];
+    } else {
+      excludeColors(suitColors.filter((c) => !touched.includes(c)));
+    }
+    return known;
+  }
+
+  const value = hintValue as number;
+  const untouchable = variant.suits.filter((s) => !s.numberTouch).map((s) => s.color);
+  if (matched) {
+    known.value = value;
+    if (known.color === undefined) excludeColors(untouchable);
+    return known;
+  }
+  if (known.value !== undefined) return known;
+  // A card of a suit no number hint touches may still have this value
+  const possibleColors =
+    known.color !== undefined ? [known.color] : suitColors.filter((c) => !excluded.includes(c));
+  if (possibleColors.some((c) => untouchable.includes(c))) return known;
+  const excludedValues = known.excludedValues ?? [];
+  if (!excludedValues.includes(value)) {
+    known.excludedValues = [...excludedValues, value];
+  }
+  return known;
+}
+
+/**
+ * Cards dealt to each player (FR-10): 5 cards for 2–3 players, 4 cards for 4–5 players.
+ */
+export function getHandSize(playerCount: number): number {
+  return playerCount <= 3 ? 5 : 4;
+}
 
 /**
- * Deals cards from deck. 2 players, 5 cards each. Draws from front of deck.
+ * Deals cards from deck. Hand size defaults to getHandSize(playerCount). Draws from front of deck.
  */
-export function deal(deck: Card[]): { hands: Card[][]; deck: Card[] } {
+export function deal(
+  deck: Card[],
+  playerCount = DEFAULT_PLAYER_COUNT,
+  handSize = getHandSize(playerCount)
+): { hands: Card[][]; deck: Card[] } {
+  if (
+    !Number.isInteger(playerCount) ||
+    playerCount < MIN_PLAYER_COUNT ||
+    playerCount > MAX_PLAYER_COUNT
+  ) {
+    throw new Error(
+      `Invalid player count ${playerCount}: must be ${MIN_PLAYER_COUNT}-${MAX_PLAYER_COUNT}`
+    );
+  }
   const hands: Card[][] = [];
   let idx = 0;
-  for (let p = 0; p < PLAYER_COUNT; p++) {
+  for (let p = 0; p < playerCount; p++) {
     const hand: Card[] = [];
-    for (let i = 0; i < CARDS_PER_PLAYER; i++) {
+    for (let i = 0; i < handSize; i++) {
       hand.push(deck[idx++]);
     }
     hands.push(hand);
@@ -51,27 +135,56 @@ export function deal(deck: Card[]): { hands: Card[][]; deck: Card[] } {
   return { hands, deck: deck.slice(idx) };
 }
 
-function initialPlayedStacks(): Record<Color, number> {
-  const stacks: Record<Color, number> = {} as Record<Color, number>;
-  for (const c of COLORS) {
+function initialPlayedStacks(variant: Variant): PlayedStacks {
+  const stacks: PlayedStacks = {};
+  for (const c of getSuitColors(variant)) {
     stacks[c] = 0;
   }
   return stacks;
 }
 
+export interface InitialStateOptions {
+  /** Starting clue tokens; defaults to rules.maxHintTokens. */
+  hintTokens?: number;
+  /** Starting life tokens; defaults to rules.maxStrikes. */
+  lifeTokens?: number;
+  playerCount?: number;
+  variantId?: VariantId;
+  rules?: RuleSet;
+}
+
 /**
- * Creates initial game state for a new game (2 players).
+ * Creates initial game state for a new game. Throws if starting tokens exceed the rule set's caps.
  */
 export function createInitialState(
   seed: number,
-  hintTokens = MAX_HINT_TOKENS,
-  lifeTokens = MAX_LIFE_TOKENS
+  options: InitialStateOptions = {}
 ): GameState {
-  const deck = shuffleDeck(createDeck(), seed);
-  const { hands, deck: remainingDeck } = deal(deck);
+  const rules = options.rules ?? DEFAULT_RULES;
+  const playerCount = options.playerCount ?? DEFAULT_PLAYER_COUNT;
+  const variantId = options.variantId ?? DEFAULT_VARIANT_ID;
+  const hintTokens = options.hintTokens ?? rules.maxHintTokens;
+  const lifeTokens = options.lifeTokens ?? rules.maxStrikes;
+  if (hintTokens > rules.maxHintTokens) {
+    throw new Error(`Invalid hint tokens ${hintTokens}: max is ${rules.maxHintTokens}`);
+  }
+  if (lifeTokens > rules.maxStrikes) {
+    throw new Error(`Invalid life tokens ${lifeTokens}: max is ${rules.maxStrikes}`);
+  }
+
+  const variant = getVariant(variantId);
+  const deck = shuffleDeck(createDeck(variant), seed);
+  const { hands, deck: remainingDeck } = deal(
+    deck,
+    playerCount,
+    rules.handSize ?? getHandSize(playerCount)
+  );
   return {
+    playerCount,
+    variantId,
+    rules,
     hands,
-    playedStacks: initialPlayedStacks(),
+    playedStacks: initialPlayedStacks(variant),
     discardPile: [],
     hintTokens,
     lifeTokens,
@@ -1,12 +1,22 @@
 import type { Observation } from './observation';
-import { buildObservation, deepCopyObservation, getSelfSeat } from './observation';
+import {
+  buildObservation,
+  deepCopyObservation,
+  getSelfSeat,
+  getOtherSeats,
+  getAllVisibleCards,
+} from './observation';
 import { createInitialState } from './game-state';
+import { DEFAULT_RULES } from './rules';
 
 describe('getSelfSeat', () => {
   it('returns observerSeat', () => {
     const obs: Observation = {
-      visibleCards: [{ cardId: 10 }],
+      visibleCards: { 1: [{ cardId: 10 }] },
       observerSeat: 0,
+      playerCount: 2,
+      variantId: 'standard',
+      rules: DEFAULT_RULES,
       ownHandSize: 5,
       ownCardIds: [1, 2, 3, 4, 5],
       hintsRemaining: 8,
@@ -22,12 +32,15 @@ describe('getSelfSeat', () => {
 
 describe('deepCopyObservation', () => {
   it('returns a copy that does not share references with original', () => {
-    const visibleCards = [{ cardId: 10 }, { cardId: 11 }];
+    const visibleCards = { 1: [{ cardId: 10 }, { cardId: 11 }] };
     const discardPile = [{ id: 1, color: 0, value: 1 }];
     const playedStacks = { 0: 1, 1: 0, 2: 0, 3: 0, 4: 0 };
     const obs: Observation = {
       visibleCards,
       observerSeat: 0,
+      playerCount: 2,
+      variantId: 'standard',
+      rules: DEFAULT_RULES,
       ownHandSize: 5,
       ownCardIds: [10, 11, 12, 13, 14],
       hintsRemaining: 8,
@@ -40,7 +53,8 @@ describe('deepCopyObservation', () => {
     const copy = deepCopyObservation(obs);
     expect(copy).not.toBe(obs);
     expect(copy.visibleCards).not.toBe(obs.visibleCards);
-    expect(copy.visibleCards[0]).not.toBe(obs.visibleCards[0]);
+    expect(copy.visibleCards[1]).not.toBe(obs.visibleCards[1]);
+    expect(copy.visibleCards[1][0]).not.toBe(obs.visibleCards[1][0]);
     expect(copy.discardPile).not.toBe(obs.discardPile);
     expect(copy.actionHistory).not.toBe(obs.actionHistory);
     expect(copy.playedStacks).not.toBe(obs.playedStacks);
@@ -60,8 +74,25 @@ describe('buildObservation', () => {
   it('visibleCards are cardId, color, value only (knowledge via getKnownToHolder)', () => {
     const state = createInitialState(99);
     const obs = buildObservation(state, 0);
-    for (const card of obs.visibleCards) {
+    for (const card of getAllVisibleCards(obs)) {
       expect(Object.keys(card).sort()).toEqual(['cardId', 'color', 'value']);
     }
   });
+
+  it('visibleCards holds every other seat in a 4-player game', () => {
+    const state = createInitialState(99, { playerCount: 4 });
+    const obs = buildObservation(state, 2);
+    expect(obs.playerCount).toBe(4);
+    expect(Object.keys(obs.visibleCards).map(Number).sort()).toEqual([0, 1, 3]);
+    expect(obs.visibleCards[3].map((c) => c.cardId)).toEqual(state.hands[3].map((c) => c.id));
+    expect(obs.ownHandSize).toBe(4);
+  });
+});
+
+describe('getOtherSeats', () => {
+  it('lists other seats in turn order starting after the observer', () => {
+    const state = createInitialState(1, { playerCount: 5 });
+    expect(getOtherSeats(buildObservation(state, 3))).toEqual([4, 0, 1, 2]);
+    expect(getOtherSeats(buildObservation(state, 0))).toEqual([1, 2, 3, 4]);
+  });
 });
@@ -1,6 +1,8 @@
-import type { Card, Color } from './types';
+import type { Card, Color, PlayedStacks } from './types';
 import type { GameEvent } from './events';
 import type { GameState } from './game-state';
+import type { RuleSet } from './rules';
+import type { VariantId } from './variants';
 
 /**
  * Card in another player's hand. In standard Hanabi, you see all other players' cards.
@@ -17,17 +19,23 @@ export interface VisibleCard {
  * Use getOwnHintKnowledge(observation, slotIndex) and getKnownToHolder(observation, cardId) for hint knowledge.
  */
 export interface Observation {
-  /** Partner's hand (the only other player's cards in 2-player). */
-  visibleCards: VisibleCard[];
+  /** Other players' hands keyed by seat index (every seat except the observer's). */
+  visibleCards: Record<number, VisibleCard[]>;
   /** Seat index of the observer (the player this observation is for). */
   observerSeat: number;
+  /** Number of seats at the table (2-5). */
+  playerCount: number;
+  /** Active variant; use getVariant(observation.variantId) for suits and hint touch rules. */
+  variantId: VariantId;
+  /** Active rules (token caps, hint legality, scoring); read-only for strategies. */
+  rules: RuleSet;
   ownHandSize: number;
   /** Card IDs in the observer's hand by slot index; use with actionHistory to derive per-slot hint knowledge. */
   ownCardIds: number[];
   hintsRemaining: number;
   livesRemaining: number;
   discardPile: Card[];
-  playedStacks: Record<Color, number>;
+  playedStacks: PlayedStacks;
   deckCount: number;
   actionHistory: GameEvent[];
 }
@@ -37,10 +45,17 @@ export interface Observation {
  * The engine's buildObservation (Task 2.12) must use this or equivalent when passing to strategy.getAction.
  */
 export function deepCopyObservation(obs: Observation): Observation {
-  const playedStacks: Record<number, number> = { ...obs.playedStacks };
+  const playedStacks: PlayedStacks = { ...obs.playedStacks };
+  const visibleCards: Record<number, VisibleCard[]> = {};
+  for (const seat of Object.keys(obs.visibleCards)) {
+    visibleCards[Number(seat)] = obs.visibleCards[Number(seat)].map((c) => ({ ...c }));
+  }
   return {
-    visibleCards: obs.visibleCards.map((c) => ({ ...c })),
+    visibleCards,
     observerSeat: obs.observerSeat,
+    playerCount: obs.playerCount,
+    variantId: obs.variantId,
+    rules: { ...obs.rules },
     ownHandSize: obs.ownHandSize,
     ownCardIds: [...obs.ownCardIds],
     hintsRemaining: obs.hintsRemaining,
@@ -59,23 +74,45 @@ export function getSelfSeat(observation: Observation): number {
   return observation.observerSeat;
 }
 
+/**
+ * Returns the other seats in turn order, starting with the player after the observer.
+ */
+export function getOtherSeats(observation: Observation): number[] {
+  const selfSeat = getSelfSeat(observation);
+  const seats: number[] = [];
+  for (let offset = 1; offset < observation.playerCount; offset++) {
+    seats.push((selfSeat + offset) % observation.playerCount);
+  }
+  return seats;
+}
+
+/**
+ * Returns every card the observer can see, across all other hands (in getOtherSeats order).
+ */
+export function getAllVisibleCards(observation: Observation): VisibleCard[] {
+  return getOtherSeats(observation).flatMap((seat) => observation.visibleCards[seat] ?? []);
+}
+
 export interface BuildObservationOptions {}
 
 /**
  * Builds Observation for a given seat from GameState. Includes only legal info (FR-9).
- * In 2-player, visibleCards is the partner's hand (full color/value). Does NOT include own cards.
+ * visibleCards holds every other player's hand (full color/value). Does NOT include own cards.
  */
 export function buildObservation(
   state: GameState,
   seatIndex: number,
   options?: BuildObservationOptions
 ): Observation {
-  const partnerSeat = 1 - seatIndex;
-  const visibleCards = state.hands[partnerSeat].map((card) => ({
-    cardId: card.id,
-    color: card.color,
-    value: card.value,
-  }));
+  const visibleCards: Record<number, VisibleCard[]> = {};
+  for (let seat = 0; seat < state.playerCount; seat++) {
+    if (seat === seatIndex) continue;
+    visibleCards[seat] = state.hands[seat].map((card) => ({
+      cardId: card.id,
+      color: card.color,
+      value: card.value,
+    }));
+  }
 
   const ownHand = state.hands[seatIndex];
   const ownCardIds = ownHand.map((c) => c.id);
@@ -83,6 +120,9 @@ export function buildObservation(
   const obs: Observation = {
     visibleCards,
     observerSeat: seatIndex,
+    playerCount: state.playerCount,
+    variantId: state.variantId,
+    rules: state.rules,
     ownHandSize: ownHand.length,
     ownCardIds,
     hintsRemaining: state.hintTokens,
@@ -0,0 +1,123 @@
+import { createRuleSet, DEFAULT_RULES, getHintMode, withHintMode } from './rules';
+import { createInitialState } from './game-state';
+import { executeAction, calculateFinalScore } from './game-engine';
+import { validateAction, getLegalActions } from './actions';
+import { buildObservation } from './observation';
+import type { GameState } from './game-state';
+
+function playUntilOver(state: GameState): number {
+  let turns = 0;
+  while (!state.gameOver) {
+    executeAction(state, { type: 'discard', cardIndex: 0 });
+    turns++;
+  }
+  return turns;
+}
+
+describe('RuleSet', () => {
+  it('defaults match the standard base game', () => {
+    expect(DEFAULT_RULES).toMatchObject({
+      maxHintTokens: 8,
+      maxStrikes: 3,
+      allowEmptyNumberHints: false,
+      fiveRefundsHint: true,
+      strikeoutScoresZero: false,
+      endOfDeck: 'final-round',
+    });
+  });
+
+  it('starting tokens default to the caps and may not exceed them', () => {
+    const rules = createRuleSet({ maxHintTokens: 6, maxStrikes: 2 });
+    const state = createInitialState(1, { rules });
+    expect(state.hintTokens).toBe(6);
+    expect(state.lifeTokens).toBe(2);
+    expect(() => createInitialState(1, { rules, hintTokens: 7 })).toThrow(/Invalid hint tokens/);
+    expect(() => createInitialState(1, { rules, lifeTokens: 3 })).toThrow(/Invalid life tokens/);
+  });
+
+  it('maxHintTokens caps discards', () => {
+    const state = createInitialState(1, { rules: createRuleSet({ maxHintTokens: 5 }) });
+    expect(validateAction(state, { type: 'discard', cardIndex: 0 })).toMatch(/max hint tokens/);
+    state.hintTokens = 4;
+    executeAction(state, { type: 'discard', cardIndex: 0 });
+    expect(state.hintTokens).toBe(5);
+    expect(getLegalActions(state, state.currentPlayer).some((a) => a.type === 'discard')).toBe(false);
+  });
+
+  it('handSize overrides the standard deal size', () => {
+    const state = createInitialState(1, { rules: createRuleSet({ handSize: 3 }), playerCount: 2 });
+    expect(state.hands.map((h) => h.length)).toEqual([3, 3]);
+  });
+
+  it('hint mode is derived from allowEmptyNumberHints', () => {
+    expect(getHintMode(DEFAULT_RULES)).toBe('standard');
+    const emptyClues = withHintMode(DEFAULT_RULES, 'empty-clues');
+    expect(emptyClues.allowEmptyNumberHints).toBe(true);
+    expect(getHintMode(emptyClues)).toBe('empty-clues');
+    expect(withHintMode(emptyClues, 'standard')).toEqual(DEFAULT_RULES);
+  });
+
+  it('in empty-clues mode, number hints need not touch a card', () => {
+    const state = createInitialState(1, { rules: withHintMode(DEFAULT_RULES, 'empty-clues') });
+    const values = new Set(state.hands[1].map((c) => c.value));
+    const missing = [1, 2, 3, 4, 5].find((v) => !values.has(v))!;
+    expect(
+      validateAction(state, { type: 'hint', targetPlayer: 1, hintType: 'number', hintValue: missing })
+    ).toBeNull();
+  });
+
+  it('in standard mode, number hints must touch a card', () => {
+    const state = createInitialState(1);
+    const values = new Set(state.hands[1].map((c) => c.value));
+    const missing = [1, 2, 3, 4, 5].find((v) => !values.has(v))!;
+    const present = state.hands[1][0].value;
+    expect(
+      validateAction(state, { type: 'hint', targetPlayer: 1, hintType: 'number', hintValue: missing })
+    ).toMatch(/no matching cards/);
+    expect(
+      validateAction(state, { type: 'hint', targetPlayer: 1, hintType: 'number', hintValue: present })
+    ).toBeNull();
+    const numberHints = getLegalActions(state, 0).filter(
+      (a) => a.type === 'hint' && a.hintType === 'number'
+    );
+    expect(numberHints).toHaveLength(values.size);
+  });
+
+  it('fiveRefundsHint controls the clue refund for a played 5', () => {
+    for (const fiveRefundsHint of [true, false]) {
+      const state = createInitialState(1, { rules: createRuleSet({ fiveRefundsHint }) });
+      state.playedStacks[0] = 4;
+      state.hands[0][0] = { id: 999, color: 0, value: 5 };
+      state.hintTokens = 3;
+      executeAction(state, { type: 'play', cardIndex: 0 });
+      expect(state.hintTokens).toBe(fiveRefundsHint ? 4 : 3);
+    }
+  });
+
+  it('strikeoutScoresZero scores 0 after losing the last life', () => {
+    const state = createInitialState(1, { rules: createRuleSet({ strikeoutScoresZero: true }) });
+    state.playedStacks[0] = 2;
+    state.lifeTokens = 1;
+    state.hands[0][0] = { id: 999, color: 1, value: 5 };
+    executeAction(state, { type: 'play', cardIndex: 0 });
+    expect(state.endReason).toBe('lives_zero');
+    expect(calculateFinalScore(state)).toBe(0);
+  });
+
+  it('endOfDeck decides how many turns follow the last draw', () => {
+    const expected = { 'final-round': 2, 'final-round-inclusive': 3, immediate: 0 } as const;
+    for (const endOfDeck of Object.keys(expected) as (keyof typeof expected)[]) {
+      const state = createInitialState(5, { playerCount: 3, rules: createRuleSet({ endOfDeck }) });
+      state.deck = state.deck.slice(0, 1);
+      state.hintTokens = 0;
+      executeAction(state, { type: 'discard', cardIndex: 0 });
+      expect(playUntilOver(state)).toBe(expected[endOfDeck]);
+    }
+  });
+
+  it('observation exposes the active rules', () => {
+    const rules = createRuleSet({ maxHintTokens: 6 });
+    const obs = buildObservation(createInitialState(1, { rules }), 0);
+    expect(obs.rules).toEqual(rules);
+  });
+});
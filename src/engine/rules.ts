@@ -0,0 +1,56 @@
+/**
+ * What happens once the last card has been drawn:
+ * - 'final-round': every other player takes one more turn (the drawer does not)
+ * - 'final-round-inclusive': every player, including the drawer, takes one more turn
+ * - 'immediate': the game ends as soon as the deck is empty
+ */
+export type EndOfDeckRule = 'final-round' | 'final-round-inclusive' | 'immediate';
+
+/**
+ * Rules the engine enforces. GameConfig.hintTokens/lifeTokens are starting values and must not
+ * exceed maxHintTokens/maxStrikes.
+ */
+export interface RuleSet {
+  /** Clue token cap: discarding is illegal at the cap, and refunds never exceed it. */
+  maxHintTokens: number;
+  /** Strikes (misplays) that end the game; also the default number of life tokens. */
+  maxStrikes: number;
+  /** Cards per hand; omit for the standard deal size for the player count (FR-10). */
+  handSize?: number;
+  /** Number hints 1-5 are legal even when they touch no card (opt-in; position-encoding conventions). */
+  allowEmptyNumberHints: boolean;
+  /** Successfully playing a 5 returns a clue token. */
+  fiveRefundsHint: boolean;
+  /** Losing the last life scores 0 instead of the sum of the stacks. */
+  strikeoutScoresZero: boolean;
+  endOfDeck: EndOfDeckRule;
+}
+
+/** Standard Hanabi rules: every hint must touch at least one card. */
+export const DEFAULT_RULES: RuleSet = {
+  maxHintTokens: 8,
+  maxStrikes: 3,
+  allowEmptyNumberHints: false,
+  fiveRefundsHint: true,
+  strikeoutScoresZero: false,
+  endOfDeck: 'final-round',
+};
+
+export function createRuleSet(overrides?: Partial<RuleSet>): RuleSet {
+  return { ...DEFAULT_RULES, ...overrides };
+}
+
+/**
+ * Hint legality mode: 'standard' (hints must touch a card) or 'empty-clues' (number hints 1-5 are
+ * always legal, which position-encoding conventions rely on).
+ */
+export type HintMode = 'standard' | 'empty-clues';
+
+export function getHintMode(rules: RuleSet): HintMode {
+  return rules.allowEmptyNumberHints ? 'empty-clues' : 'standard';
+}
+
+/** Rules with the hint legality of the given mode. */
+export function withHintMode(rules: RuleSet, mode: HintMode): RuleSet {
+  return { ...rules, allowEmptyNumberHints: mode === 'empty-clues' };
+}
@@ -4,6 +4,11 @@ export enum Color {
   Green = 2,
   Blue = 3,
   White = 4,
+  /** Variant suits (see variants.ts); not part of the base game. */
+  Rainbow = 5,
+  Black = 6,
+  DarkRainbow = 7,
+  Null = 8,
 }
 
 export interface Card {
@@ -12,6 +17,9 @@ export interface Card {
   value: number;
 }
 
+/** Top played value per suit. Only the active variant's suits are present. */
+export type PlayedStacks = Partial<Record<Color, number>>;
+
 export const DECK_COMPOSITION: Record<number, number> = {
   1: 3,
   2: 2,
@@ -20,6 +28,16 @@ export const DECK_COMPOSITION: Record<number, number> = {
   5: 1,
 };
 
+/** Dark suits (black, dark rainbow) hold a single copy of each rank. */
+export const DARK_DECK_COMPOSITION: Record<number, number> = {
+  1: 1,
+  2: 1,
+  3: 1,
+  4: 1,
+  5: 1,
+};
+
+/** The five base-game colors. */
 export const COLORS: Color[] = [
   Color.Red,
   Color.Yellow,
@@ -0,0 +1,124 @@
+import { Color } from './types';
+import {
+  getVariant,
+  getHintColors,
+  getMaxScore,
+  isTouchedByHint,
+  getSuitsTouchedByColor,
+} from './variants';
+import { createDeck } from './deck';
+import { applyHintToKnowledge, createInitialState } from './game-state';
+import { executeAction, runGame } from './game-engine';
+import { validateAction, getLegalActionsFromObservation } from './actions';
+
+describe('variants', () => {
+  it('standard variant has 5 suits and max score 25', () => {
+    const v = getVariant('standard');
+    expect(v.suits).toHaveLength(5);
+    expect(getMaxScore(v)).toBe(25);
+  });
+
+  it('six-suit variants have max score 30', () => {
+    for (const id of ['rainbow', 'black', 'dark-rainbow', 'null'] as const) {
+      expect(getMaxScore(getVariant(id))).toBe(30);
+    }
+  });
+
+  it('deck sizes follow suit composition (dark suits hold one of each rank)', () => {
+    expect(createDeck(getVariant('rainbow'))).toHaveLength(60);
+    expect(createDeck(getVariant('null'))).toHaveLength(60);
+    expect(createDeck(getVariant('black'))).toHaveLength(55);
+    expect(createDeck(getVariant('dark-rainbow'))).toHaveLength(55);
+    const blackFives = createDeck(getVariant('black')).filter((c) => c.color === Color.Black);
+    expect(blackFives.map((c) => c.value)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('rainbow is touched by every color hint but is not a hint color', () => {
+    const v = getVariant('rainbow');
+    expect(getHintColors(v)).not.toContain(Color.Rainbow);
+    for (const color of getHintColors(v)) {
+      expect(isTouchedByHint(v, { color: Color.Rainbow, value: 2 }, 'color', color)).toBe(true);
+    }
+    expect(getSuitsTouchedByColor(v, Color.Red)).toEqual([Color.Red, Color.Rainbow]);
+  });
+
+  it('black is its own hint color', () => {
+    const v = getVariant('black');
+    expect(getHintColors(v)).toContain(Color.Black);
+    expect(isTouchedByHint(v, { color: Color.Black, value: 1 }, 'color', Color.Red)).toBe(false);
+    expect(isTouchedByHint(v, { color: Color.Black, value: 1 }, 'color', Color.Black)).toBe(true);
+  });
+
+  it('null is touched by no hints', () => {
+    const v = getVariant('null');
+    expect(isTouchedByHint(v, { color: Color.Null, value: 3 }, 'number', 3)).toBe(false);
+    for (const color of getHintColors(v)) {
+      expect(isTouchedByHint(v, { color: Color.Null, value: 3 }, 'color', color)).toBe(false);
+    }
+  });
+});
+
+describe('applyHintToKnowledge', () => {
+  it('standard color hint sets the color directly', () => {
+    const known = applyHintToKnowledge({}, getVariant('standard'), 'color', Color.Red, true);
+    expect(known).toEqual({ color: Color.Red });
+  });
+
+  it('rainbow: red hint narrows to red or rainbow; a later blue hint resolves rainbow', () => {
+    const v = getVariant('rainbow');
+    const known = applyHintToKnowledge({}, v, 'color', Color.Red, true);
+    expect(known.color).toBeUndefined();
+    expect(known.excludedColors?.sort()).toEqual([Color.Yellow, Color.Green, Color.Blue, Color.White]);
+    applyHintToKnowledge(known, v, 'color', Color.Blue, true);
+    expect(known.color).toBe(Color.Rainbow);
+  });
+
+  it('rainbow: missing a color hint excludes both that color and rainbow', () => {
+    const known = applyHintToKnowledge({}, getVariant('rainbow'), 'color', Color.Green, false);
+    expect(known.excludedColors).toEqual([Color.Green, Color.Rainbow]);
+  });
+
+  it('null: missing a number hint does not exclude the value while null is possible', () => {
+    const v = getVariant('null');
+    expect(applyHintToKnowledge({}, v, 'number', 3, false)).toEqual({});
+    const known = applyHintToKnowledge({}, v, 'number', 2, true);
+    expect(known.excludedColors).toEqual([Color.Null]);
+  });
+});
+
+describe('engine with variants', () => {
+  it('rejects color hints that are not hint colors of the variant', () => {
+    const state = createInitialState(3, { variantId: 'rainbow' });
+    expect(validateAction(state, {
+      type: 'hint',
+      targetPlayer: 1,
+      hintType: 'color',
+      hintValue: Color.Rainbow,
+    })).toMatch(/not a hint color/);
+  });
+
+  it('color hints touch rainbow cards', () => {
+    const state = createInitialState(3, { variantId: 'rainbow' });
+    state.hands[1][0] = { id: 999, color: Color.Rainbow, value: 4 };
+    const event = executeAction(state, {
+      type: 'hint',
+      targetPlayer: 1,
+      hintType: 'color',
+      hintValue: Color.Red,
+    });
+    expect(event.type === 'hint' && event.matchedCardIds).toContain(999);
+  });
+
+  it('runs six-suit games to completion', () => {
+    const result = runGame(
+      8,
+      (obs) => {
+        const actions = getLegalActionsFromObservation(obs);
+        return actions[actions.length - 1];
+      },
+      { playerCount: 3, variantId: 'black' }
+    );
+    expect(Object.keys(result.finalState.playedStacks)).toHaveLength(6);
+    expect(result.finalState.score).toBeLessThanOrEqual(30);
+  });
+});
@@ -0,0 +1,144 @@
+import type { Card } from './types';
+import { Color, COLORS, DECK_COMPOSITION, DARK_DECK_COMPOSITION } from './types';
+
+export type VariantId = 'standard' | 'rainbow' | 'black' | 'dark-rainbow' | 'null';
+
+/**
+ * How hints touch a suit:
+ * - colorTouch 'self': only a hint of the suit's own color
+ * - colorTouch 'all': every color hint (rainbow)
+ * - colorTouch 'none': no color hint
+ * - numberTouch false: no number hint touches the suit either (null)
+ */
+export interface SuitDefinition {
+  color: Color;
+  name: string;
+  colorTouch: 'self' | 'all' | 'none';
+  numberTouch: boolean;
+  /** Copies per value (1-5). */
+  composition: Record<number, number>;
+}
+
+export interface Variant {
+  id: VariantId;
+  name: string;
+  suits: SuitDefinition[];
+}
+
+const BASE_SUITS: SuitDefinition[] = COLORS.map((color) => ({
+  color,
+  name: Color[color],
+  colorTouch: 'self',
+  numberTouch: true,
+  composition: DECK_COMPOSITION,
+}));
+
+const RAINBOW_SUIT: SuitDefinition = {
+  color: Color.Rainbow,
+  name: 'Rainbow',
+  colorTouch: 'all',
+  numberTouch: true,
+  composition: DECK_COMPOSITION,
+};
+
+const BLACK_SUIT: SuitDefinition = {
+  color: Color.Black,
+  name: 'Black',
+  colorTouch: 'self',
+  numberTouch: true,
+  composition: DARK_DECK_COMPOSITION,
+};
+
+const DARK_RAINBOW_SUIT: SuitDefinition = {
+  color: Color.DarkRainbow,
+  name: 'DarkRainbow',
+  colorTouch: 'all',
+  numberTouch: true,
+  composition: DARK_DECK_COMPOSITION,
+};
+
+const NULL_SUIT: SuitDefinition = {
+  color: Color.Null,
+  name: 'Null',
+  colorTouch: 'none',
+  numberTouch: false,
+  composition: DECK_COMPOSITION,
+};
+
+export const VARIANTS: Record<VariantId, Variant> = {
+  standard: { id: 'standard', name: 'Standard (5 suits)', suits: BASE_SUITS },
+  rainbow: { id: 'rainbow', name: 'Rainbow (6 suits)', suits: [...BASE_SUITS, RAINBOW_SUIT] },
+  black: { id: 'black', name: 'Black (6 suits)', suits: [...BASE_SUITS, BLACK_SUIT] },
+  'dark-rainbow': {
+    id: 'dark-rainbow',
+    name: 'Dark Rainbow (6 suits)',
+    suits: [...BASE_SUITS, DARK_RAINBOW_SUIT],
+  },
+  null: { id: 'null', name: 'Null (6 suits)', suits: [...BASE_SUITS, NULL_SUIT] },
+};
+
+export const DEFAULT_VARIANT_ID: VariantId = 'standard';
+
+export function isVariantId(id: unknown): id is VariantId {
+  return typeof id === 'string' && Object.prototype.hasOwnProperty.call(VARIANTS, id);
+}
+
+export function getVariant(id: VariantId = DEFAULT_VARIANT_ID): Variant {
+  const variant = VARIANTS[id];
+  if (!variant) {
+    throw new Error(`Unknown variant: ${id}`);
+  }
+  return variant;
+}
+
+/** Suit colors in stack order. */
+export function getSuitColors(variant: Variant): Color[] {
+  return variant.suits.map((s) => s.color);
+}
+
+/** Colors that may be named in a color hint (suits with their own clue color). */
+export function getHintColors(variant: Variant): Color[] {
+  return variant.suits.filter((s) => s.colorTouch === 'self').map((s) => s.color);
+}
+
+export function getSuit(variant: Variant, color: Color): SuitDefinition | undefined {
+  return variant.suits.find((s) => s.color === color);
+}
+
+/** Number of copies of (color, value) in the variant's deck. */
+export function getCopyCount(variant: Variant, color: Color, value: number): number {
+  return getSuit(variant, color)?.composition[value] ?? 0;
+}
+
+/** Max score: 5 per suit. */
+export function getMaxScore(variant: Variant): number {
+  return variant.suits.length * 5;
+}
+
+/**
+ * Returns true if a card of the given suit/value is touched by the hint, per the suit's touch rules.
+ * Cards whose color is unknown (undefined) are never touched.
+ */
+export function isTouchedByHint(
+  variant: Variant,
+  card: Partial<Pick<Card, 'color' | 'value'>>,
+  hintType: 'color' | 'number',
+  hintValue: Color | number
+): boolean {
+  if (card.color === undefined) return false;
+  const suit = getSuit(variant, card.color);
+  if (!suit) return false;
+  if (hintType === 'number') {
+    return suit.numberTouch && card.value === hintValue;
+  }
+  if (suit.colorTouch === 'all') return true;
+  if (suit.colorTouch === 'none') return false;
+  return suit.color === hintValue;
+}
+
+/** Suits a color hint touches (e.g. Red touches Red and Rainbow). */
+export function getSuitsTouchedByColor(variant: Variant, hintColor: Color): Color[] {
+  return variant.suits
+    .filter((s) => isTouchedByHint(variant, { color: s.color, value: 1 }, 'color', hintColor))
+    .map((s) => s.color);
+}
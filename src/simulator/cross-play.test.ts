@@ -0,0 +1,53 @@
+import { runCrossPlay, crossPlaySeatAssignment, crossPlayCellList } from './cross-play';
+import { runSimulation } from './runner';
+import { createDefaultConfig } from '../config';
+import { DEFAULT_RULES, withHintMode } from '../engine/rules';
+import { computeCrossPlayMatrix } from '../statistics/metrics';
+
+const emptyClues = withHintMode(DEFAULT_RULES, 'empty-clues');
+
+describe('crossPlaySeatAssignment', () => {
+  it('swaps seats on alternate seeds', () => {
+    expect(crossPlaySeatAssignment(2, 0)).toEqual(['a', 'b']);
+    expect(crossPlaySeatAssignment(2, 1)).toEqual(['b', 'a']);
+    expect(crossPlaySeatAssignment(3, 0)).toEqual(['a', 'b', 'a']);
+    expect(crossPlaySeatAssignment(3, 1)).toEqual(['b', 'a', 'b']);
+  });
+});
+
+describe('runCrossPlay', () => {
+  const config = createDefaultConfig({ gameCount: 4, rules: emptyClues, loggingMode: 'debug' });
+  const names = ['Random', 'HintPartner'];
+
+  it('builds a symmetric N×N matrix whose diagonal matches self-play', () => {
+    const result = runCrossPlay(config, names);
+    expect(result.strategyNames).toEqual(names);
+    expect(result.cells).toHaveLength(2);
+    expect(result.cells[0][1]).toBe(result.cells[1][0]);
+    expect(result.cells[0][1].name).toBe('Random+HintPartner');
+    expect(crossPlayCellList(result)).toHaveLength(3);
+
+    const selfPlay = runSimulation(config, names);
+    expect(result.cells[0][0].scores).toEqual(selfPlay.results[0].scores);
+    expect(result.cells[1][1].scores).toEqual(selfPlay.results[1].scores);
+  });
+
+  it('records which strategy sat in each seat', () => {
+    const traces = runCrossPlay(config, names).cells[0][1].traces!;
+    expect(traces.map((t) => t.seatStrategies)).toEqual([
+      ['Random', 'HintPartner'],
+      ['HintPartner', 'Random'],
+      ['Random', 'HintPartner'],
+      ['HintPartner', 'Random'],
+    ]);
+  });
+
+  it('is deterministic and summarizes to a matrix with CIs', () => {
+    const a = computeCrossPlayMatrix(runCrossPlay(config, names));
+    const b = computeCrossPlayMatrix(runCrossPlay(config, names));
+    expect(a).toEqual(b);
+    expect(a.gameCount).toBe(4);
+    expect(a.avgScore[0][1]).toBe(a.avgScore[1][0]);
+    expect(a.ci95[0][1].lower).toBeLessThanOrEqual(a.avgScore[0][1]);
+  });
+});
@@ -0,0 +1,140 @@
+import type { GameConfig } from '../config';
+import type { HanabiStrategy } from '../strategies/types';
+import type { StrategyEntry } from '../strategies/registry';
+import type { StrategyResult, PerGameMetrics, SeedBatchResult } from './runner';
+import {
+  runSingleGame,
+  selectStrategies,
+  getSeeds,
+  mergeSeedBatches,
+  summarizeDecisionTimes,
+  appendViolations,
+} from './runner';
+
+/**
+ * Cross-play (ad-hoc teamwork) result: cells[i][j] holds the games where strategy i partnered
+ * strategy j. Seats are balanced across seeds, so the matrix is symmetric and cells[j][i] is the
+ * same object as cells[i][j]; the diagonal is self-play.
+ */
+export interface CrossPlayResult {
+  strategyNames: string[];
+  seeds: number[];
+  cells: StrategyResult[][];
+}
+
+/** Name of a cross-play cell; used as the result key in raw_scores.json and stats.json. */
+export function crossPlayPairName(a: string, b: string): string {
+  return `${a}+${b}`;
+}
+
+/**
+ * Which side plays each seat for the gameIndex-th seed: seats alternate A, B, A, ... and the
+ * pattern flips on every other seed, so neither side keeps the starting-player advantage.
+ */
+export function crossPlaySeatAssignment(playerCount: number, gameIndex: number): ('a' | 'b')[] {
+  return Array.from({ length: playerCount }, (_, seat) => ((seat + gameIndex) % 2 === 0 ? 'a' : 'b'));
+}
+
+/** Every unordered pair of names, each name with itself included: the upper triangle, row-major. */
+export function crossPlayPairs(names: string[]): [string, string][] {
+  const pairs: [string, string][] = [];
+  for (let i = 0; i < names.length; i++) {
+    for (let j = i; j < names.length; j++) {
+      pairs.push([names[i], names[j]]);
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Plays A and B together on each seed, seated by crossPlaySeatAssignment. firstGameIndex is the
+ * position of seeds[0] in the run's seed list, so a shard is seated as it would be in a full run.
+ * Shared by runCrossPlay and the simulation workers; onGame is called after every game.
+ */
+export function runCrossPlayBatch(
+  a: StrategyEntry,
+  b: StrategyEntry,
+  config: GameConfig,
+  seeds: number[],
+  firstGameIndex = 0,
+  onGame?: (metrics: PerGameMetrics) => void
+): SeedBatchResult {
+  const templates: Record<'a' | 'b', HanabiStrategy> = { a: a.factory(), b: b.factory() };
+  const batch: SeedBatchResult = {
+    scores: [],
+    perGameMetrics: [],
+    traces: [],
+    violations: [],
+    decisions: { count: 0, sumMs: 0, maxMs: 0 },
+  };
+  const decisionTimes: number[] = [];
+  const collectTrace = config.loggingMode === 'debug';
+
+  seeds.forEach((seed, i) => {
+    const sides = crossPlaySeatAssignment(config.playerCount, firstGameIndex + i);
+    const game = runSingleGame(
+      seed,
+      config,
+      sides.map((side) => templates[side]),
+      { collectTrace, decisionTimes }
+    );
+    batch.scores.push(game.metrics.score);
+    batch.perGameMetrics.push(game.metrics);
+    appendViolations(batch.violations, game.violations);
+    if (game.trace) {
+      game.trace.seatStrategies = sides.map((side) => (side === 'a' ? a.name : b.name));
+      batch.traces.push(game.trace);
+    }
+    onGame?.(game.metrics);
+  });
+  batch.decisions = summarizeDecisionTimes(decisionTimes);
+  return batch;
+}
+
+/** The symmetric matrix of a cross-play run from its cells in crossPlayPairs order. */
+export function crossPlayMatrix(
+  strategyNames: string[],
+  seeds: number[],
+  cellList: StrategyResult[]
+): CrossPlayResult {
+  const n = strategyNames.length;
+  const cells: StrategyResult[][] = Array.from({ length: n }, () => new Array<StrategyResult>(n));
+  let k = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = i; j < n; j++) {
+      cells[i][j] = cellList[k];
+      cells[j][i] = cellList[k];
+      k++;
+    }
+  }
+  return { strategyNames, seeds, cells };
+}
+
+/**
+ * Plays every unordered pair of strategies (including each strategy with itself) over the
+ * config's seed list. Strategy selection follows runSimulation's hint-mode rules. See
+ * runCrossPlayParallel for the worker-thread version.
+ */
+export function runCrossPlay(config: GameConfig, strategyNames?: string[]): CrossPlayResult {
+  const seeds = getSeeds(config);
+  const strategies = selectStrategies(config, strategyNames);
+  const byName = new Map(strategies.map((s) => [s.name, s]));
+  const cellList = crossPlayPairs(strategies.map((s) => s.name)).map(([a, b]) => {
+    const t0 = performance.now();
+    const batch = runCrossPlayBatch(byName.get(a)!, byName.get(b)!, config, seeds);
+    const t1 = performance.now();
+    return mergeSeedBatches(crossPlayPairName(a, b), config, [batch], t1 - t0);
+  });
+  return crossPlayMatrix(strategies.map((s) => s.name), seeds, cellList);
+}
+
+/** Unique cells (upper triangle, row-major) as a flat result list for storage and comparison. */
+export function crossPlayCellList(result: CrossPlayResult): StrategyResult[] {
+  const list: StrategyResult[] = [];
+  for (let i = 0; i < result.cells.length; i++) {
+    for (let j = i; j < result.cells.length; j++) {
+      list.push(result.cells[i][j]);
+    }
+  }
+  return list;
+}
@@ -0,0 +1,78 @@
+import { largestDifferences, findDivergence, explainDivergences, replaySeed, savedRunConfig } from './divergence';
+import { runSimulation } from './runner';
+import { createDefaultConfig } from '../config';
+import { DEFAULT_RULES } from '../engine/rules';
+import { LEGACY_TRACE_RULES } from './replay';
+
+describe('largestDifferences', () => {
+  it('ranks seeds by absolute difference and drops ties', () => {
+    const ranked = largestDifferences([3, 5, 7, 9], [10, 12, 20, 8], [14, 12, 16, 4], 10);
+    expect(ranked).toEqual([
+      { seed: 3, scoreA: 10, scoreB: 14, difference: -4 },
+      { seed: 7, scoreA: 20, scoreB: 16, difference: 4 },
+      { seed: 9, scoreA: 8, scoreB: 4, difference: 4 },
+    ]);
+    expect(largestDifferences([3, 5, 7, 9], [10, 12, 20, 8], [14, 12, 16, 4], 1)).toHaveLength(1);
+  });
+
+  it('requires a score per seed', () => {
+    expect(() => largestDifferences([1, 2], [1], [1, 2])).toThrow('score for every seed');
+  });
+});
+
+describe('findDivergence', () => {
+  const config = createDefaultConfig({ gameCount: 6, hintTokens: 3, lifeTokens: 1, loggingMode: 'debug' });
+
+  it('finds the first turn two games on a seed differ', () => {
+    const { results } = runSimulation(config, ['Random', 'Random{rngSeed=7}']);
+    const [tracesA, tracesB] = results.map((r) => r.traces!);
+    for (let i = 0; i < tracesA.length; i++) {
+      const divergence = findDivergence(tracesA[i], tracesB[i]);
+      expect(divergence.turn).not.toBeNull();
+      const turn = divergence.turn!;
+      expect(tracesA[i].events.slice(0, turn)).toEqual(tracesB[i].events.slice(0, turn));
+      expect(divergence.eventA).toEqual(tracesA[i].events[turn]);
+      expect(divergence.eventB).toEqual(tracesB[i].events[turn]);
+      expect(divergence.player).toBe(turn % 2);
+    }
+  });
+
+  it('reports identical games and rejects different deals', () => {
+    const [trace, other] = runSimulation(config, ['Random']).results[0].traces!;
+    expect(findDivergence(trace, trace)).toEqual({ turn: null });
+    expect(() => findDivergence(trace, other)).toThrow('not of the same deal');
+  });
+});
+
+describe('explainDivergences', () => {
+  it('replays seeds of runs that kept no traces', () => {
+    const config = createDefaultConfig({ gameCount: 4 });
+    const names = ['Random', 'Random{rngSeed=7}'];
+    const { results, seeds } = runSimulation(config, names);
+    const differences = largestDifferences(seeds, results[0].scores, results[1].scores);
+    const explained = explainDivergences(names[0], names[1], differences, (name, seed) => ({
+      trace: replaySeed(config, name, seed),
+    }));
+    expect(explained.length).toBeGreaterThan(0);
+    expect(explained.map((d) => d.seed)).toEqual(differences.map((d) => d.seed));
+    for (const d of explained) {
+      expect(d.turn).not.toBeNull();
+      expect(replaySeed(config, names[0], d.seed).finalState.score).toBe(d.scoreA);
+      expect(d.traceA).toBeUndefined();
+    }
+  });
+});
+
+describe('savedRunConfig', () => {
+  it('keeps the recorded fields of a run', () => {
+    const saved = createDefaultConfig({ playerCount: 3, rules: DEFAULT_RULES, invalidActionPolicy: 'forfeit' });
+    expect(savedRunConfig(saved, '/strategies')).toEqual({ ...saved, strategyDir: '/strategies' });
+  });
+
+  it('replays runs saved before rules, players, variant and the policy were recorded', () => {
+    const config = savedRunConfig({ hintTokens: 8, lifeTokens: 3, loggingMode: 'normal' });
+    expect(config).toMatchObject({ playerCount: 2, variant: 'standard', invalidActionPolicy: 'fail-fast' });
+    expect(config.rules).toEqual(LEGACY_TRACE_RULES);
+    expect(replaySeed(config, 'HintPartner', 3).events.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,151 @@
+import type { GameConfig } from '../config';
+import { createDefaultConfig } from '../config';
+import type { GameTrace } from './runner';
+import { runSingleGame, selectStrategies } from './runner';
+import { eventToAction, replayTrace, traceSetup, LEGACY_TRACE_RULES } from './replay';
+import { calculateScore } from '../engine/game-engine';
+import type { GameEvent } from '../engine/events';
+
+/** One seed's scores for two strategies. */
+export interface SeedScoreDifference {
+  seed: number;
+  scoreA: number;
+  scoreB: number;
+  /** scoreA − scoreB. */
+  difference: number;
+}
+
+/** Where two games on the same seed first part ways. */
+export interface TraceDivergence {
+  /** Index of the first event whose action differs; null when both games played identically. */
+  turn: number | null;
+  /** Seat to act at the divergence turn (the same in both games, since everything before matched). */
+  player?: number;
+  /** Score on the table just before the divergence turn. */
+  scoreAtDivergence?: number;
+  /** Each game's event at the divergence turn; missing for a game that had already ended. */
+  eventA?: GameEvent;
+  eventB?: GameEvent;
+}
+
+export type SeedDivergence = SeedScoreDifference &
+  TraceDivergence & {
+    /** Trace files in the results directory, when the run kept them. */
+    traceA?: string;
+    traceB?: string;
+  };
+
+export const DEFAULT_DIVERGENCE_LIMIT = 10;
+
+/**
+ * The seeds where two strategies' scores differ most, largest absolute difference first (ties by
+ * seed). Seeds they scored the same on are left out.
+ */
+export function largestDifferences(
+  seeds: number[],
+  scoresA: number[],
+  scoresB: number[],
+  limit = DEFAULT_DIVERGENCE_LIMIT
+): SeedScoreDifference[] {
+  if (scoresA.length !== seeds.length || scoresB.length !== seeds.length) {
+    throw new Error(
+      `Both strategies must have a score for every seed (${seeds.length} seeds, got ${scoresA.length} and ${scoresB.length})`
+    );
+  }
+  return seeds
+    .map((seed, i) => ({ seed, scoreA: scoresA[i], scoreB: scoresB[i], difference: scoresA[i] - scoresB[i] }))
+    .filter((d) => d.difference !== 0)
+    .sort((x, y) => Math.abs(y.difference) - Math.abs(x.difference) || x.seed - y.seed)
+    .slice(0, limit);
+}
+
+/**
+ * Replays two traces of the same deal and finds the first turn where their actions differ.
+ * Throws if the traces are not of the same deal or an event does not replay.
+ */
+export function findDivergence(traceA: GameTrace, traceB: GameTrace): TraceDivergence {
+  const setupA = traceSetup(traceA);
+  const setupB = traceSetup(traceB);
+  if (
+    traceA.seed !== traceB.seed ||
+    setupA.playerCount !== setupB.playerCount ||
+    setupA.variant !== setupB.variant
+  ) {
+    throw new Error(
+      `Traces are not of the same deal (seed ${traceA.seed} vs ${traceB.seed}, ` +
+        `${setupA.playerCount} vs ${setupB.playerCount} players, ${setupA.variant} vs ${setupB.variant})`
+    );
+  }
+
+  const scores: number[] = [0];
+  replayTrace(traceA, (state) => scores.push(calculateScore(state.playedStacks)));
+  replayTrace(traceB);
+
+  const length = Math.max(traceA.events.length, traceB.events.length);
+  for (let turn = 0; turn < length; turn++) {
+    const eventA = traceA.events[turn];
+    const eventB = traceB.events[turn];
+    if (eventA && eventB && JSON.stringify(eventToAction(eventA)) === JSON.stringify(eventToAction(eventB))) {
+      continue;
+    }
+    return {
+      turn,
+      player: (eventA ?? eventB).playerIndex,
+      scoreAtDivergence: scores[turn],
+      ...(eventA && { eventA }),
+      ...(eventB && { eventB }),
+    };
+  }
+  return { turn: null };
+}
+
+/**
+ * The config a saved run played with, from its summary.json `config`, for replaying its seeds.
+ * Runs saved before a field was recorded lack it and played with its value of the time: rules
+ * default to LEGACY_TRACE_RULES, the other fields to DEFAULT_CONFIG.
+ */
+export function savedRunConfig(saved: Partial<GameConfig> = {}, strategyDir?: string): GameConfig {
+  const { playerCount, variant, rules, hintTokens, lifeTokens, invalidActionPolicy } = saved;
+  const recorded = Object.fromEntries(
+    Object.entries({ playerCount, variant, hintTokens, lifeTokens, invalidActionPolicy }).filter(
+      ([, value]) => value !== undefined
+    )
+  ) as Partial<GameConfig>;
+  return createDefaultConfig({
+    ...recorded,
+    rules: rules ?? LEGACY_TRACE_RULES,
+    ...(strategyDir && { strategyDir }),
+  });
+}
+
+/**
+ * Plays one seed again to get its trace, for runs that did not keep traces. Games are
+ * deterministic per seed, so this is the game the run played as long as the strategy is unchanged.
+ */
+export function replaySeed(config: GameConfig, strategyName: string, seed: number): GameTrace {
+  const [strategy] = selectStrategies(config, [strategyName]);
+  const { trace } = runSingleGame(seed, config, strategy.factory(), { collectTrace: true, decisionTimes: [] });
+  return trace!;
+}
+
+/**
+ * The seeds where A and B differ most, each with the turn their games diverged. loadTrace returns a
+ * strategy's trace of a seed, and optionally the file it came from.
+ */
+export function explainDivergences(
+  a: string,
+  b: string,
+  differences: SeedScoreDifference[],
+  loadTrace: (strategy: string, seed: number) => { trace: GameTrace; filename?: string }
+): SeedDivergence[] {
+  return differences.map((d) => {
+    const loadedA = loadTrace(a, d.seed);
+    const loadedB = loadTrace(b, d.seed);
+    return {
+      ...d,
+      ...findDivergence(loadedA.trace, loadedB.trace),
+      ...(loadedA.filename && { traceA: loadedA.filename }),
+      ...(loadedB.filename && { traceB: loadedB.filename }),
+    };
+  });
+}
@@ -0,0 +1,113 @@
+import { runSimulationParallel, runCrossPlayParallel, shardSeeds } from './parallel';
+import type { SimulationProgress } from './parallel';
+import { runSimulation } from './runner';
+import { runCrossPlay, crossPlayCellList } from './cross-play';
+import type { SimulationResult } from './runner';
+import { createDefaultConfig } from '../config';
+import { DEFAULT_RULES, withHintMode } from '../engine/rules';
+
+function withoutTiming(result: SimulationResult): string {
+  return JSON.stringify({
+    seeds: result.seeds,
+    results: result.results.map(({ timing: _timing, ...rest }) => rest),
+  });
+}
+
+describe('shardSeeds', () => {
+  it('splits into contiguous near-equal shards that concatenate to the input', () => {
+    const seeds = [9, 8, 7, 6, 5, 4, 3];
+    const shards = shardSeeds(seeds, 3);
+    expect(shards).toEqual([[9, 8, 7], [6, 5], [4, 3]]);
+    expect(shards.flat()).toEqual(seeds);
+  });
+
+  it('never makes more shards than seeds', () => {
+    expect(shardSeeds([1, 2], 4)).toEqual([[1], [2]]);
+    expect(shardSeeds([], 4)).toEqual([[]]);
+  });
+});
+
+describe('runSimulationParallel', () => {
+  it('matches a serial run exactly, including traces', async () => {
+    const config = createDefaultConfig({
+      gameCount: 7,
+      loggingMode: 'debug',
+      rules: withHintMode(DEFAULT_RULES, 'empty-clues'),
+    });
+    const names = ['Random', 'HintPartner'];
+    const serial = runSimulation(config, names);
+    const parallel = await runSimulationParallel(config, names, { workerCount: 3 });
+    expect(withoutTiming(parallel)).toBe(withoutTiming(serial));
+    for (const r of parallel.results) {
+      expect(r.timing.avgDecisionMs).toBeGreaterThan(0);
+      expect(r.timing.maxDecisionMs).toBeGreaterThanOrEqual(r.timing.avgDecisionMs);
+    }
+  });
+
+  it('rejects with the error thrown inside a worker', async () => {
+    const config = createDefaultConfig({ seedList: [1, 2], playerCount: 9 });
+    await expect(runSimulationParallel(config, ['Random'], { workerCount: 2 })).rejects.toThrow(
+      /Invalid player count 9/
+    );
+  });
+
+  it('reports per-strategy progress ending at the full game count', async () => {
+    const config = createDefaultConfig({ gameCount: 6 });
+    const updates: SimulationProgress[] = [];
+    const result = await runSimulationParallel(config, ['Random'], {
+      workerCount: 2,
+      onProgress: (p) => updates.push(p),
+    });
+    const last = updates[updates.length - 1];
+    expect(last).toMatchObject({ strategyName: 'Random', gamesDone: 6, gameCount: 6, etaMs: 0 });
+    const scores = result.results[0].scores;
+    expect(last.meanScore).toBeCloseTo(scores.reduce((a, b) => a + b, 0) / scores.length);
+  });
+
+  it('rejects with a cancellation error when aborted', async () => {
+    const controller = new AbortController();
+    const run = runSimulationParallel(createDefaultConfig({ gameCount: 2000 }), ['Random'], {
+      workerCount: 2,
+      signal: controller.signal,
+    });
+    controller.abort();
+    await expect(run).rejects.toThrow('Simulation cancelled');
+  });
+});
+
+describe('runCrossPlayParallel', () => {
+  const config = createDefaultConfig({
+    gameCount: 7,
+    loggingMode: 'debug',
+    rules: withHintMode(DEFAULT_RULES, 'empty-clues'),
+  });
+  const names = ['Random', 'HintPartner'];
+
+  it('matches a serial cross-play run exactly, including seating', async () => {
+    const serial = runCrossPlay(config, names);
+    const parallel = await runCrossPlayParallel(config, names, { workerCount: 3 });
+    expect(parallel.strategyNames).toEqual(serial.strategyNames);
+    expect(parallel.cells[0][1]).toBe(parallel.cells[1][0]);
+    expect(withoutTiming({ results: crossPlayCellList(parallel), seeds: parallel.seeds })).toBe(
+      withoutTiming({ results: crossPlayCellList(serial), seeds: serial.seeds })
+    );
+  });
+
+  it('reports progress per pair', async () => {
+    const updates: SimulationProgress[] = [];
+    await runCrossPlayParallel(config, names, { workerCount: 2, onProgress: (p) => updates.push(p) });
+    const last = updates[updates.length - 1];
+    expect(last).toMatchObject({ strategyName: 'HintPartner+HintPartner', strategyIndex: 2, strategyCount: 3 });
+    expect(last).toMatchObject({ gamesDone: 7, gameCount: 7, etaMs: 0 });
+  });
+
+  it('rejects with a cancellation error when aborted', async () => {
+    const controller = new AbortController();
+    const run = runCrossPlayParallel(createDefaultConfig({ gameCount: 2000 }), ['Random'], {
+      workerCount: 2,
+      signal: controller.signal,
+    });
+    controller.abort();
+    await expect(run).rejects.toThrow('Simulation cancelled');
+  });
+});
@@ -0,0 +1,220 @@
+import * as os from 'os';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import type { GameConfig } from '../config';
+import type { SimulationResult, StrategyResult, SeedBatchResult } from './runner';
+import { getSeeds, selectStrategies, mergeSeedBatches } from './runner';
+import type { CrossPlayResult } from './cross-play';
+import { crossPlayPairs, crossPlayPairName, crossPlayMatrix } from './cross-play';
+
+/**
+ * Input for one simulation worker: a strategy (by registry name) and a contiguous seed shard.
+ * With partnerName the worker plays a cross-play cell instead of self-play; firstGameIndex is the
+ * shard's position in the run's seed list, which decides the seating.
+ */
+export interface SimulationWorkerData {
+  strategyName: string;
+  partnerName?: string;
+  firstGameIndex?: number;
+  config: GameConfig;
+  seeds: number[];
+}
+
+/** Messages posted by a simulation worker: throttled progress counts, then the finished batch. */
+export type SimulationWorkerMessage =
+  | { type: 'progress'; games: number; scoreSum: number }
+  | { type: 'done'; batch: SeedBatchResult };
+
+/** Progress of the strategy currently running, plus an ETA for the whole run. */
+export interface SimulationProgress {
+  strategyName: string;
+  strategyIndex: number;
+  strategyCount: number;
+  gamesDone: number;
+  gameCount: number;
+  meanScore: number;
+  etaMs: number;
+}
+
+export interface ParallelRunOptions {
+  /** Defaults to the number of available CPUs. */
+  workerCount?: number;
+  onProgress?: (progress: SimulationProgress) => void;
+  /** Aborting terminates the workers and rejects with a 'Simulation cancelled' error. */
+  signal?: AbortSignal;
+}
+
+export function defaultWorkerCount(): number {
+  return Math.max(1, os.availableParallelism());
+}
+
+/**
+ * Splits seeds into at most `count` contiguous, near-equal shards. Concatenating the shards gives
+ * back the original order, which is what makes the parallel merge deterministic.
+ */
+export function shardSeeds(seeds: number[], count: number): number[][] {
+  const shardCount = Math.max(1, Math.min(count, seeds.length));
+  const shards: number[][] = [];
+  let start = 0;
+  for (let i = 0; i < shardCount; i++) {
+    const size = Math.floor(seeds.length / shardCount) + (i < seeds.length % shardCount ? 1 : 0);
+    shards.push(seeds.slice(start, start + size));
+    start += size;
+  }
+  return shards;
+}
+
+function cancelledError(): Error {
+  return new Error('Simulation cancelled');
+}
+
+function runBatchInWorker(
+  data: SimulationWorkerData,
+  onProgress: (games: number, scoreSum: number) => void,
+  signal?: AbortSignal
+): Promise<SeedBatchResult> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+    const worker = new Worker(path.join(__dirname, 'simulation-worker.js'), { workerData: data });
+    let settled = false;
+    const settle = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      signal?.removeEventListener('abort', onAbort);
+      fn();
+    };
+    const onAbort = () => {
+      settle(() => reject(cancelledError()));
+      void worker.terminate();
+    };
+    signal?.addEventListener('abort', onAbort);
+    worker.on('message', (msg: SimulationWorkerMessage) => {
+      if (msg.type === 'progress') {
+        onProgress(msg.games, msg.scoreSum);
+      } else {
+        settle(() => resolve(msg.batch));
+      }
+    });
+    worker.once('error', (err) => settle(() => reject(err)));
+    worker.once('exit', (code) => {
+      settle(() => reject(new Error(`Simulation worker exited with code ${code}`)));
+    });
+  });
+}
+
+/** What a sharded run plays: a strategy in self-play, or a cross-play pair. */
+interface ParallelCell {
+  name: string;
+  strategyName: string;
+  partnerName?: string;
+}
+
+/**
+ * Plays each cell over the config's seeds, one cell at a time with the seeds sharded across
+ * worker threads. Progress is reported per cell, named after it, with an ETA for the whole run.
+ */
+async function runCellsParallel(
+  config: GameConfig,
+  cells: ParallelCell[],
+  seeds: number[],
+  options: ParallelRunOptions
+): Promise<StrategyResult[]> {
+  const shards = shardSeeds(seeds, options.workerCount ?? defaultWorkerCount());
+  const results: StrategyResult[] = [];
+  const runStart = performance.now();
+  const totalGames = seeds.length * cells.length;
+
+  for (let cellIndex = 0; cellIndex < cells.length; cellIndex++) {
+    const cell = cells[cellIndex];
+    let gamesDone = 0;
+    let scoreSum = 0;
+    const report = (games: number, scores: number) => {
+      gamesDone += games;
+      scoreSum += scores;
+      if (!options.onProgress) return;
+      const doneOverall = cellIndex * seeds.length + gamesDone;
+      const elapsed = performance.now() - runStart;
+      options.onProgress({
+        strategyName: cell.name,
+        strategyIndex: cellIndex,
+        strategyCount: cells.length,
+        gamesDone,
+        gameCount: seeds.length,
+        meanScore: gamesDone > 0 ? scoreSum / gamesDone : 0,
+        etaMs: doneOverall > 0 ? (elapsed / doneOverall) * (totalGames - doneOverall) : 0,
+      });
+    };
+
+    // One failing shard stops its siblings; the caller's signal stops them all
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (options.signal?.aborted) abort();
+    options.signal?.addEventListener('abort', abort);
+
+    const t0 = performance.now();
+    let batches: SeedBatchResult[];
+    try {
+      let firstGameIndex = 0;
+      batches = await Promise.all(
+        shards.map((shard) => {
+          const data: SimulationWorkerData = {
+            strategyName: cell.strategyName,
+            ...(cell.partnerName !== undefined && { partnerName: cell.partnerName, firstGameIndex }),
+            config,
+            seeds: shard,
+          };
+          firstGameIndex += shard.length;
+          return runBatchInWorker(data, report, controller.signal).catch((err) => {
+            abort();
+            throw err;
+          });
+        })
+      );
+    } finally {
+      options.signal?.removeEventListener('abort', abort);
+    }
+    const t1 = performance.now();
+    results.push(mergeSeedBatches(cell.name, config, batches, t1 - t0));
+  }
+
+  return results;
+}
+
+/**
+ * Same result as runSimulation, with each strategy's seed list sharded across worker threads, so
+ * the calling thread stays free. Shards are merged in seed order, so scores, perGameMetrics,
+ * traces and violations match a serial run exactly; only timing differs (totalMs is wall-clock
+ * time for the strategy).
+ */
+export async function runSimulationParallel(
+  config: GameConfig,
+  strategyNames?: string[],
+  options: ParallelRunOptions = {}
+): Promise<SimulationResult> {
+  const seeds = getSeeds(config);
+  const strategies = selectStrategies(config, strategyNames);
+  const cells = strategies.map((s) => ({ name: s.name, strategyName: s.name }));
+  return { results: await runCellsParallel(config, cells, seeds, options), seeds };
+}
+
+/**
+ * Same result as runCrossPlay, with each pair's seeds sharded across worker threads like
+ * runSimulationParallel. Progress is reported per pair, named as in crossPlayPairName.
+ */
+export async function runCrossPlayParallel(
+  config: GameConfig,
+  strategyNames?: string[],
+  options: ParallelRunOptions = {}
+): Promise<CrossPlayResult> {
+  const seeds = getSeeds(config);
+  const names = selectStrategies(config, strategyNames).map((s) => s.name);
+  const cells = crossPlayPairs(names).map(([a, b]) => ({
+    name: crossPlayPairName(a, b),
+    strategyName: a,
+    partnerName: b,
+  }));
+  return crossPlayMatrix(names, seeds, await runCellsParallel(config, cells, seeds, options));
+}
@@ -0,0 +1,101 @@
+import { replayTrace, traceStartingTokens, buildTraceSteps } from './replay';
+import { runSimulation } from './runner';
+import type { GameTrace } from './runner';
+import { createDefaultConfig } from '../config';
+import { DEFAULT_RULES, withHintMode } from '../engine/rules';
+import { calculateFinalScore } from '../engine/game-engine';
+
+function traces(config: ReturnType<typeof createDefaultConfig>, strategy: string): GameTrace[] {
+  return runSimulation({ ...config, loggingMode: 'debug' }, [strategy]).results[0].traces ?? [];
+}
+
+describe('replayTrace', () => {
+  it('rebuilds the final state of every traced game', () => {
+    const config = createDefaultConfig({
+      gameCount: 8,
+      hintTokens: 5,
+      lifeTokens: 2,
+      rules: withHintMode(DEFAULT_RULES, 'empty-clues'),
+    });
+    for (const trace of traces(config, 'HintPartner')) {
+      let steps = 0;
+      const state = replayTrace(trace, () => steps++);
+      expect(steps).toBe(trace.events.length);
+      expect(state.gameOver).toBe(true);
+      expect(state.endReason).toBe(trace.finalState.endReason);
+      expect(calculateFinalScore(state)).toBe(trace.finalState.score);
+      expect(state.hintTokens).toBe(trace.finalState.hintsRemaining);
+      expect(state.discardPile).toEqual(trace.finalState.discardPile);
+    }
+  });
+
+  it('infers the starting tokens of traces that lack them', () => {
+    const config = createDefaultConfig({ gameCount: 6, hintTokens: 6, lifeTokens: 2 });
+    for (const { hintTokens, lifeTokens, ...older } of traces(config, 'Random')) {
+      expect({ hintTokens, lifeTokens }).toEqual({ hintTokens: 6, lifeTokens: 2 });
+      const inferred = traceStartingTokens(older);
+      expect(inferred.lifeTokens).toBe(2);
+      expect(replayTrace({ ...older, ...inferred }).hintTokens).toBe(older.finalState.hintsRemaining);
+      expect(replayTrace(older).endReason).toBe(older.finalState.endReason);
+    }
+  });
+});
+
+describe('replayTrace verification', () => {
+  const [trace] = traces(createDefaultConfig({ gameCount: 1 }), 'Random');
+
+  it('names the turn of an illegal event', () => {
+    const events: GameTrace['events'] = trace.events.map((e, i) =>
+      i === 3 ? { type: 'discard', playerIndex: e.playerIndex, cardIndex: 9, card: trace.initialDeckOrder[0] } : e
+    );
+    expect(() => replayTrace({ ...trace, events })).toThrow(/^Turn 3: /);
+  });
+
+  it('names the turn and field of an outcome the engine disagrees with', () => {
+    const index = trace.events.findIndex((e) => e.type === 'play');
+    const events = trace.events.map((e, i) => (i === index && e.type === 'play' ? { ...e, success: !e.success } : e));
+    expect(() => replayTrace({ ...trace, events })).toThrow(`Turn ${index}: the recorded event differs from the engine's in success`);
+  });
+
+  it('accepts events recorded without optional fields', () => {
+    const events = trace.events.map((e) => (e.type === 'play' ? { ...e, card: undefined } : e));
+    expect(() => replayTrace({ ...trace, events })).not.toThrow();
+  });
+});
+
+describe('buildTraceSteps', () => {
+  it('snapshots the deal and the state after every event', () => {
+    const config = createDefaultConfig({
+      gameCount: 3,
+      playerCount: 4,
+      variant: 'rainbow',
+      rules: withHintMode(DEFAULT_RULES, 'empty-clues'),
+    });
+    for (const trace of traces(config, 'HintPartner')) {
+      const steps = buildTraceSteps(trace);
+      expect(steps).toHaveLength(trace.events.length + 1);
+      expect(steps[0]).toMatchObject({ hintTokens: 8, lifeTokens: 3, currentPlayer: 0, score: 0, gameOver: false });
+      expect(steps[0].hands.map((h) => h.length)).toEqual([4, 4, 4, 4]);
+      expect(steps[0].deckSize).toBe(trace.initialDeckOrder.length - 16);
+      expect(steps[0].suitColors).toHaveLength(6);
+      const last = steps[steps.length - 1];
+      expect(last).toMatchObject({ score: trace.finalState.score, gameOver: true, endReason: trace.finalState.endReason });
+      // Knowledge is kept only for cards still in a hand
+      const inHand = new Set(last.hands.flat().map((c) => c.id));
+      expect(Object.keys(last.hintKnowledge).every((id) => inHand.has(Number(id)))).toBe(true);
+      expect(JSON.parse(JSON.stringify(steps))).toEqual(steps);
+    }
+  });
+
+  it('steps through traces from before rules, player count and variant were recorded', () => {
+    const config = createDefaultConfig({ gameCount: 2, rules: withHintMode(DEFAULT_RULES, 'empty-clues') });
+    for (const trace of traces(config, 'HintPartner')) {
+      const { rules: _r, playerCount: _p, variant: _v, hintTokens: _h, lifeTokens: _l, ...legacy } = trace;
+      const steps = buildTraceSteps(legacy);
+      expect(steps).toHaveLength(trace.events.length + 1);
+      expect(steps[0].hands.map((h) => h.length)).toEqual([5, 5]);
+      expect(steps[0].suitColors).toHaveLength(5);
+      expect(steps[steps.length - 1]).toMatchObject({ score: trace.finalState.score, gameOver: true });
+    }
+  });
+});
@@ -0,0 +1,181 @@
+import type { GameTrace } from './runner';
+import type { GameState, HintKnowledge } from '../engine/game-state';
+import { createInitialState, DEFAULT_PLAYER_COUNT } from '../engine/game-state';
+import { executeAction, forfeitGame, calculateScore } from '../engine/game-engine';
+import type { Action } from '../engine/actions';
+import type { GameEvent, EndReason } from '../engine/events';
+import type { Card, Color, PlayedStacks } from '../engine/types';
+import { getVariant, getSuitColors } from '../engine/variants';
+import type { VariantId } from '../engine/variants';
+import { DEFAULT_RULES, withHintMode } from '../engine/rules';
+import type { RuleSet } from '../engine/rules';
+
+/** The action that produced an event. */
+export function eventToAction(event: GameEvent): Action {
+  if (event.type === 'hint') {
+    return {
+      type: 'hint',
+      targetPlayer: event.targetPlayer,
+      hintType: event.hintType,
+      hintValue: event.hintValue,
+    };
+  }
+  return { type: event.type, cardIndex: event.cardIndex };
+}
+
+/**
+ * Rules of traces written before traces recorded their rules: the simulator then had a single
+ * rule set, in which number hints could touch no card.
+ */
+export const LEGACY_TRACE_RULES: RuleSet = withHintMode(DEFAULT_RULES, 'empty-clues');
+
+/**
+ * Player count, variant and rules of a traced game. Traces written before these were recorded
+ * all come from 2-player standard games under LEGACY_TRACE_RULES.
+ */
+export function traceSetup(trace: GameTrace): { playerCount: number; variant: VariantId; rules: RuleSet } {
+  return {
+    playerCount: trace.playerCount ?? DEFAULT_PLAYER_COUNT,
+    variant: trace.variant ?? 'standard',
+    rules: trace.rules ?? LEGACY_TRACE_RULES,
+  };
+}
+
+/**
+ * Starting hint and life tokens of a traced game. Older traces don't record them: lives are the
+ * lives left plus the bombs, and hints the largest start the trace's hints and discards allow
+ * that ends on the recorded count (any such start replays identically).
+ */
+export function traceStartingTokens(trace: GameTrace): { hintTokens: number; lifeTokens: number } {
+  const lifeTokens =
+    trace.lifeTokens ??
+    trace.finalState.livesRemaining + trace.events.filter((e) => e.type === 'play' && !e.success).length;
+  if (trace.hintTokens !== undefined) return { hintTokens: trace.hintTokens, lifeTokens };
+
+  const { maxHintTokens, fiveRefundsHint } = traceSetup(trace).rules;
+  for (let start = maxHintTokens; start >= 0; start--) {
+    let tokens = start;
+    let consistent = true;
+    for (const e of trace.events) {
+      if (e.type === 'hint') {
+        if (tokens <= 0) consistent = false;
+        tokens--;
+      } else if (e.type === 'discard') {
+        if (tokens >= maxHintTokens) consistent = false;
+        tokens++;
+      } else if (e.success && e.card?.value === 5 && fiveRefundsHint && tokens < maxHintTokens) {
+        tokens++;
+      }
+      if (!consistent) break;
+    }
+    if (consistent && tokens === trace.finalState.hintsRemaining) return { hintTokens: start, lifeTokens };
+  }
+  return { hintTokens: maxHintTokens, lifeTokens };
+}
+
+/** The traced game's state before its first action. */
+export function createTraceState(trace: GameTrace): GameState {
+  const { playerCount, variant, rules } = traceSetup(trace);
+  return createInitialState(trace.seed, {
+    ...traceStartingTokens(trace),
+    playerCount,
+    variantId: variant,
+    rules,
+  });
+}
+
+/** JSON with object keys sorted, so equal values compare equal whatever order they were built in. */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  );
+}
+
+/**
+ * Fields of a recorded event that disagree with the event the engine produced for the same action.
+ * Fields the recording lacks are not compared, so traces from before a field existed still match.
+ */
+export function eventMismatches(recorded: GameEvent, replayed: GameEvent): string[] {
+  const actual = replayed as Record<string, unknown>;
+  return Object.entries(recorded)
+    .filter(([key, value]) => value !== undefined && canonicalJson(value) !== canonicalJson(actual[key]))
+    .map(([key]) => key);
+}
+
+/**
+ * Replays a trace's events through the engine, calling onEvent with the state after each one,
+ * and returns the final state. Throws, naming the turn, if an event is not a legal action in the
+ * replayed game or the engine's outcome differs from the recorded one.
+ */
+export function replayTrace(
+  trace: GameTrace,
+  onEvent?: (state: GameState, event: GameEvent, index: number) => void
+): GameState {
+  const state = createTraceState(trace);
+  trace.events.forEach((event, index) => {
+    let replayed: GameEvent;
+    try {
+      replayed = executeAction(state, eventToAction(event));
+    } catch (err) {
+      throw new Error(`Turn ${index}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    const mismatches = eventMismatches(event, replayed);
+    if (mismatches.length > 0) {
+      throw new Error(`Turn ${index}: the recorded event differs from the engine's in ${mismatches.join(', ')}`);
+    }
+    onEvent?.(state, event, index);
+  });
+  if (trace.finalState.endReason === 'forfeit') forfeitGame(state);
+  return state;
+}
+
+/** A game's state as the replay viewer shows it; plain JSON, unlike GameState. */
+export interface ReplayStep {
+  hands: Card[][];
+  deckSize: number;
+  suitColors: Color[];
+  playedStacks: PlayedStacks;
+  discardPile: Card[];
+  hintTokens: number;
+  lifeTokens: number;
+  currentPlayer: number;
+  /** What hints revealed about each card still in a hand, by card id. */
+  hintKnowledge: Record<number, HintKnowledge>;
+  score: number;
+  gameOver: boolean;
+  endReason?: EndReason;
+}
+
+export function snapshotState(state: GameState): ReplayStep {
+  const hintKnowledge: Record<number, HintKnowledge> = {};
+  for (const card of state.hands.flat()) {
+    const known = state.hintKnowledge.get(card.id);
+    if (known) hintKnowledge[card.id] = structuredClone(known);
+  }
+  return {
+    hands: state.hands.map((hand) => hand.map((card) => ({ ...card }))),
+    deckSize: state.deck.length,
+    suitColors: getSuitColors(getVariant(state.variantId)),
+    playedStacks: { ...state.playedStacks },
+    discardPile: state.discardPile.map((card) => ({ ...card })),
+    hintTokens: state.hintTokens,
+    lifeTokens: state.lifeTokens,
+    currentPlayer: state.currentPlayer,
+    hintKnowledge,
+    score: calculateScore(state.playedStacks),
+    gameOver: state.gameOver,
+    ...(state.endReason && { endReason: state.endReason }),
+  };
+}
+
+/**
+ * The state before the first event and after each one (steps[k] follows events[0..k−1]), rebuilt
+ * by the engine. Throws as replayTrace does.
+ */
+export function buildTraceSteps(trace: GameTrace): ReplayStep[] {
+  const steps = [snapshotState(createTraceState(trace))];
+  replayTrace(trace, (state) => steps.push(snapshotState(state)));
+  return steps;
+}
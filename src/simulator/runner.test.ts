@@ -1,5 +1,17 @@
-import { generateSeedList, runSimulation } from './runner';
+import {
+  generateSeedList,
+  runSimulation,
+  runSingleGame,
+  runSeedBatch,
+  mergeSeedBatches,
+  MAX_VIOLATION_OBSERVATIONS,
+} from './runner';
+import type { HanabiStrategy, Observation, GameEvent, FinalState } from '../strategies/types';
+import type { GameConfig } from '../config';
+import { ExampleStrategy } from '../strategies/example-strategy';
 import { createDefaultConfig } from '../config';
+import { isCritical } from '../strategies/card-status';
+import type { Card, PlayedStacks } from '../engine/types';
 
 describe('generateSeedList', () => {
   it('returns deterministic sequence 0..count-1', () => {
@@ -35,6 +47,14 @@ describe('runSimulation', () => {
     }
   });
 
+  it('runs named instances side by side and refuses unknown names', () => {
+    const config = createDefaultConfig({ gameCount: 20 });
+    const { results } = runSimulation(config, ['Random', 'Random{rngSeed=7}', 'Random']);
+    expect(results.map((r) => r.name)).toEqual(['Random', 'Random{rngSeed=7}']);
+    expect(results[0].scores).not.toEqual(results[1].scores);
+    expect(() => runSimulation(config, ['Randomm'])).toThrow('Unknown strategy: Randomm');
+  });
+
   it('perGameMetrics has correct shape', () => {
     const config = createDefaultConfig({ gameCount: 2 });
     const { results } = runSimulation(config);
@@ -93,3 +113,180 @@ describe('runSimulation', () => {
     }
   });
 });
+
+class RecordingStrategy implements HanabiStrategy {
+  static instances: RecordingStrategy[] = [];
+  readonly calls: string[] = [];
+  seat = -1;
+  private readonly inner = new ExampleStrategy();
+
+  initialize(_config: GameConfig, seatIndex: number): void {
+    this.seat = seatIndex;
+    this.calls.push('initialize');
+  }
+
+  onGameStart(observation: Observation): void {
+    this.calls.push(`start:${observation.observerSeat}`);
+  }
+
+  getAction(observation: Observation) {
+    this.calls.push(`action:${observation.observerSeat}`);
+    return this.inner.getAction(observation);
+  }
+
+  onActionResolved(event: GameEvent): void {
+    this.calls.push(`resolved:${event.playerIndex}`);
+  }
+
+  onGameEnd(result: FinalState): void {
+    this.calls.push(`end:${result.score}`);
+  }
+
+  clone(): RecordingStrategy {
+    const copy = new RecordingStrategy();
+    RecordingStrategy.instances.push(copy);
+    return copy;
+  }
+}
+
+describe('runSingleGame lifecycle', () => {
+  beforeEach(() => {
+    RecordingStrategy.instances = [];
+  });
+
+  it('clones one instance per seat and calls the hooks in order', () => {
+    const template = new RecordingStrategy();
+    const config = createDefaultConfig({ playerCount: 3 });
+    const { finalState, events } = runSingleGame(11, config, template, {
+      collectTrace: false,
+      decisionTimes: [],
+    });
+
+    expect(template.calls).toEqual([]);
+    const seats = RecordingStrategy.instances;
+    expect(seats.map((s) => s.seat)).toEqual([0, 1, 2]);
+    for (const s of seats) {
+      expect(s.calls.slice(0, 2)).toEqual(['initialize', `start:${s.seat}`]);
+      expect(s.calls[s.calls.length - 1]).toBe(`end:${finalState.score}`);
+      expect(s.calls.filter((c) => c.startsWith('resolved:'))).toHaveLength(events.length);
+      expect(s.calls.filter((c) => c.startsWith('action:'))).toEqual(
+        s.calls.filter((c) => c === `action:${s.seat}`)
+      );
+    }
+    // Every seat hears about an action right after it is chosen
+    const actor = events[0].playerIndex;
+    expect(seats[actor].calls.slice(2, 4)).toEqual([`action:${actor}`, `resolved:${actor}`]);
+  });
+
+  it('events passed to onActionResolved cannot corrupt the game history', () => {
+    const inner = new ExampleStrategy();
+    let resolved = 0;
+    const mutator: HanabiStrategy = {
+      getAction: (obs) => inner.getAction(obs),
+      onActionResolved(event) {
+        resolved++;
+        (event as { playerIndex: number }).playerIndex = -1;
+      },
+    };
+    const { events } = runSingleGame(3, createDefaultConfig(), mutator, {
+      collectTrace: false,
+      decisionTimes: [],
+    });
+    expect(resolved).toBe(events.length * 2);
+    expect(events.every((e) => e.playerIndex >= 0)).toBe(true);
+  });
+});
+
+describe('invalid-action policy', () => {
+  // Discarding at full hint tokens is illegal, so the opening move is always invalid
+  const alwaysDiscard: HanabiStrategy = { getAction: () => ({ type: 'discard', cardIndex: 0 }) };
+  const options = () => ({ collectTrace: false, decisionTimes: [] as number[] });
+
+  it('fail-fast throws with the seed and turn', () => {
+    const config = createDefaultConfig({ invalidActionPolicy: 'fail-fast' });
+    expect(() => runSingleGame(5, config, alwaysDiscard, options())).toThrow(
+      /Invalid action on seed 5, turn 0 \(seat 0\): Cannot discard/
+    );
+  });
+
+  it('forfeit ends the game with score 0 and records the violation', () => {
+    const config = createDefaultConfig({ invalidActionPolicy: 'forfeit' });
+    const { finalState, metrics, violations } = runSingleGame(5, config, alwaysDiscard, options());
+    expect(finalState.score).toBe(0);
+    expect(metrics.endReason).toBe('forfeit');
+    expect(metrics.invalidActionCount).toBe(1);
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({
+      seed: 5,
+      turn: 0,
+      seat: 0,
+      action: { type: 'discard', cardIndex: 0 },
+      error: expect.stringMatching(/Cannot discard/),
+    });
+    expect(violations[0].observation?.hintsRemaining).toBe(8);
+  });
+
+  it('substitute-discard falls back to playing slot 0 when discarding is illegal', () => {
+    const config = createDefaultConfig({ invalidActionPolicy: 'substitute-discard' });
+    const { events, metrics } = runSingleGame(5, config, alwaysDiscard, options());
+    expect(events[0]).toMatchObject({ type: 'play', cardIndex: 0 });
+    expect(metrics.endReason).not.toBe('forfeit');
+    expect(metrics.invalidActionCount).toBe(events.filter((e) => e.type === 'play').length);
+  });
+
+  it('substitute-play plays slot 0 and the run keeps going', () => {
+    const config = createDefaultConfig({ invalidActionPolicy: 'substitute-play' });
+    const { events } = runSingleGame(5, config, alwaysDiscard, options());
+    expect(events[0]).toMatchObject({ type: 'play', cardIndex: 0 });
+    expect(events.length).toBeGreaterThan(1);
+  });
+
+  it('keeps observations for the first violations of a strategy only', () => {
+    const config = createDefaultConfig({ invalidActionPolicy: 'forfeit' });
+    const seeds = generateSeedList(MAX_VIOLATION_OBSERVATIONS + 20);
+    const batch = runSeedBatch(alwaysDiscard, config, seeds);
+    expect(batch.violations).toHaveLength(seeds.length);
+    expect(batch.violations.filter((v) => v.observation)).toHaveLength(MAX_VIOLATION_OBSERVATIONS);
+    expect(batch.violations[MAX_VIOLATION_OBSERVATIONS]).toEqual({
+      seed: seeds[MAX_VIOLATION_OBSERVATIONS],
+      turn: 0,
+      seat: 0,
+      action: { type: 'discard', cardIndex: 0 },
+      error: expect.stringMatching(/Cannot discard/),
+    });
+    const merged = mergeSeedBatches('AlwaysDiscard', config, [batch, batch], 0);
+    expect(merged.violations!.filter((v) => v.observation)).toHaveLength(MAX_VIOLATION_OBSERVATIONS);
+  });
+});
+
+describe('critical discard metric', () => {
+  it('counts discards of the last copy of a needed card', () => {
+    const config = createDefaultConfig();
+    let total = 0;
+    for (let seed = 0; seed < 10; seed++) {
+      const { events, metrics } = runSingleGame(seed, config, new ExampleStrategy(), {
+        collectTrace: false,
+        decisionTimes: [],
+      });
+      // Replay the board and check each discard against it
+      const board = {
+        variantId: config.variant,
+        playedStacks: {} as PlayedStacks,
+        discardPile: [] as Card[],
+      };
+      let expected = 0;
+      for (const e of events) {
+        if (e.type === 'discard') {
+          if (isCritical(board, e.card)) expected++;
+          board.discardPile.push(e.card);
+        } else if (e.type === 'play' && e.card) {
+          if (e.success) board.playedStacks[e.card.color] = e.card.value;
+          else board.discardPile.push(e.card);
+        }
+      }
+      expect(metrics.criticalDiscardCount).toBe(expected);
+      total += expected;
+    }
+    expect(total).toBeGreaterThan(0);
+  });
+});
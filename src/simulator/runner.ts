@@ -1,12 +1,22 @@
 import type { GameConfig } from '../config';
 import type { HanabiStrategy } from '../strategies/types';
-import { getStrategies } from '../strategies/registry';
+import { getStrategies, resolveStrategy } from '../strategies/registry';
+import { isCritical } from '../strategies/card-status';
+import type { StrategyEntry } from '../strategies/registry';
 import { createInitialState } from '../engine/game-state';
 import { buildObservation } from '../engine/observation';
-import { executeAction, calculateScore } from '../engine/game-engine';
+import { executeAction, calculateFinalScore, forfeitGame } from '../engine/game-engine';
+import type { Action } from '../engine/actions';
+import { validateAction } from '../engine/actions';
+import type { Observation } from '../engine/observation';
+import type { GameState } from '../engine/game-state';
 import type { GameEvent, EndReason, FinalState } from '../engine/events';
 import type { Card } from '../engine/types';
 import { createDeck, shuffleDeck } from '../engine/deck';
+import type { VariantId } from '../engine/variants';
+import type { RuleSet } from '../engine/rules';
+import { getHintMode } from '../engine/rules';
+import { getVariant, getMaxScore } from '../engine/variants';
 
 /**
  * Generates a deterministic list of seeds. Simple implementation: 0..count-1.
@@ -21,14 +31,62 @@ export interface PerGameMetrics {
   livesRemaining: number;
   hintsRemaining: number;
   misplayCount: number;
+  /** Invalid actions returned by the strategies in this game (see GameConfig.invalidActionPolicy). */
+  invalidActionCount: number;
+  /** Discards of a card that was the last copy still needed (see isCritical). */
+  criticalDiscardCount: number;
   endReason: EndReason;
 }
 
+/** An invalid action returned by a strategy, with the observation it was returned for. */
+export interface ActionViolation {
+  seed: number;
+  /** Index of the turn in the game's event list. */
+  turn: number;
+  seat: number;
+  /** Left out past a strategy's first MAX_VIOLATION_OBSERVATIONS violations. */
+  observation?: Observation;
+  action: Action;
+  error: string;
+}
+
+/**
+ * Violations per strategy that keep their observation. Later ones are recorded without it, so a
+ * strategy that errs in every game of a large run does not fill memory and violations.json.
+ */
+export const MAX_VIOLATION_OBSERVATIONS = 100;
+
+/** Appends violations to a strategy's list, leaving out observations past the first ones. */
+export function appendViolations(list: ActionViolation[], added: ActionViolation[]): void {
+  for (const violation of added) {
+    if (list.length < MAX_VIOLATION_OBSERVATIONS || violation.observation === undefined) {
+      list.push(violation);
+    } else {
+      const { observation: _observation, ...compact } = violation;
+      list.push(compact);
+    }
+  }
+}
+
 export interface GameTrace {
   seed: number;
+  /** The deal and rules; traces written before these were recorded lack them (see traceSetup). */
+  playerCount?: number;
+  variant?: VariantId;
+  rules?: RuleSet;
+  /** Starting tokens; traces written before these were recorded lack them (see traceStartingTokens). */
+  hintTokens?: number;
+  lifeTokens?: number;
   initialDeckOrder: Card[];
   events: GameEvent[];
   finalState: FinalState;
+  /** Strategy name per seat; only set for mixed-team (cross-play) games. */
+  seatStrategies?: string[];
+  /**
+   * Per event, the strategy's explanation for the action (see HanabiStrategy.explainLastAction);
+   * null for unexplained or substituted actions. Omitted when no seat explains its actions.
+   */
+  actionReasons?: (string | null)[];
 }
 
 export interface StrategyResult {
@@ -42,6 +100,7 @@ export interface StrategyResult {
     maxDecisionMs: number;
   };
   traces?: GameTrace[];
+  violations?: ActionViolation[];
 }
 
 export interface SimulationResult {
@@ -49,29 +108,144 @@ export interface SimulationResult {
   seeds: number[];
 }
 
-function countMislays(events: GameEvent[]): number {
+/**
+ * Returns an error message if the strategy's required hint mode doesn't match the rules, else null.
+ */
+export function checkHintModeCompatibility(
+  name: string,
+  strategy: HanabiStrategy,
+  rules: RuleSet
+): string | null {
+  const mode = getHintMode(rules);
+  if (strategy.requiredHintMode && strategy.requiredHintMode !== mode) {
+    return `Strategy ${name} requires '${strategy.requiredHintMode}' hint mode but the rules use '${mode}'`;
+  }
+  return null;
+}
+
+/**
+ * One strategy instance per seat, cloned from the seat's template when it supports clone()
+ * (otherwise the template is shared) and initialized with its seat.
+ */
+function createSeatStrategies(
+  templates: HanabiStrategy | HanabiStrategy[],
+  config: GameConfig,
+  playerCount: number
+): HanabiStrategy[] {
+  const seats: HanabiStrategy[] = [];
+  for (let seat = 0; seat < playerCount; seat++) {
+    const template = Array.isArray(templates) ? templates[seat] : templates;
+    const instance = template.clone ? template.clone() : template;
+    instance.initialize?.(config, seat);
+    seats.push(instance);
+  }
+  return seats;
+}
+
+/**
+ * Applies config.invalidActionPolicy to an invalid action. Returns the action to execute instead,
+ * or null if the game was forfeited.
+ */
+function resolveInvalidAction(
+  state: GameState,
+  policy: GameConfig['invalidActionPolicy'],
+  violation: ActionViolation
+): Action | null {
+  switch (policy) {
+    case 'fail-fast':
+      throw new Error(
+        `Invalid action on seed ${violation.seed}, turn ${violation.turn} (seat ${violation.seat}): ${violation.error}`
+      );
+    case 'forfeit':
+      forfeitGame(state);
+      return null;
+    case 'substitute-discard': {
+      const discard: Action = { type: 'discard', cardIndex: 0 };
+      return validateAction(state, discard) === null ? discard : { type: 'play', cardIndex: 0 };
+    }
+    case 'substitute-play':
+      return { type: 'play', cardIndex: 0 };
+  }
+}
+
+function copyEvent(event: GameEvent): GameEvent {
+  if (event.type === 'hint') {
+    return {
+      ...event,
+      matchedCardIndices: [...event.matchedCardIndices],
+      matchedCardIds: [...event.matchedCardIds],
+    };
+  }
+  return event.card ? { ...event, card: { ...event.card } } : { ...event };
+}
+
+function countMisplays(events: GameEvent[]): number {
   return events.filter((e) => e.type === 'play' && !e.success).length;
 }
 
+/**
+ * Plays one game. Pass a single strategy for self-play or one template per seat for a mixed team.
+ */
 export function runSingleGame(
   seed: number,
   config: GameConfig,
-  strategy: HanabiStrategy,
+  strategy: HanabiStrategy | HanabiStrategy[],
   options: { collectTrace: boolean; decisionTimes: number[] }
-): { finalState: FinalState; events: GameEvent[]; metrics: PerGameMetrics; trace?: GameTrace } {
-  const state = createInitialState(seed, config.hintTokens, config.lifeTokens);
+): {
+  finalState: FinalState;
+  events: GameEvent[];
+  metrics: PerGameMetrics;
+  trace?: GameTrace;
+  violations: ActionViolation[];
+} {
+  const state = createInitialState(seed, {
+    hintTokens: config.hintTokens,
+    lifeTokens: config.lifeTokens,
+    playerCount: config.playerCount,
+    variantId: config.variant,
+    rules: config.rules,
+  });
+
+  const seats = createSeatStrategies(strategy, config, state.playerCount);
+  seats.forEach((s, seat) => s.onGameStart?.(buildObservation(state, seat)));
+
+  const violations: ActionViolation[] = [];
+  let criticalDiscardCount = 0;
+  const actionReasons: (string | null)[] = [];
 
   while (!state.gameOver) {
     const obs = buildObservation(state, state.currentPlayer);
     const t0 = performance.now();
-    const action = strategy.getAction(obs);
+    let action: Action | null = seats[state.currentPlayer].getAction(obs);
     const t1 = performance.now();
     options.decisionTimes.push(t1 - t0);
-    executeAction(state, action);
+    let reason = seats[state.currentPlayer].explainLastAction?.() ?? null;
+    const error = validateAction(state, action);
+    if (error) {
+      reason = null;
+      const violation: ActionViolation = {
+        seed,
+        turn: state.actionHistory.length,
+        seat: state.currentPlayer,
+        observation: obs,
+        action,
+        error,
+      };
+      violations.push(violation);
+      action = resolveInvalidAction(state, config.invalidActionPolicy, violation);
+      if (!action) break;
+    }
+    if (action.type === 'discard') {
+      const card = state.hands[state.currentPlayer][action.cardIndex];
+      if (isCritical(state, card)) criticalDiscardCount++;
+    }
+    const event = executeAction(state, action);
+    actionReasons.push(reason);
+    for (const s of seats) s.onActionResolved?.(copyEvent(event));
   }
 
   const finalState: FinalState = {
-    score: calculateScore(state.playedStacks),
+    score: calculateFinalScore(state),
     livesRemaining: state.lifeTokens,
     hintsRemaining: state.hintTokens,
     endReason: state.endReason!,
@@ -79,12 +253,22 @@ export function runSingleGame(
     discardPile: [...state.discardPile],
   };
 
+  for (const s of seats) {
+    s.onGameEnd?.({
+      ...finalState,
+      playedStacks: { ...finalState.playedStacks },
+      discardPile: finalState.discardPile.map((c) => ({ ...c })),
+    });
+  }
+
   const metrics: PerGameMetrics = {
     score: finalState.score,
-    isPerfect: finalState.score === 25,
+    isPerfect: finalState.score === getMaxScore(getVariant(config.variant)),
     livesRemaining: finalState.livesRemaining,
     hintsRemaining: finalState.hintsRemaining,
-    misplayCount: countMislays(state.actionHistory),
+    misplayCount: countMisplays(state.actionHistory),
+    invalidActionCount: violations.length,
+    criticalDiscardCount,
     endReason: finalState.endReason,
   };
 
@@ -92,74 +276,169 @@ export function runSingleGame(
   if (options.collectTrace) {
     trace = {
       seed,
-      initialDeckOrder: shuffleDeck(createDeck(), seed),
+      playerCount: state.playerCount,
+      variant: state.variantId,
+      rules: state.rules,
+      hintTokens: config.hintTokens,
+      lifeTokens: config.lifeTokens,
+      initialDeckOrder: shuffleDeck(createDeck(getVariant(state.variantId)), seed),
       events: [...state.actionHistory],
       finalState,
+      ...(actionReasons.some((r) => r !== null) && { actionReasons }),
     };
   }
 
-  return { finalState, events: state.actionHistory, metrics, trace };
+  return { finalState, events: state.actionHistory, metrics, trace, violations };
 }
 
+/**
+ * Registry entries to run. Names may be named instances (`Name{param=value}`); unknown names,
+ * bad parameters and strategies that need a different hint mode than config.rules are refused
+ * (throws). Without names, every compatible strategy runs with default parameters.
+ */
+export function selectStrategies(config: GameConfig, strategyNames?: string[]): StrategyEntry[] {
+  const strategies = strategyNames
+    ? strategyNames
+        .map((name) => resolveStrategy(name, config.strategyDir))
+        .filter((s, i, all) => all.findIndex((other) => other.name === s.name) === i)
+    : getStrategies(config.strategyDir).filter(
+        (s) => checkHintModeCompatibility(s.name, s.factory(), config.rules) === null
+      );
+  for (const s of strategies) {
+    const err = checkHintModeCompatibility(s.name, s.factory(), config.rules);
+    if (err) {
+      throw new Error(err);
+    }
+  }
+  return strategies;
+}
+
+export function getSeeds(config: GameConfig): number[] {
+  return config.seedList.length > 0 ? config.seedList : generateSeedList(config.gameCount);
+}
+
+/** Per-decision timing reduced to what the summary needs, so batches can be merged. */
+export interface DecisionTimeStats {
+  count: number;
+  sumMs: number;
+  maxMs: number;
+}
+
+export function summarizeDecisionTimes(decisionTimes: number[]): DecisionTimeStats {
+  let sumMs = 0;
+  let maxMs = 0;
+  for (let i = 0; i < decisionTimes.length; i++) {
+    const t = decisionTimes[i];
+    sumMs += t;
+    if (t > maxMs) maxMs = t;
+  }
+  return { count: decisionTimes.length, sumMs, maxMs };
+}
+
+export function summarizeTiming(
+  totalMs: number,
+  gameCount: number,
+  decisions: DecisionTimeStats
+): StrategyResult['timing'] {
+  return {
+    totalMs,
+    avgPerGameMs: gameCount > 0 ? totalMs / gameCount : 0,
+    avgDecisionMs: decisions.count > 0 ? decisions.sumMs / decisions.count : 0,
+    maxDecisionMs: decisions.maxMs,
+  };
+}
+
+/** One strategy's games over a list of seeds, in seed order. */
+export interface SeedBatchResult {
+  scores: number[];
+  perGameMetrics: PerGameMetrics[];
+  traces: GameTrace[];
+  violations: ActionViolation[];
+  decisions: DecisionTimeStats;
+}
+
+/**
+ * Plays the template strategy in self-play on each seed. Shared by the serial runner and the
+ * simulation workers; onGame is called after every game (used for progress reporting).
+ */
+export function runSeedBatch(
+  template: HanabiStrategy,
+  config: GameConfig,
+  seeds: number[],
+  onGame?: (metrics: PerGameMetrics) => void
+): SeedBatchResult {
+  const batch: SeedBatchResult = {
+    scores: [],
+    perGameMetrics: [],
+    traces: [],
+    violations: [],
+    decisions: { count: 0, sumMs: 0, maxMs: 0 },
+  };
+  const decisionTimes: number[] = [];
+  const collectTrace = config.loggingMode === 'debug';
+
+  for (const seed of seeds) {
+    const game = runSingleGame(seed, config, template, { collectTrace, decisionTimes });
+    batch.scores.push(game.metrics.score);
+    batch.perGameMetrics.push(game.metrics);
+    if (game.trace) batch.traces.push(game.trace);
+    appendViolations(batch.violations, game.violations);
+    onGame?.(game.metrics);
+  }
+  batch.decisions = summarizeDecisionTimes(decisionTimes);
+  return batch;
+}
+
+/**
+ * Builds a StrategyResult from batches in seed order; decision stats are combined so averages
+ * and maxima are over every decision, not over batches.
+ */
+export function mergeSeedBatches(
+  name: string,
+  config: GameConfig,
+  batches: SeedBatchResult[],
+  totalMs: number
+): StrategyResult {
+  const scores = batches.flatMap((b) => b.scores);
+  const decisions = batches.reduce<DecisionTimeStats>(
+    (acc, b) => ({
+      count: acc.count + b.decisions.count,
+      sumMs: acc.sumMs + b.decisions.sumMs,
+      maxMs: Math.max(acc.maxMs, b.decisions.maxMs),
+    }),
+    { count: 0, sumMs: 0, maxMs: 0 }
+  );
+  const violations: ActionViolation[] = [];
+  for (const b of batches) appendViolations(violations, b.violations);
+  return {
+    name,
+    scores,
+    perGameMetrics: batches.flatMap((b) => b.perGameMetrics),
+    timing: summarizeTiming(totalMs, scores.length, decisions),
+    ...(config.loggingMode === 'debug' && { traces: batches.flatMap((b) => b.traces) }),
+    violations,
+  };
+}
+
+/**
+ * Runs every seed for each strategy in self-play on the calling thread. See
+ * runSimulationParallel for the worker-thread version.
+ */
 export function runSimulation(
   config: GameConfig,
   strategyNames?: string[]
 ): SimulationResult {
-  const seeds =
-    config.seedList.length > 0
-      ? config.seedList
-      : generateSeedList(config.gameCount);
+  const seeds = getSeeds(config);
 
-  const strategies = getStrategies().filter(
-    (s) => !strategyNames || strategyNames.includes(s.name)
-  );
+  const strategies = selectStrategies(config, strategyNames);
 
   const results: StrategyResult[] = [];
 
   for (const strategyEntry of strategies) {
-    const base = strategyEntry.factory();
-    const scores: number[] = [];
-    const perGameMetrics: PerGameMetrics[] = [];
-    const decisionTimes: number[] = [];
-    const traces: GameTrace[] = [];
-    const collectTrace = config.loggingMode === 'debug';
-
     const t0 = performance.now();
-
-    for (const seed of seeds) {
-      const { metrics, trace } = runSingleGame(seed, config, base, {
-        collectTrace,
-        decisionTimes,
-      });
-      scores.push(metrics.score);
-      perGameMetrics.push(metrics);
-      if (trace) traces.push(trace);
-    }
-
+    const batch = runSeedBatch(strategyEntry.factory(), config, seeds);
     const t1 = performance.now();
-    const totalMs = t1 - t0;
-    let sumDecisionMs = 0;
-    let maxDecisionMs = 0;
-    for (let i = 0; i < decisionTimes.length; i++) {
-      const t = decisionTimes[i];
-      sumDecisionMs += t;
-      if (t > maxDecisionMs) maxDecisionMs = t;
-    }
-    const avgDecisionMs =
-      decisionTimes.length > 0 ? sumDecisionMs / decisionTimes.length : 0;
-
-    results.push({
-      name: strategyEntry.name,
-      scores,
-      perGameMetrics,
-      timing: {
-        totalMs,
-        avgPerGameMs: seeds.length > 0 ? totalMs / seeds.length : 0,
-        avgDecisionMs,
-        maxDecisionMs,
-      },
-      ...(collectTrace && { traces }),
-    });
+    results.push(mergeSeedBatches(strategyEntry.name, config, [batch], t1 - t0));
   }
 
   return { results, seeds };
@@ -0,0 +1,54 @@
+import { runSequential, parseSequentialOptions } from './sequential';
+import { runSimulation } from './runner';
+import { createDefaultConfig } from '../config';
+import { DEFAULT_RULES, withHintMode } from '../engine/rules';
+
+describe('runSequential', () => {
+  it('stops at the first conclusive look with the games a plain run would give', async () => {
+    const config = createDefaultConfig({ gameCount: 400, rules: withHintMode(DEFAULT_RULES, 'empty-clues') });
+    const result = await runSequential(config, ['Random', 'HintPartner'], { batchSize: 50 }, { workerCount: 1 });
+
+    expect(result.sequential.decision).toEqual({
+      reason: 'conclusive',
+      games: 50,
+      pairs: [{ a: 'Random', b: 'HintPartner', winner: 'HintPartner', decidedAtGames: 50 }],
+    });
+    expect(result.sequential.lookSchedule).toEqual({ batchSize: 50, maxGames: 400 });
+    expect(result.seeds).toHaveLength(50);
+    const plain = runSimulation({ ...config, gameCount: 50 }, ['Random', 'HintPartner']);
+    expect(result.results.map((r) => r.scores)).toEqual(plain.results.map((r) => r.scores));
+  });
+
+  it('plays the whole budget when the strategies cannot be told apart', async () => {
+    const config = createDefaultConfig({ gameCount: 60 });
+    const updates: number[] = [];
+    const result = await runSequential(
+      config,
+      ['Random{rngSeed=1}', 'Random{rngSeed=2}'],
+      { batchSize: 25 },
+      { workerCount: 1, onProgress: (p) => updates.push(p.gamesDone) }
+    );
+
+    expect(result.sequential.decision.reason).toBe('budget');
+    expect(result.sequential.looks.map((l) => l.games)).toEqual([25, 50, 60]);
+    expect(result.results[1].scores).toEqual(
+      runSimulation(config, ['Random{rngSeed=2}']).results[0].scores
+    );
+    expect(Math.max(...updates)).toBe(60);
+  });
+
+  it('needs two strategies', async () => {
+    await expect(runSequential(createDefaultConfig({ gameCount: 40 }), ['Random'])).rejects.toThrow(
+      /at least two strategies/
+    );
+  });
+});
+
+describe('parseSequentialOptions', () => {
+  it('rejects bad options', () => {
+    expect(parseSequentialOptions({ batchSize: 100, alpha: 0.01 })).toEqual({ batchSize: 100, alpha: 0.01 });
+    expect(() => parseSequentialOptions({ batchSize: 5 })).toThrow(/at least 20/);
+    expect(() => parseSequentialOptions({ alpha: 1 })).toThrow(/alpha/);
+    expect(() => parseSequentialOptions({ looks: 3 })).toThrow('Unknown sequential field: looks');
+  });
+});
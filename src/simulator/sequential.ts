@@ -0,0 +1,166 @@
+import type { GameConfig } from '../config';
+import type { StrategyResult, SimulationResult } from './runner';
+import { getSeeds, selectStrategies, appendViolations } from './runner';
+import type { ParallelRunOptions } from './parallel';
+import { runSimulationParallel } from './parallel';
+import { createStoppingRule, evaluateLook } from '../statistics/sequential';
+import type {
+  StoppingRule,
+  SequentialLook,
+  SequentialPairDecision,
+  SequentialDecision,
+  SequentialTestOptions,
+} from '../statistics/sequential';
+
+export interface SequentialOptions extends SequentialTestOptions {
+  /** Games per strategy between looks; default DEFAULT_SEQUENTIAL_BATCH_SIZE. */
+  batchSize?: number;
+}
+
+/** What summary.json records about a sequential run. */
+export interface SequentialRecord {
+  stoppingRule: StoppingRule;
+  /** Looks every batchSize games until the config's seed list (the budget) runs out. */
+  lookSchedule: { batchSize: number; maxGames: number };
+  looks: SequentialLook[];
+  decision: SequentialDecision;
+}
+
+export interface SequentialResult extends SimulationResult {
+  sequential: SequentialRecord;
+}
+
+export const DEFAULT_SEQUENTIAL_BATCH_SIZE = 200;
+
+/** Smaller batches leave the plugged-in variance too noisy at the first look. */
+const MIN_SEQUENTIAL_BATCH_SIZE = 20;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Validates sequential options from a request body or the CLI. */
+export function parseSequentialOptions(input: unknown): SequentialOptions {
+  if (!isObject(input)) throw new Error('sequential must be an object');
+  const { batchSize, alpha, mixtureSd, ...rest } = input;
+  const unknown = Object.keys(rest);
+  if (unknown.length > 0) throw new Error(`Unknown sequential field: ${unknown[0]}`);
+  if (
+    batchSize !== undefined &&
+    !(Number.isInteger(batchSize) && (batchSize as number) >= MIN_SEQUENTIAL_BATCH_SIZE)
+  ) {
+    throw new Error(`sequential.batchSize must be an integer of at least ${MIN_SEQUENTIAL_BATCH_SIZE}`);
+  }
+  if (alpha !== undefined && !(typeof alpha === 'number' && alpha > 0 && alpha < 1)) {
+    throw new Error('sequential.alpha must be between 0 and 1');
+  }
+  if (mixtureSd !== undefined && !(typeof mixtureSd === 'number' && mixtureSd > 0)) {
+    throw new Error('sequential.mixtureSd must be a positive number');
+  }
+  return {
+    ...(batchSize !== undefined && { batchSize: batchSize as number }),
+    ...(alpha !== undefined && { alpha }),
+    ...(mixtureSd !== undefined && { mixtureSd }),
+  };
+}
+
+/**
+ * Appends a later batch's games. Average decision time is weighted by games, which is close
+ * enough for the summary since every batch plays the same strategy.
+ */
+function appendResult(earlier: StrategyResult, later: StrategyResult): StrategyResult {
+  const games = earlier.scores.length + later.scores.length;
+  const violations = [...(earlier.violations ?? [])];
+  appendViolations(violations, later.violations ?? []);
+  const totalMs = earlier.timing.totalMs + later.timing.totalMs;
+  return {
+    name: earlier.name,
+    scores: [...earlier.scores, ...later.scores],
+    perGameMetrics: [...earlier.perGameMetrics, ...later.perGameMetrics],
+    timing: {
+      totalMs,
+      avgPerGameMs: games > 0 ? totalMs / games : 0,
+      avgDecisionMs:
+        games > 0
+          ? (earlier.timing.avgDecisionMs * earlier.scores.length +
+              later.timing.avgDecisionMs * later.scores.length) /
+            games
+          : 0,
+      maxDecisionMs: Math.max(earlier.timing.maxDecisionMs, later.timing.maxDecisionMs),
+    },
+    ...((earlier.traces || later.traces) && { traces: [...(earlier.traces ?? []), ...(later.traces ?? [])] }),
+    violations,
+  };
+}
+
+/**
+ * Plays the strategies in batches along the config's seed list and stops as soon as every pair
+ * is decided, or when the seed list is used up. Every strategy plays the same seeds, so the
+ * result is a prefix of what a plain run of the same config would give.
+ */
+export async function runSequential(
+  config: GameConfig,
+  strategyNames: string[] | undefined,
+  options: SequentialOptions = {},
+  runOptions: ParallelRunOptions = {}
+): Promise<SequentialResult> {
+  const strategies = selectStrategies(config, strategyNames);
+  if (strategies.length < 2) throw new Error('A sequential comparison needs at least two strategies');
+  const names = strategies.map((s) => s.name);
+  const seedStream = getSeeds(config);
+  const batchSize = options.batchSize ?? DEFAULT_SEQUENTIAL_BATCH_SIZE;
+  const rule = createStoppingRule((names.length * (names.length - 1)) / 2, options);
+
+  let results: StrategyResult[] = [];
+  const looks: SequentialLook[] = [];
+  let decisions: SequentialPairDecision[] = [];
+  const runStart = performance.now();
+
+  while (results.length === 0 || results[0].scores.length < seedStream.length) {
+    const played = results.length > 0 ? results[0].scores.length : 0;
+    const seeds = seedStream.slice(played, played + batchSize);
+    const earlier = results;
+    const batch = await runSimulationParallel({ ...config, seedList: seeds }, names, {
+      workerCount: runOptions.workerCount,
+      signal: runOptions.signal,
+      onProgress: (p) => {
+        if (!runOptions.onProgress) return;
+        const before = earlier[p.strategyIndex];
+        const scoreSum = (before ? before.scores.reduce((s, x) => s + x, 0) : 0) + p.meanScore * p.gamesDone;
+        const gamesDone = played + p.gamesDone;
+        const doneOverall = played * names.length + p.strategyIndex * seeds.length + p.gamesDone;
+        const elapsed = performance.now() - runStart;
+        runOptions.onProgress({
+          ...p,
+          gamesDone,
+          gameCount: seedStream.length,
+          meanScore: gamesDone > 0 ? scoreSum / gamesDone : 0,
+          // An upper bound: assumes the run goes on to the budget
+          etaMs: (elapsed / doneOverall) * (seedStream.length * names.length - doneOverall),
+        });
+      },
+    });
+    results = earlier.length > 0 ? batch.results.map((r, i) => appendResult(earlier[i], r)) : batch.results;
+
+    const evaluated = evaluateLook(results, rule, decisions);
+    looks.push(evaluated.look);
+    decisions = evaluated.decisions;
+    if (decisions.every((d) => d.winner !== null)) break;
+  }
+
+  const games = results[0].scores.length;
+  return {
+    results,
+    seeds: seedStream.slice(0, games),
+    sequential: {
+      stoppingRule: rule,
+      lookSchedule: { batchSize, maxGames: seedStream.length },
+      looks,
+      decision: {
+        reason: decisions.every((d) => d.winner !== null) ? 'conclusive' : 'budget',
+        games,
+        pairs: decisions,
+      },
+    },
+  };
+}
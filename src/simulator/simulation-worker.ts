@@ -0,0 +1,42 @@
+import { parentPort, workerData } from 'worker_threads';
+import { resolveStrategy } from '../strategies/registry';
+import { runSeedBatch } from './runner';
+import type { PerGameMetrics } from './runner';
+import { runCrossPlayBatch } from './cross-play';
+import type { SimulationWorkerData, SimulationWorkerMessage } from './parallel';
+
+/** Minimum time between progress messages, so large shards don't flood the parent. */
+const PROGRESS_INTERVAL_MS = 100;
+
+/**
+ * Worker entry for runSimulationParallel and runCrossPlayParallel: plays one seed shard, in
+ * self-play or as a cross-play pair, posting throttled progress and then the SeedBatchResult.
+ * Errors (e.g. the fail-fast invalid-action policy) propagate to the parent as worker errors.
+ */
+const { strategyName, partnerName, firstGameIndex, config, seeds } = workerData as SimulationWorkerData;
+const entry = resolveStrategy(strategyName, config.strategyDir);
+const partner = partnerName !== undefined ? resolveStrategy(partnerName, config.strategyDir) : undefined;
+
+const post = (msg: SimulationWorkerMessage) => parentPort!.postMessage(msg);
+let pendingGames = 0;
+let pendingScore = 0;
+let lastPost = performance.now();
+
+const onGame = (metrics: PerGameMetrics) => {
+  pendingGames++;
+  pendingScore += metrics.score;
+  const now = performance.now();
+  if (now - lastPost >= PROGRESS_INTERVAL_MS) {
+    post({ type: 'progress', games: pendingGames, scoreSum: pendingScore });
+    pendingGames = 0;
+    pendingScore = 0;
+    lastPost = now;
+  }
+};
+const batch = partner
+  ? runCrossPlayBatch(entry, partner, config, seeds, firstGameIndex, onGame)
+  : runSeedBatch(entry.factory(), config, seeds, onGame);
+if (pendingGames > 0) {
+  post({ type: 'progress', games: pendingGames, scoreSum: pendingScore });
+}
+post({ type: 'done', batch });
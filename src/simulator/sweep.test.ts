@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { planSweep, parseSweepSpec, createSweep, runSweep, getSweepStatus } from './sweep';
+import type { SweepSpec } from './sweep';
+import type { SimulationProgress } from './parallel';
+import { runSimulation } from './runner';
+import { createDefaultConfig } from '../config';
+import { DEFAULT_RULES, withHintMode } from '../engine/rules';
+import { writeResults } from '../storage/results-writer';
+
+const spec: SweepSpec = {
+  strategies: ['Random'],
+  strategyParams: { rngSeed: [1, 2] },
+  configParams: { lifeTokens: [1, 3] },
+};
+
+describe('planSweep', () => {
+  it('expands the grid row-major over a shared seed list', () => {
+    const plan = planSweep(spec, createDefaultConfig({ gameCount: 4 }));
+    expect(plan.dimensions.map((d) => d.name)).toEqual(['strategy', 'rngSeed', 'lifeTokens']);
+    expect(plan.cells.map((c) => c.name)).toEqual([
+      'Random{rngSeed=1} lifeTokens=1',
+      'Random{rngSeed=1} lifeTokens=3',
+      'Random{rngSeed=2} lifeTokens=1',
+      'Random{rngSeed=2} lifeTokens=3',
+    ]);
+    expect(plan.cells[1].values).toEqual({ strategy: 'Random', rngSeed: 1, lifeTokens: 3 });
+    expect(plan.cells[1].config.lifeTokens).toBe(3);
+    for (const cell of plan.cells) expect(cell.config.seedList).toEqual([0, 1, 2, 3]);
+  });
+
+  it('sweeps rule toggles and refuses cells a strategy cannot play', () => {
+    const config = createDefaultConfig({ rules: withHintMode(DEFAULT_RULES, 'empty-clues') });
+    const plan = planSweep(
+      { strategies: ['HintPartner'], configParams: { 'rules.fiveRefundsHint': [false, true] } },
+      config
+    );
+    expect(plan.cells[1].config.rules.fiveRefundsHint).toBe(true);
+    expect(() =>
+      planSweep(
+        { strategies: ['HintPartner'], configParams: { 'rules.allowEmptyNumberHints': [true, false] } },
+        config
+      )
+    ).toThrow(/rules.allowEmptyNumberHints=false.*requires 'empty-clues'/);
+  });
+
+  it('reports invalid grids before anything runs', () => {
+    const config = createDefaultConfig();
+    expect(() => planSweep({ ...spec, configParams: { lifeTokens: [1, 4] } }, config)).toThrow(
+      "Sweep cell 'Random lifeTokens=4': lifeTokens must be between 1 and 3"
+    );
+    expect(() => planSweep({ ...spec, configParams: { gameCount: [1, 2] } }, config)).toThrow(
+      /cannot be swept/
+    );
+    expect(() => planSweep({ ...spec, strategies: ['Random{rngSeed=3}'] }, config)).toThrow(
+      /fixed in Random\{rngSeed=3\} and also swept/
+    );
+    expect(() => planSweep({ ...spec, strategyParams: { rngSeed: [1, 1] } }, config)).toThrow(
+      /lists 1 twice/
+    );
+    expect(() => planSweep({ ...spec, strategyParams: { depth: [1] } }, config)).toThrow(
+      /Unknown parameter 'depth'/
+    );
+  });
+});
+
+describe('parseSweepSpec', () => {
+  it('rejects malformed input', () => {
+    expect(parseSweepSpec({ strategies: ['Random'] })).toEqual({ strategies: ['Random'] });
+    expect(() => parseSweepSpec({ strategies: 'Random' })).toThrow(/strategies/);
+    expect(() => parseSweepSpec({ strategies: [], configParams: { lifeTokens: 2 } })).toThrow(
+      'sweep.configParams.lifeTokens must be an array'
+    );
+    expect(() => parseSweepSpec({ strategies: [], extra: 1 })).toThrow('Unknown sweep field: extra');
+  });
+});
+
+describe('runSweep', () => {
+  let baseDir: string;
+
+  beforeEach(() => {
+    baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hanabi-sweep-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it('gives each cell the same results as a plain run of its config', async () => {
+    const config = createDefaultConfig({ gameCount: 5 });
+    const dir = createSweep(spec, config, baseDir);
+    const result = await runSweep(dir, { workerCount: 2 });
+
+    expect(result.results.map((r) => r.name)).toEqual(result.cells.map((c) => c.name));
+    const cell = result.cells[3];
+    const plain = runSimulation(createDefaultConfig({ gameCount: 5, lifeTokens: 3 }), [cell.strategyName]);
+    expect(result.results[3].scores).toEqual(plain.results[0].scores);
+    expect(result.results[3].perGameMetrics).toEqual(plain.results[0].perGameMetrics);
+  });
+
+  it('resumes a cancelled sweep without rerunning finished cells', async () => {
+    const dir = createSweep(spec, createDefaultConfig({ gameCount: 20 }), baseDir);
+    const controller = new AbortController();
+    await expect(
+      runSweep(dir, {
+        workerCount: 1,
+        signal: controller.signal,
+        onProgress: (p) => {
+          if (p.strategyIndex === 2) controller.abort();
+        },
+      })
+    ).rejects.toThrow('Simulation cancelled');
+    expect(getSweepStatus(dir)).toEqual({ cellCount: 4, cellsDone: 2 });
+
+    const updates: SimulationProgress[] = [];
+    const result = await runSweep(dir, { workerCount: 1, onProgress: (p) => updates.push(p) });
+    expect(new Set(updates.map((p) => p.strategyIndex))).toEqual(new Set([2, 3]));
+    expect(updates[updates.length - 1]).toMatchObject({ strategyCount: 4, etaMs: 0 });
+    expect(getSweepStatus(dir)).toEqual({ cellCount: 4, cellsDone: 4 });
+    expect(result.results.every((r) => r.scores.length === 20)).toBe(true);
+  });
+
+  it('writes the tidy table alongside the usual result files', async () => {
+    const config = createDefaultConfig({ gameCount: 3 });
+    const dir = createSweep(spec, config, baseDir);
+    const sweep = await runSweep(dir, { workerCount: 1 });
+    writeResults({ results: sweep.results, seeds: sweep.seeds }, config, { sweep, resultsDir: dir });
+
+    const summary = JSON.parse(fs.readFileSync(path.join(dir, 'summary.json'), 'utf-8'));
+    expect(summary.mode).toBe('sweep');
+    expect(summary.strategyNames).toHaveLength(4);
+    const table = JSON.parse(fs.readFileSync(path.join(dir, 'sweep.json'), 'utf-8'));
+    expect(table.gameCount).toBe(3);
+    expect(table.rows[2]).toMatchObject({
+      name: 'Random{rngSeed=2} lifeTokens=1',
+      values: { strategy: 'Random', rngSeed: 2, lifeTokens: 1 },
+    });
+    const csv = fs.readFileSync(path.join(dir, 'sweep.csv'), 'utf-8').trim().split('\n');
+    expect(csv[0]).toBe('name,strategy,rngSeed,lifeTokens,avgScore,stdError,ci95Lower,ci95Upper,perfectRate');
+    expect(csv).toHaveLength(5);
+  });
+});
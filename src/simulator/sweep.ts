@@ -0,0 +1,322 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { GameConfig } from '../config';
+import { validateGameConfig } from '../config/validate';
+import type { StrategyParamValue } from '../strategies/parameters';
+import { parseStrategySpec } from '../strategies/parameters';
+import { createResultsDir } from '../storage/results-writer';
+import type { StrategyResult } from './runner';
+import { getSeeds, selectStrategies } from './runner';
+import type { ParallelRunOptions } from './parallel';
+import { runSimulationParallel } from './parallel';
+
+export type SweepValue = StrategyParamValue;
+
+/**
+ * A parameter grid: every strategy crossed with every combination of the listed strategy
+ * parameter values and config field values. Config fields are GameConfig keys or 'rules.<key>'.
+ */
+export interface SweepSpec {
+  /** Strategy names or named instances; a swept parameter may not also be fixed here. */
+  strategies: string[];
+  strategyParams?: Record<string, SweepValue[]>;
+  configParams?: Record<string, SweepValue[]>;
+}
+
+/** One axis of the grid. The first is always 'strategy'. */
+export interface SweepDimension {
+  name: string;
+  values: SweepValue[];
+}
+
+export interface SweepCell {
+  index: number;
+  /** Unique label: the strategy instance plus swept config values, e.g. `Random{rngSeed=7} lifeTokens=1`. */
+  name: string;
+  /** Canonical strategy instance name, swept parameters included. */
+  strategyName: string;
+  values: Record<string, SweepValue>;
+  config: GameConfig;
+}
+
+export interface SweepPlan {
+  spec: SweepSpec;
+  /** The base config as every cell shares it (normal logging mode). */
+  config: GameConfig;
+  seeds: number[];
+  dimensions: SweepDimension[];
+  cells: SweepCell[];
+}
+
+/** A finished sweep; results[i] belongs to cells[i] and is named after it. */
+export interface SweepResult {
+  dimensions: SweepDimension[];
+  cells: SweepCell[];
+  results: StrategyResult[];
+  seeds: number[];
+}
+
+export interface SweepStatus {
+  cellCount: number;
+  cellsDone: number;
+}
+
+export interface SweepRunOptions extends ParallelRunOptions {
+  /** See GameConfig.strategyDir; not stored with the sweep, so pass it again when resuming. */
+  strategyDir?: string;
+}
+
+/** Largest grid accepted; each cell is a full run over the shared seed list. */
+export const MAX_SWEEP_CELLS = 1000;
+
+/** Fields every cell must share: the seed list makes cells comparable, and traces aren't kept. */
+const SHARED_CONFIG_FIELDS = ['gameCount', 'seedList', 'loggingMode', 'strategyDir'];
+
+const MANIFEST_FILE = 'sweep-manifest.json';
+const CELLS_DIR = 'cells';
+
+/** What's stored when a sweep is created: enough to plan it again and check nothing moved. */
+interface SweepManifest {
+  spec: SweepSpec;
+  config: GameConfig;
+  cellNames: string[];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSweepValue(value: unknown): value is SweepValue {
+  return ['number', 'boolean', 'string'].includes(typeof value);
+}
+
+function parseValueLists(input: unknown, field: string): Record<string, SweepValue[]> | undefined {
+  if (input === undefined) return undefined;
+  if (!isObject(input)) throw new Error(`${field} must be an object of value lists`);
+  for (const [name, values] of Object.entries(input)) {
+    if (!Array.isArray(values) || !values.every(isSweepValue)) {
+      throw new Error(`${field}.${name} must be an array of numbers, booleans or strings`);
+    }
+  }
+  return input as Record<string, SweepValue[]>;
+}
+
+/** Checks the shape of a SweepSpec from untrusted input; planSweep checks the values. */
+export function parseSweepSpec(input: unknown): SweepSpec {
+  if (!isObject(input)) throw new Error('sweep must be an object');
+  const { strategies, strategyParams, configParams, ...rest } = input;
+  const unknown = Object.keys(rest);
+  if (unknown.length > 0) throw new Error(`Unknown sweep field: ${unknown[0]}`);
+  if (!Array.isArray(strategies) || !strategies.every((s) => typeof s === 'string')) {
+    throw new Error('sweep.strategies must be an array of strategy names');
+  }
+  return {
+    strategies,
+    ...(strategyParams !== undefined && {
+      strategyParams: parseValueLists(strategyParams, 'sweep.strategyParams'),
+    }),
+    ...(configParams !== undefined && {
+      configParams: parseValueLists(configParams, 'sweep.configParams'),
+    }),
+  };
+}
+
+/** Adds swept parameter values to a strategy spec, refusing one it already fixes. */
+function strategyInstanceSpec(spec: string, swept: [string, SweepValue][]): string {
+  const { name, params } = parseStrategySpec(spec);
+  for (const [param] of swept) {
+    if (param in params) throw new Error(`Parameter '${param}' is fixed in ${spec} and also swept`);
+  }
+  const parts = [...Object.entries(params), ...swept].map(([k, v]) => `${k}=${String(v)}`);
+  return parts.length > 0 ? `${name}{${parts.join(',')}}` : name;
+}
+
+function cellConfig(
+  base: Omit<GameConfig, 'strategyDir'>,
+  seeds: number[],
+  fields: [string, SweepValue][]
+): ReturnType<typeof validateGameConfig> {
+  const input: Record<string, unknown> = {
+    ...base,
+    rules: { ...base.rules },
+    seedList: seeds,
+    loggingMode: 'normal',
+  };
+  for (const [field, value] of fields) {
+    if (field.startsWith('rules.')) {
+      (input.rules as Record<string, unknown>)[field.slice('rules.'.length)] = value;
+    } else {
+      input[field] = value;
+    }
+  }
+  return validateGameConfig(input);
+}
+
+/**
+ * Expands a spec into cells over config's seed list, checking every cell up front: strategy
+ * names and parameters, config values and hint-mode compatibility. Throws naming the first
+ * problem. Cells run in normal logging mode.
+ */
+export function planSweep(spec: SweepSpec, config: GameConfig): SweepPlan {
+  if (spec.strategies.length === 0) throw new Error('A sweep needs at least one strategy');
+  const strategyParams = Object.entries(spec.strategyParams ?? {});
+  const configParams = Object.entries(spec.configParams ?? {});
+  for (const [field] of configParams) {
+    if (SHARED_CONFIG_FIELDS.includes(field)) {
+      throw new Error(`Config field '${field}' is shared by every sweep cell and cannot be swept`);
+    }
+  }
+
+  const dimensions: SweepDimension[] = [
+    { name: 'strategy', values: spec.strategies },
+    ...[...strategyParams, ...configParams].map(([name, values]) => ({ name, values })),
+  ];
+  const names = new Set<string>();
+  let cellCount = 1;
+  for (const { name, values } of dimensions) {
+    if (names.has(name)) throw new Error(`Sweep dimension '${name}' is given twice`);
+    names.add(name);
+    if (values.length === 0) throw new Error(`Sweep dimension '${name}' has no values`);
+    const repeated = values.find((v, i) => values.indexOf(v) !== i);
+    if (repeated !== undefined) {
+      throw new Error(`Sweep dimension '${name}' lists ${String(repeated)} twice`);
+    }
+    cellCount *= values.length;
+  }
+  if (cellCount > MAX_SWEEP_CELLS) {
+    throw new Error(`Sweep has ${cellCount} cells; the limit is ${MAX_SWEEP_CELLS}`);
+  }
+
+  const { strategyDir, ...base } = config;
+  const seeds = getSeeds(config);
+  const cells: SweepCell[] = [];
+  for (let index = 0; index < cellCount; index++) {
+    // Row-major: the last dimension varies fastest
+    const values: Record<string, SweepValue> = {};
+    let rest = index;
+    for (let d = dimensions.length - 1; d >= 0; d--) {
+      const { name, values: axis } = dimensions[d];
+      values[name] = axis[rest % axis.length];
+      rest = Math.floor(rest / axis.length);
+    }
+    const configValues = configParams.map(([field]): [string, SweepValue] => [field, values[field]]);
+    const label = [String(values.strategy), ...configValues.map(([f, v]) => `${f}=${String(v)}`)].join(' ');
+
+    const validated = cellConfig(base, seeds, configValues);
+    if (!validated.ok) {
+      const errors = validated.errors.map((e) => `${e.field} ${e.message}`).join('; ');
+      throw new Error(`Sweep cell '${label}': ${errors}`);
+    }
+    const cellConfigWithDir = strategyDir ? { ...validated.config, strategyDir } : validated.config;
+    let strategyName: string;
+    try {
+      const instance = strategyInstanceSpec(
+        String(values.strategy),
+        strategyParams.map(([param]) => [param, values[param]])
+      );
+      strategyName = selectStrategies(cellConfigWithDir, [instance])[0].name;
+    } catch (err) {
+      throw new Error(`Sweep cell '${label}': ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    const name = [strategyName, ...configValues.map(([f, v]) => `${f}=${String(v)}`)].join(' ');
+    if (cells.some((c) => c.name === name)) {
+      throw new Error(`Sweep cells '${name}' coincide; two strategies name the same instance`);
+    }
+    cells.push({ index, name, strategyName, values, config: cellConfigWithDir });
+  }
+
+  return { spec, config: { ...config, loggingMode: 'normal' }, seeds, dimensions, cells };
+}
+
+function cellPath(dir: string, index: number): string {
+  return path.join(dir, CELLS_DIR, `cell-${index}.json`);
+}
+
+function readManifest(dir: string): SweepManifest {
+  const file = path.join(dir, MANIFEST_FILE);
+  if (!fs.existsSync(file)) throw new Error(`Not a sweep directory: ${dir}`);
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as SweepManifest;
+}
+
+export function isSweepDir(dir: string): boolean {
+  return fs.existsSync(path.join(dir, MANIFEST_FILE));
+}
+
+/**
+ * Plans the sweep and creates its results directory under baseDir with the manifest that
+ * runSweep resumes from. Returns the directory.
+ */
+export function createSweep(spec: SweepSpec, config: GameConfig, baseDir = process.cwd()): string {
+  const plan = planSweep(spec, config);
+  const dir = createResultsDir(baseDir);
+  const { strategyDir, ...stored } = config;
+  const manifest: SweepManifest = { spec, config: stored, cellNames: plan.cells.map((c) => c.name) };
+  fs.writeFileSync(path.join(dir, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+  return dir;
+}
+
+/**
+ * Plans a created sweep again from its manifest. Throws if the cells no longer match, e.g. when
+ * a strategy's parameter schema changed since the sweep started.
+ */
+export function loadSweep(dir: string, strategyDir?: string): SweepPlan {
+  const manifest = readManifest(dir);
+  const plan = planSweep(manifest.spec, { ...manifest.config, ...(strategyDir && { strategyDir }) });
+  const names = plan.cells.map((c) => c.name);
+  if (names.length !== manifest.cellNames.length || names.some((n, i) => n !== manifest.cellNames[i])) {
+    throw new Error(`Sweep in ${dir} no longer matches its manifest; start a new sweep`);
+  }
+  return plan;
+}
+
+export function getSweepStatus(dir: string): SweepStatus {
+  const { cellNames } = readManifest(dir);
+  const cellsDone = cellNames.filter((_, i) => fs.existsSync(cellPath(dir, i))).length;
+  return { cellCount: cellNames.length, cellsDone };
+}
+
+/**
+ * Runs the cells of a created sweep that have no result yet, saving each as it finishes, so an
+ * interrupted or cancelled sweep picks up where it stopped. Progress is reported per cell (named
+ * after the cell) with an ETA over the remaining cells.
+ */
+export async function runSweep(dir: string, options: SweepRunOptions = {}): Promise<SweepResult> {
+  const plan = loadSweep(dir, options.strategyDir);
+  fs.mkdirSync(path.join(dir, CELLS_DIR), { recursive: true });
+  const pending = plan.cells.filter((c) => !fs.existsSync(cellPath(dir, c.index)));
+  const totalGames = pending.length * plan.seeds.length;
+  const runStart = performance.now();
+  let gamesBefore = 0;
+
+  for (const cell of pending) {
+    const onProgress = options.onProgress;
+    const { results } = await runSimulationParallel(cell.config, [cell.strategyName], {
+      workerCount: options.workerCount,
+      signal: options.signal,
+      onProgress:
+        onProgress &&
+        ((progress) => {
+          const done = gamesBefore + progress.gamesDone;
+          const elapsed = performance.now() - runStart;
+          onProgress({
+            ...progress,
+            strategyName: cell.name,
+            strategyIndex: cell.index,
+            strategyCount: plan.cells.length,
+            etaMs: done > 0 ? (elapsed / done) * (totalGames - done) : 0,
+          });
+        }),
+    });
+    // Written under a temporary name and renamed, so a killed process never leaves half a cell
+    const file = cellPath(dir, cell.index);
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify({ ...results[0], name: cell.name }));
+    fs.renameSync(`${file}.tmp`, file);
+    gamesBefore += plan.seeds.length;
+  }
+
+  const results = plan.cells.map(
+    (c) => JSON.parse(fs.readFileSync(cellPath(dir, c.index), 'utf-8')) as StrategyResult
+  );
+  return { dimensions: plan.dimensions, cells: plan.cells, results, seeds: plan.seeds };
+}
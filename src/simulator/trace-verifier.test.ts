@@ -0,0 +1,131 @@
+import { verifyTrace, traceStateAt, formatTraceVerification } from './trace-verifier';
+import { runSimulation } from './runner';
+import type { GameTrace } from './runner';
+import { createDefaultConfig } from '../config';
+import { DEFAULT_RULES, withHintMode } from '../engine/rules';
+
+function traces(): GameTrace[] {
+  const config = createDefaultConfig({
+    gameCount: 4,
+    loggingMode: 'debug',
+    variant: 'rainbow',
+    rules: withHintMode(DEFAULT_RULES, 'empty-clues'),
+  });
+  return runSimulation(config, ['HintPartner']).results[0].traces!;
+}
+
+/** A trace as written before rules, player count, variant and starting tokens were recorded. */
+function legacyTrace(): GameTrace {
+  const config = createDefaultConfig({
+    gameCount: 1,
+    loggingMode: 'debug',
+    rules: withHintMode(DEFAULT_RULES, 'empty-clues'),
+  });
+  const [trace] = runSimulation(config, ['HintPartner']).results[0].traces!;
+  const { rules: _r, playerCount: _p, variant: _v, hintTokens: _h, lifeTokens: _l, ...legacy } = trace;
+  return legacy;
+}
+
+describe('verifyTrace', () => {
+  const all = traces();
+  const trace = all[0];
+
+  it('accepts traces written by the runner', () => {
+    for (const t of all) {
+      expect(verifyTrace(t)).toMatchObject({ ok: true, problems: [], eventsReplayed: t.events.length });
+    }
+  });
+
+  it('accepts traces from before starting tokens were recorded', () => {
+    const { hintTokens: _h, lifeTokens: _l, ...older } = trace;
+    expect(verifyTrace(older)).toMatchObject({ ok: true, inferredTokens: true });
+  });
+
+  it('accepts traces from before rules, player count and variant were recorded', () => {
+    const legacy = legacyTrace();
+    expect(verifyTrace(legacy)).toMatchObject({ ok: true, problems: [], eventsReplayed: legacy.events.length });
+  });
+
+  it('reports a deck that is not the seed shuffle', () => {
+    const [first, second, ...rest] = trace.initialDeckOrder;
+    const result = verifyTrace({ ...trace, initialDeckOrder: [second, first, ...rest] });
+    expect(result.ok).toBe(false);
+    expect(result.problems[0]).toMatchObject({ kind: 'deck' });
+    expect(result.problems[0].message).toMatch(/^initialDeckOrder\[0\]/);
+  });
+
+  it('stops at the first illegal event and names its turn', () => {
+    const turn = 5;
+    const events = trace.events.map((e, i) => (i === turn ? { ...e, playerIndex: e.playerIndex, cardIndex: 7 } : e));
+    const result = verifyTrace({ ...trace, events: events as GameTrace['events'] });
+    expect(result.ok).toBe(false);
+    expect(result.eventsReplayed).toBe(turn);
+    expect(result.problems).toHaveLength(1);
+    expect(result.problems[0]).toMatchObject({ turn });
+  });
+
+  it('reports an edited outcome as a mismatch', () => {
+    const turn = trace.events.findIndex((e) => e.type === 'play');
+    const events = trace.events.map((e, i) => (i === turn && e.type === 'play' ? { ...e, success: !e.success } : e));
+    const result = verifyTrace({ ...trace, events });
+    expect(result.problems).toEqual([{ kind: 'event-mismatch', turn, message: expect.stringMatching(/^success recorded/) }]);
+  });
+
+  it('reports events after the end of the game', () => {
+    const events = [...trace.events, trace.events[trace.events.length - 1]];
+    const result = verifyTrace({ ...trace, events });
+    expect(result.problems[0]).toMatchObject({ kind: 'illegal-event', turn: trace.events.length });
+  });
+
+  it('reports a final state the events do not lead to', () => {
+    const result = verifyTrace({
+      ...trace,
+      finalState: { ...trace.finalState, score: trace.finalState.score + 1, hintsRemaining: 99 },
+    });
+    expect(result.problems.map((p) => p.message.split(' ')[0])).toEqual([
+      'finalState.score',
+      'finalState.hintsRemaining',
+    ]);
+    expect(verifyTrace({ ...trace, events: trace.events.slice(0, 3) }).problems).toEqual([
+      { kind: 'final-state', message: 'the events end before the game does (turn 3)' },
+    ]);
+  });
+
+  it('formats problems with their turns', () => {
+    const events = trace.events.map((e, i) => (i === 2 ? { ...e, playerIndex: 1 - e.playerIndex } : e));
+    const text = formatTraceVerification('t.json', verifyTrace({ ...trace, events }));
+    expect(text).toBe('t.json: 1 problem\n  turn 2 event-mismatch: playerIndex recorded ' +
+      `${1 - trace.events[2].playerIndex}, engine ${trace.events[2].playerIndex}`);
+    expect(formatTraceVerification('t.json', verifyTrace(trace))).toBe(`t.json: ok, ${trace.events.length} events`);
+  });
+});
+
+describe('traceStateAt', () => {
+  const [trace] = traces();
+
+  it('rebuilds the state at any event index', () => {
+    expect(traceStateAt(trace, 0).actionHistory).toEqual([]);
+    const middle = Math.floor(trace.events.length / 2);
+    const state = traceStateAt(trace, middle);
+    expect(state.actionHistory).toEqual(trace.events.slice(0, middle));
+    expect(state.currentPlayer).toBe(trace.events[middle].playerIndex);
+    const end = traceStateAt(trace, trace.events.length);
+    expect(end.gameOver).toBe(true);
+    expect(end.discardPile).toEqual(trace.finalState.discardPile);
+  });
+
+  it('rebuilds traces from before rules, player count and variant were recorded', () => {
+    const legacy = legacyTrace();
+    const start = traceStateAt(legacy, 0);
+    expect(start).toMatchObject({ playerCount: 2, variantId: 'standard' });
+    expect(start.rules.allowEmptyNumberHints).toBe(true);
+    const end = traceStateAt(legacy, legacy.events.length);
+    expect(end.gameOver).toBe(true);
+    expect(end.playedStacks).toEqual(legacy.finalState.playedStacks);
+  });
+
+  it('rejects indices outside the trace', () => {
+    expect(() => traceStateAt(trace, trace.events.length + 1)).toThrow('from 0 to');
+    expect(() => traceStateAt(trace, -1)).toThrow('from 0 to');
+  });
+});
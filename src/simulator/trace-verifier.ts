@@ -0,0 +1,170 @@
+import type { GameTrace } from './runner';
+import { createTraceState, eventToAction, eventMismatches, traceSetup } from './replay';
+import type { GameState } from '../engine/game-state';
+import { executeAction, forfeitGame, calculateFinalScore } from '../engine/game-engine';
+import type { GameEvent } from '../engine/events';
+import type { Card } from '../engine/types';
+import { createDeck, shuffleDeck } from '../engine/deck';
+import { getVariant } from '../engine/variants';
+
+/**
+ * What is wrong with a trace:
+ * - 'deck': initialDeckOrder is not the seed's shuffle;
+ * - 'illegal-event': the engine rejects the event's action (or the game was already over);
+ * - 'event-mismatch': the action is legal but the recorded outcome differs from the engine's;
+ * - 'final-state': the events replay but finalState does not match where they lead.
+ */
+export type TraceProblemKind = 'deck' | 'illegal-event' | 'event-mismatch' | 'final-state';
+
+export interface TraceProblem {
+  kind: TraceProblemKind;
+  /** Index of the offending event; omitted for the deck and the final state. */
+  turn?: number;
+  message: string;
+}
+
+export interface TraceVerification {
+  ok: boolean;
+  seed: number;
+  /** Events the engine replayed before the first illegal one (all of them if none is). */
+  eventsReplayed: number;
+  eventCount: number;
+  /** True when the trace predates recorded starting tokens and they were inferred. */
+  inferredTokens: boolean;
+  problems: TraceProblem[];
+}
+
+function describeCard(card: Card | undefined): string {
+  return card ? `${card.color}/${card.value} (id ${card.id})` : 'nothing';
+}
+
+function checkDeck(trace: GameTrace): TraceProblem | null {
+  const expected = shuffleDeck(createDeck(getVariant(traceSetup(trace).variant)), trace.seed);
+  const recorded = trace.initialDeckOrder;
+  const length = Math.max(expected.length, recorded.length);
+  for (let i = 0; i < length; i++) {
+    const a = recorded[i];
+    const b = expected[i];
+    if (a?.id !== b?.id || a?.color !== b?.color || a?.value !== b?.value) {
+      return {
+        kind: 'deck',
+        message:
+          `initialDeckOrder[${i}] is ${describeCard(a)} but seed ${trace.seed} deals ${describeCard(b)}` +
+          (recorded.length !== expected.length ? ` (${recorded.length} cards recorded, ${expected.length} dealt)` : ''),
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Applies one recorded event; returns the problem instead of throwing, so verification can
+ * report it with the turn.
+ */
+function applyEvent(state: GameState, event: GameEvent, turn: number): TraceProblem | null {
+  if (state.gameOver) {
+    return { kind: 'illegal-event', turn, message: `the game was already over (${state.endReason})` };
+  }
+  let replayed: GameEvent;
+  try {
+    replayed = executeAction(state, eventToAction(event));
+  } catch (err) {
+    return { kind: 'illegal-event', turn, message: err instanceof Error ? err.message : String(err) };
+  }
+  const mismatches = eventMismatches(event, replayed);
+  if (mismatches.length === 0) return null;
+  const fields = mismatches
+    .map((key) => {
+      const recorded = JSON.stringify((event as Record<string, unknown>)[key]);
+      const actual = JSON.stringify((replayed as Record<string, unknown>)[key]);
+      return `${key} recorded ${recorded}, engine ${actual}`;
+    })
+    .join('; ');
+  return { kind: 'event-mismatch', turn, message: fields };
+}
+
+function checkFinalState(trace: GameTrace, state: GameState): TraceProblem[] {
+  if (!state.gameOver) {
+    return [{ kind: 'final-state', message: `the events end before the game does (turn ${trace.events.length})` }];
+  }
+  const recorded = trace.finalState;
+  const actual = {
+    score: calculateFinalScore(state),
+    livesRemaining: state.lifeTokens,
+    hintsRemaining: state.hintTokens,
+    endReason: state.endReason,
+    playedStacks: state.playedStacks,
+    discardPile: state.discardPile,
+  };
+  return (Object.keys(actual) as (keyof typeof actual)[])
+    .filter((key) => JSON.stringify(recorded[key]) !== JSON.stringify(actual[key]))
+    .map((key) => ({
+      kind: 'final-state' as const,
+      message: `finalState.${key} is ${JSON.stringify(recorded[key])}, the events lead to ${JSON.stringify(actual[key])}`,
+    }));
+}
+
+/**
+ * Checks a trace against the engine: the deck is the seed's shuffle, every event is legal and has
+ * the recorded outcome, and finalState is where the events lead. Replay stops at the first bad
+ * event, since later turns would be judged against a state the trace never had.
+ */
+export function verifyTrace(trace: GameTrace): TraceVerification {
+  const problems: TraceProblem[] = [];
+  const deckProblem = checkDeck(trace);
+  if (deckProblem) problems.push(deckProblem);
+
+  const state = createTraceState(trace);
+  let eventsReplayed = 0;
+  for (const [turn, event] of trace.events.entries()) {
+    const problem = applyEvent(state, event, turn);
+    if (problem) {
+      problems.push(problem);
+      break;
+    }
+    eventsReplayed++;
+  }
+  if (eventsReplayed === trace.events.length) {
+    if (trace.finalState.endReason === 'forfeit' && !state.gameOver) forfeitGame(state);
+    problems.push(...checkFinalState(trace, state));
+  }
+
+  return {
+    ok: problems.length === 0,
+    seed: trace.seed,
+    eventsReplayed,
+    eventCount: trace.events.length,
+    inferredTokens: trace.hintTokens === undefined || trace.lifeTokens === undefined,
+    problems,
+  };
+}
+
+/**
+ * The game's full state before events[index] (0 is the deal, events.length the end of the game).
+ * Throws, naming the turn, if an earlier event does not replay.
+ */
+export function traceStateAt(trace: GameTrace, index: number): GameState {
+  if (!Number.isInteger(index) || index < 0 || index > trace.events.length) {
+    throw new Error(`Event index must be an integer from 0 to ${trace.events.length}`);
+  }
+  const state = createTraceState(trace);
+  for (let turn = 0; turn < index; turn++) {
+    const problem = applyEvent(state, trace.events[turn], turn);
+    if (problem) throw new Error(`Turn ${turn}: ${problem.message}`);
+  }
+  if (index === trace.events.length && trace.finalState.endReason === 'forfeit' && !state.gameOver) {
+    forfeitGame(state);
+  }
+  return state;
+}
+
+export function formatTraceVerification(label: string, result: TraceVerification): string {
+  const tokens = result.inferredTokens
+    ? ' (starting tokens inferred: the trace predates recording them)'
+    : '';
+  if (result.ok) return `${label}: ok, ${result.eventCount} events${tokens}`;
+  return [
+    `${label}: ${result.problems.length} problem${result.problems.length === 1 ? '' : 's'}${tokens}`,
+    ...result.problems.map((p) => `  ${p.turn !== undefined ? `turn ${p.turn} ` : ''}${p.kind}: ${p.message}`),
+  ].join('\n');
+}
@@ -0,0 +1,56 @@
+import { adjustPValues, compareAllPairs, formatLeaderboard } from './comparisons';
+
+describe('adjustPValues', () => {
+  const pValues = [0.01, 0.04, 0.03, 0.005];
+
+  it('applies the Holm step-down adjustment', () => {
+    const adjusted = adjustPValues(pValues, 'holm');
+    [0.03, 0.06, 0.06, 0.02].forEach((expected, i) => expect(adjusted[i]).toBeCloseTo(expected, 12));
+  });
+
+  it('applies the Benjamini–Hochberg step-up adjustment', () => {
+    const adjusted = adjustPValues(pValues, 'bh');
+    [0.02, 0.04, 0.04, 0.02].forEach((expected, i) => expect(adjusted[i]).toBeCloseTo(expected, 12));
+  });
+
+  it('caps adjusted values at 1', () => {
+    expect(adjustPValues([0.6, 0.9], 'holm')).toEqual([1, 1]);
+  });
+});
+
+describe('compareAllPairs', () => {
+  const base = Array.from({ length: 40 }, (_, i) => 10 + (i % 5));
+  const results = [
+    { name: 'Weak', scores: base.map((s) => s - 3) },
+    { name: 'Strong', scores: base.map((s, i) => s + 2 + (i % 2) * 0.1) },
+    { name: 'AlsoStrong', scores: base.map((s, i) => s + 2 + ((i + 1) % 2) * 0.1) },
+  ];
+
+  it('compares every pair once and groups indistinguishable strategies into tiers', () => {
+    const matrix = compareAllPairs(results);
+    expect(matrix.pairs.map((p) => [p.a, p.b])).toEqual([
+      ['Weak', 'Strong'],
+      ['Weak', 'AlsoStrong'],
+      ['Strong', 'AlsoStrong'],
+    ]);
+    expect(matrix.pairs[0].significant).toBe(true);
+    expect(matrix.pairs[2].significant).toBe(false);
+    expect(matrix.leaderboard.map((e) => [e.name, e.tier])).toEqual([
+      ['Strong', 1],
+      ['AlsoStrong', 1],
+      ['Weak', 2],
+    ]);
+    expect(matrix).toMatchObject({ test: 'paired-t', correction: 'holm', alpha: 0.05, gameCount: 40 });
+  });
+
+  it('formats the ranking for the CLI', () => {
+    const text = formatLeaderboard(compareAllPairs(results, { test: 'wilcoxon', correction: 'bh' }));
+    expect(text.split('\n')).toEqual([
+      'Ranking (Wilcoxon signed-rank test, Benjamini–Hochberg correction, α = 0.05):',
+      '  1. [tier 1] Strong      avg 14.05',
+      '  2. [tier 1] AlsoStrong  avg 14.05',
+      '  3. [tier 2] Weak        avg 9.00',
+      '2 of 3 pairs differ significantly.',
+    ]);
+  });
+});
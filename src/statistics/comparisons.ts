@@ -0,0 +1,163 @@
+import type { ComparisonTest } from './metrics';
+import { compareScores, COMPARISON_TESTS } from './metrics';
+
+export type PValueCorrection = 'holm' | 'bh';
+
+/** Display names; the keys are the values accepted by compareAllPairs and the API. */
+export const P_VALUE_CORRECTIONS: Record<PValueCorrection, string> = {
+  holm: 'Holm–Bonferroni',
+  bh: 'Benjamini–Hochberg',
+};
+
+export function isPValueCorrection(value: unknown): value is PValueCorrection {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(P_VALUE_CORRECTIONS, value);
+}
+
+/** More strategies than this are not compared pairwise (the pair count grows quadratically). */
+export const MAX_ALL_PAIRS_STRATEGIES = 50;
+
+export interface PairwiseComparison {
+  a: string;
+  b: string;
+  /** mean(A) − mean(B). */
+  meanDiff: number;
+  pValue: number;
+  /** pValue after the matrix's multiple-comparison correction. */
+  adjustedPValue: number;
+  significant: boolean;
+  /** 1 if the test favors A, -1 if B, 0 if neither. */
+  direction: -1 | 0 | 1;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  name: string;
+  avgScore: number;
+  /**
+   * 1 for the best group. A strategy shares its tier with the tier's top strategy when the two
+   * aren't significantly different after correction.
+   */
+  tier: number;
+}
+
+export interface ComparisonMatrix {
+  test: ComparisonTest;
+  correction: PValueCorrection;
+  alpha: number;
+  gameCount: number;
+  /** Every unordered pair once, in run order (A before B). */
+  pairs: PairwiseComparison[];
+  leaderboard: LeaderboardEntry[];
+}
+
+export interface AllPairsOptions {
+  test?: ComparisonTest;
+  correction?: PValueCorrection;
+  /** Family-wise error rate (Holm) or false discovery rate (BH); default 0.05. */
+  alpha?: number;
+}
+
+/**
+ * Adjusted p-values, in input order. Holm controls the family-wise error rate; Benjamini–Hochberg
+ * controls the false discovery rate and rejects more when many differences are real.
+ */
+export function adjustPValues(pValues: number[], correction: PValueCorrection): number[] {
+  const m = pValues.length;
+  const order = pValues.map((_, i) => i).sort((i, j) => pValues[i] - pValues[j]);
+  const adjusted = new Array<number>(m);
+  if (correction === 'holm') {
+    let running = 0;
+    order.forEach((index, k) => {
+      running = Math.max(running, Math.min(1, (m - k) * pValues[index]));
+      adjusted[index] = running;
+    });
+  } else {
+    let running = 1;
+    for (let k = m - 1; k >= 0; k--) {
+      const index = order[k];
+      running = Math.min(running, (m / (k + 1)) * pValues[index]);
+      adjusted[index] = running;
+    }
+  }
+  return adjusted;
+}
+
+function mean(arr: number[]): number {
+  return arr.length === 0 ? 0 : arr.reduce((a, b) => a + b, 0) / arr.length;
+}
+
+/**
+ * Compares every pair of strategies with one test, corrects the p-values for the number of
+ * pairs and ranks the strategies by mean score into tiers of statistically indistinguishable
+ * strategies. Score lists must follow the same seeds for the paired tests.
+ */
+export function compareAllPairs(
+  results: { name: string; scores: number[] }[],
+  options: AllPairsOptions = {}
+): ComparisonMatrix {
+  const test = options.test ?? 'paired-t';
+  const correction = options.correction ?? 'holm';
+  const alpha = options.alpha ?? 0.05;
+  if (results.length > MAX_ALL_PAIRS_STRATEGIES) {
+    throw new Error(`All-pairs comparison is limited to ${MAX_ALL_PAIRS_STRATEGIES} strategies`);
+  }
+
+  const raw: Omit<PairwiseComparison, 'adjustedPValue' | 'significant'>[] = [];
+  for (let i = 0; i < results.length; i++) {
+    for (let j = i + 1; j < results.length; j++) {
+      const c = compareScores(results[i].scores, results[j].scores, test);
+      raw.push({
+        a: results[i].name,
+        b: results[j].name,
+        meanDiff: c.meanDiff,
+        pValue: c.pValue,
+        direction: c.direction,
+      });
+    }
+  }
+  const adjusted = adjustPValues(raw.map((p) => p.pValue), correction);
+  const pairs = raw.map((p, k) => ({
+    ...p,
+    adjustedPValue: adjusted[k],
+    significant: adjusted[k] < alpha && p.direction !== 0,
+  }));
+
+  const significant = (x: string, y: string) =>
+    pairs.some((p) => p.significant && ((p.a === x && p.b === y) || (p.a === y && p.b === x)));
+  const ranked = results
+    .map((r) => ({ name: r.name, avgScore: mean(r.scores) }))
+    .sort((x, y) => y.avgScore - x.avgScore);
+  const leaderboard: LeaderboardEntry[] = [];
+  let tier = 0;
+  let tierLeader = '';
+  ranked.forEach((r, k) => {
+    if (k === 0 || significant(tierLeader, r.name)) {
+      tier++;
+      tierLeader = r.name;
+    }
+    leaderboard.push({ rank: k + 1, name: r.name, avgScore: r.avgScore, tier });
+  });
+
+  return {
+    test,
+    correction,
+    alpha,
+    gameCount: results.length > 0 ? results[0].scores.length : 0,
+    pairs,
+    leaderboard,
+  };
+}
+
+export function formatLeaderboard(matrix: ComparisonMatrix): string {
+  const width = Math.max(...matrix.leaderboard.map((e) => e.name.length));
+  const lines = [
+    `Ranking (${COMPARISON_TESTS[matrix.test]}, ${P_VALUE_CORRECTIONS[matrix.correction]} ` +
+      `correction, α = ${matrix.alpha}):`,
+  ];
+  for (const e of matrix.leaderboard) {
+    lines.push(`  ${e.rank}. [tier ${e.tier}] ${e.name.padEnd(width)}  avg ${e.avgScore.toFixed(2)}`);
+  }
+  const significantCount = matrix.pairs.filter((p) => p.significant).length;
+  lines.push(`${significantCount} of ${matrix.pairs.length} pairs differ significantly.`);
+  return lines.join('\n');
+}
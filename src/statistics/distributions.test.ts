@@ -0,0 +1,70 @@
+import {
+  normalCdf,
+  normalQuantile,
+  logGamma,
+  regularizedBeta,
+  studentTCdf,
+  studentTQuantile,
+  binomialCdf,
+  betaQuantile,
+} from './distributions';
+
+describe('normalCdf', () => {
+  it('matches standard normal table values', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 7);
+    expect(normalCdf(1.959964)).toBeCloseTo(0.975, 6);
+    expect(normalCdf(-1)).toBeCloseTo(0.158655, 6);
+  });
+
+  it('is inverted by normalQuantile', () => {
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 5);
+    expect(normalQuantile(0.2)).toBeCloseTo(-0.841621, 5);
+  });
+});
+
+describe('logGamma', () => {
+  it('matches log factorials', () => {
+    expect(logGamma(1)).toBeCloseTo(0, 12);
+    expect(logGamma(6)).toBeCloseTo(Math.log(120), 12);
+    expect(logGamma(0.5)).toBeCloseTo(0.5 * Math.log(Math.PI), 12);
+  });
+});
+
+describe('regularizedBeta', () => {
+  it('reduces to x^a when b = 1', () => {
+    expect(regularizedBeta(0.3, 2, 1)).toBeCloseTo(0.09, 12);
+    expect(regularizedBeta(0.8, 3, 1)).toBeCloseTo(0.512, 12);
+  });
+});
+
+describe('Student t', () => {
+  it('matches critical values', () => {
+    expect(studentTCdf(2.262157, 9)).toBeCloseTo(0.975, 6);
+    expect(studentTCdf(12.7062, 1)).toBeCloseTo(0.975, 5);
+    expect(studentTCdf(0, 5)).toBeCloseTo(0.5, 12);
+    expect(studentTQuantile(0.975, 9)).toBeCloseTo(2.262157, 5);
+    expect(studentTQuantile(0.025, 30)).toBeCloseTo(-2.042272, 5);
+  });
+
+  it('approaches the normal distribution for large df', () => {
+    expect(studentTQuantile(0.975, 1e6)).toBeCloseTo(1.959966, 4);
+  });
+});
+
+describe('binomialCdf', () => {
+  it('is exact for a fair coin', () => {
+    expect(binomialCdf(1, 10, 0.5)).toBeCloseTo(11 / 1024, 12);
+    expect(binomialCdf(5, 10, 0.5)).toBeCloseTo(638 / 1024, 12);
+    expect(binomialCdf(-1, 10, 0.5)).toBe(0);
+    expect(binomialCdf(10, 10, 0.5)).toBe(1);
+  });
+});
+
+describe('betaQuantile', () => {
+  it('inverts regularizedBeta', () => {
+    expect(betaQuantile(0.09, 2, 1)).toBeCloseTo(0.3, 10);
+    expect(regularizedBeta(betaQuantile(0.025, 4, 17), 4, 17)).toBeCloseTo(0.025, 10);
+    expect(betaQuantile(0, 2, 3)).toBe(0);
+    expect(betaQuantile(1, 2, 3)).toBe(1);
+  });
+});
@@ -0,0 +1,84 @@
+import {
+  wilsonInterval,
+  clopperPearsonInterval,
+  quantile,
+  bootstrapScoreQuantiles,
+  bootstrapRateDifference,
+  defaultBootstrapResamples,
+  DEFAULT_BOOTSTRAP_RESAMPLES,
+  MIN_BOOTSTRAP_RESAMPLES,
+  MAX_BOOTSTRAP_DRAWS,
+} from './intervals';
+
+describe('proportion intervals', () => {
+  it('match published Wilson intervals', () => {
+    const half = wilsonInterval(5, 10);
+    expect(half.lower).toBeCloseTo(0.2366, 4);
+    expect(half.upper).toBeCloseTo(0.7634, 4);
+    const none = wilsonInterval(0, 10);
+    expect(none.lower).toBe(0);
+    expect(none.upper).toBeCloseTo(0.2775, 4);
+  });
+
+  it('match published Clopper–Pearson intervals', () => {
+    const half = clopperPearsonInterval(5, 10);
+    expect(half.lower).toBeCloseTo(0.1871, 4);
+    expect(half.upper).toBeCloseTo(0.8129, 4);
+    expect(clopperPearsonInterval(0, 10)).toEqual({ lower: 0, upper: expect.closeTo(1 - 0.025 ** 0.1, 8) });
+    expect(clopperPearsonInterval(10, 10).upper).toBe(1);
+  });
+
+  it('are uninformative without games', () => {
+    expect(wilsonInterval(0, 0)).toEqual({ lower: 0, upper: 1 });
+    expect(clopperPearsonInterval(0, 0)).toEqual({ lower: 0, upper: 1 });
+  });
+});
+
+describe('quantile', () => {
+  it('interpolates between order statistics', () => {
+    expect(quantile([1, 2, 3, 4], 0.5)).toBe(2.5);
+    expect(quantile([1, 2, 3, 4], 0.25)).toBeCloseTo(1.75, 12);
+    expect(quantile([7], 0.9)).toBe(7);
+  });
+});
+
+describe('bootstrapScoreQuantiles', () => {
+  const scores = Array.from({ length: 200 }, (_, i) => (i * 7) % 26);
+
+  it('brackets each quantile and is reproducible for a seed', () => {
+    const result = bootstrapScoreQuantiles(scores, [0.1, 0.5, 0.9], { resamples: 300, seed: 4 });
+    for (const q of result) {
+      expect(q.value).toBe(quantile([...scores].sort((a, b) => a - b), q.p));
+      expect(q.ci95.lower).toBeLessThanOrEqual(q.value);
+      expect(q.ci95.upper).toBeGreaterThanOrEqual(q.value);
+    }
+    expect(bootstrapScoreQuantiles(scores, [0.1, 0.5, 0.9], { resamples: 300, seed: 4 })).toEqual(result);
+  });
+
+  it('gives a zero-width interval when every score is equal', () => {
+    expect(bootstrapScoreQuantiles([12, 12, 12], [0.5])).toEqual([
+      { p: 0.5, value: 12, ci95: { lower: 12, upper: 12 } },
+    ]);
+  });
+});
+
+describe('bootstrapRateDifference', () => {
+  it('pairs outcomes by seed', () => {
+    const a = Array.from({ length: 100 }, (_, i) => i % 2 === 0);
+    const result = bootstrapRateDifference(a, a.map((x, i) => x && i % 4 === 0), { resamples: 500 });
+    expect(result.diff).toBeCloseTo(0.25, 12);
+    expect(result.ci95.lower).toBeGreaterThan(0.1);
+    expect(result.ci95.upper).toBeLessThan(0.4);
+    expect(bootstrapRateDifference(a, a).ci95).toEqual({ lower: 0, upper: 0 });
+    expect(() => bootstrapRateDifference(a, [true])).toThrow(/same seeds/);
+  });
+});
+
+describe('defaultBootstrapResamples', () => {
+  it('resamples large samples less, within the draw budget', () => {
+    expect(defaultBootstrapResamples(1000)).toBe(DEFAULT_BOOTSTRAP_RESAMPLES);
+    expect(defaultBootstrapResamples(MAX_BOOTSTRAP_DRAWS / 500)).toBe(500);
+    expect(defaultBootstrapResamples(1e9)).toBe(MIN_BOOTSTRAP_RESAMPLES);
+    expect(defaultBootstrapResamples(0)).toBe(DEFAULT_BOOTSTRAP_RESAMPLES);
+  });
+});
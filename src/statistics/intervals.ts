@@ -0,0 +1,166 @@
+import { betaQuantile } from './distributions';
+import { createSeededRNG } from '../engine/seeded-rng';
+
+export interface Interval {
+  lower: number;
+  upper: number;
+}
+
+/** z for a two-sided 95% normal interval. */
+const Z_95 = 1.959964;
+
+/**
+ * Wilson score interval for a proportion. Unlike p ± 1.96·SE it stays inside [0, 1] and keeps
+ * its coverage near 0 and 1 — where a perfect-game rate usually sits.
+ */
+export function wilsonInterval(successes: number, n: number, z = Z_95): Interval {
+  if (n === 0) return { lower: 0, upper: 1 };
+  const p = successes / n;
+  const z2 = z * z;
+  const denominator = 1 + z2 / n;
+  const center = (p + z2 / (2 * n)) / denominator;
+  const halfWidth = (z / denominator) * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n));
+  return { lower: Math.max(0, center - halfWidth), upper: Math.min(1, center + halfWidth) };
+}
+
+/** Clopper–Pearson ("exact") interval for a proportion: conservative, never below nominal coverage. */
+export function clopperPearsonInterval(successes: number, n: number, confidence = 0.95): Interval {
+  if (n === 0) return { lower: 0, upper: 1 };
+  const alpha = 1 - confidence;
+  return {
+    lower: successes === 0 ? 0 : betaQuantile(alpha / 2, successes, n - successes + 1),
+    upper: successes === n ? 1 : betaQuantile(1 - alpha / 2, successes + 1, n - successes),
+  };
+}
+
+export interface BootstrapOptions {
+  /** Resamples to draw; default defaultBootstrapResamples(sample size). */
+  resamples?: number;
+  /** RNG seed, so the same scores always give the same interval; default 0. */
+  seed?: number;
+}
+
+export const DEFAULT_BOOTSTRAP_RESAMPLES = 1000;
+export const MIN_BOOTSTRAP_RESAMPLES = 200;
+
+/**
+ * Draws (resamples × sample size) a default bootstrap may take. Every draw runs on the calling
+ * thread, which for the UI server is the one serving job progress.
+ */
+export const MAX_BOOTSTRAP_DRAWS = 10_000_000;
+
+/**
+ * DEFAULT_BOOTSTRAP_RESAMPLES, or fewer for samples too large to resample that often within
+ * MAX_BOOTSTRAP_DRAWS (never below MIN_BOOTSTRAP_RESAMPLES; large samples give narrow, stable
+ * intervals anyway).
+ */
+export function defaultBootstrapResamples(n: number): number {
+  const affordable = Math.floor(MAX_BOOTSTRAP_DRAWS / Math.max(1, n));
+  return Math.max(MIN_BOOTSTRAP_RESAMPLES, Math.min(DEFAULT_BOOTSTRAP_RESAMPLES, affordable));
+}
+
+/** Quantiles reported for every strategy's score distribution. */
+export const SCORE_QUANTILES = [0.1, 0.25, 0.5, 0.75, 0.9];
+
+export interface ScoreQuantile {
+  /** Probability in (0, 1); 0.5 is the median. */
+  p: number;
+  value: number;
+  /** Percentile-bootstrap 95% interval. */
+  ci95: Interval;
+}
+
+/** Sample quantile of sorted values, interpolating between order statistics (R type 7). */
+export function quantile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const h = (sorted.length - 1) * p;
+  const lo = Math.floor(h);
+  const hi = Math.min(lo + 1, sorted.length - 1);
+  return sorted[lo] + (h - lo) * (sorted[hi] - sorted[lo]);
+}
+
+/** 2.5th and 97.5th percentiles of bootstrap replicates. */
+function percentileInterval(replicates: number[]): Interval {
+  const sorted = [...replicates].sort((a, b) => a - b);
+  return { lower: quantile(sorted, 0.025), upper: quantile(sorted, 0.975) };
+}
+
+/** The k-th smallest (0-based) of a sample given as counts per distinct sorted value. */
+function kthOfCounts(values: number[], counts: Int32Array, k: number): number {
+  let seen = 0;
+  for (let i = 0; i < values.length; i++) {
+    seen += counts[i];
+    if (k < seen) return values[i];
+  }
+  return values[values.length - 1];
+}
+
+/**
+ * Score quantiles with seeded percentile-bootstrap intervals. Resamples are tallied per distinct
+ * score rather than sorted, so the cost is linear in the game count.
+ */
+export function bootstrapScoreQuantiles(
+  scores: number[],
+  probs: number[] = SCORE_QUANTILES,
+  options: BootstrapOptions = {}
+): ScoreQuantile[] {
+  const n = scores.length;
+  const sorted = [...scores].sort((a, b) => a - b);
+  if (n === 0) return probs.map((p) => ({ p, value: 0, ci95: { lower: 0, upper: 0 } }));
+
+  const values = [...new Set(sorted)];
+  const valueIndex = new Map(values.map((v, i) => [v, i]));
+  const indices = scores.map((s) => valueIndex.get(s) as number);
+  const random = createSeededRNG(options.seed ?? 0);
+  const resamples = options.resamples ?? defaultBootstrapResamples(n);
+  const replicates = probs.map(() => new Array<number>(resamples));
+  const counts = new Int32Array(values.length);
+
+  for (let r = 0; r < resamples; r++) {
+    counts.fill(0);
+    for (let i = 0; i < n; i++) counts[indices[Math.floor(random() * n)]]++;
+    probs.forEach((p, j) => {
+      const h = (n - 1) * p;
+      const lo = Math.floor(h);
+      const low = kthOfCounts(values, counts, lo);
+      const high = lo + 1 < n ? kthOfCounts(values, counts, lo + 1) : low;
+      replicates[j][r] = low + (h - lo) * (high - low);
+    });
+  }
+
+  return probs.map((p, j) => ({ p, value: quantile(sorted, p), ci95: percentileInterval(replicates[j]) }));
+}
+
+export interface RateDifference {
+  /** rate(A) − rate(B). */
+  diff: number;
+  /** Percentile-bootstrap 95% interval. */
+  ci95: Interval;
+}
+
+/**
+ * Difference between two success rates measured on the same seeds, with a seeded paired
+ * bootstrap: each resample draws seeds, keeping both strategies' outcomes on a seed together.
+ */
+export function bootstrapRateDifference(
+  successesA: boolean[],
+  successesB: boolean[],
+  options: BootstrapOptions = {}
+): RateDifference {
+  const n = successesA.length;
+  if (successesB.length !== n) {
+    throw new Error(`Paired bootstrap needs both strategies on the same seeds (got ${n} and ${successesB.length} games)`);
+  }
+  if (n === 0) return { diff: 0, ci95: { lower: 0, upper: 0 } };
+
+  const deltas = successesA.map((a, i) => Number(a) - Number(successesB[i]));
+  const diff = deltas.reduce((s, d) => s + d, 0) / n;
+  const random = createSeededRNG(options.seed ?? 0);
+  const replicates = new Array<number>(options.resamples ?? defaultBootstrapResamples(n));
+  for (let r = 0; r < replicates.length; r++) {
+    let sum = 0;
+    for (let i = 0; i < n; i++) sum += deltas[Math.floor(random() * n)];
+    replicates[r] = sum / n;
+  }
+  return { diff, ci95: percentileInterval(replicates) };
+}
@@ -0,0 +1,56 @@
+import { attributeLosses, summarizeLosses, LOSS_CAUSES } from './loss-attribution';
+import { runSimulation } from '../simulator/runner';
+import { createDefaultConfig } from '../config';
+import { DEFAULT_RULES, withHintMode } from '../engine/rules';
+
+function traces(strategy: string, rules = DEFAULT_RULES) {
+  const config = createDefaultConfig({ gameCount: 10, loggingMode: 'debug', rules });
+  return runSimulation(config, [strategy]).results[0].traces ?? [];
+}
+
+describe('attributeLosses', () => {
+  it('accounts for every lost point', () => {
+    const all = [...traces('Random'), ...traces('HintPartner', withHintMode(DEFAULT_RULES, 'empty-clues'))];
+    for (const trace of all) {
+      const a = attributeLosses(trace);
+      expect(a.lostPoints).toBe(25 - trace.finalState.score);
+      expect(a.losses.reduce((s, l) => s + l.points, 0)).toBe(a.lostPoints);
+      expect(LOSS_CAUSES.reduce((s, c) => s + a.byCause[c], 0)).toBe(a.lostPoints);
+      expect(a.maxAchievable).toHaveLength(trace.events.length);
+      a.maxAchievable.forEach((m, i) => {
+        if (i > 0) expect(m).toBeLessThanOrEqual(a.maxAchievable[i - 1]);
+        expect(m).toBeGreaterThanOrEqual(trace.finalState.score);
+      });
+    }
+  });
+
+  it('charges discards and bombs at the turn they cut the max score', () => {
+    // Random bombs out quickly: the end is a strike-out and any drops come from its plays and discards
+    for (const trace of traces('Random')) {
+      const a = attributeLosses(trace);
+      expect(a.byCause['deck-out']).toBe(0);
+      for (const loss of a.losses.filter((l) => l.turn !== undefined)) {
+        const event = trace.events[loss.turn!];
+        expect(event.type).toBe(loss.cause === 'bomb' ? 'play' : 'discard');
+        expect(loss.player).toBe(event.playerIndex);
+        const before = loss.turn! > 0 ? a.maxAchievable[loss.turn! - 1] : 25;
+        expect(before - a.maxAchievable[loss.turn!]).toBe(loss.points);
+      }
+      if (trace.finalState.endReason === 'lives_zero') {
+        expect(a.byCause.strikeout).toBe(a.maxAchievable[a.maxAchievable.length - 1] - trace.finalState.score);
+      }
+    }
+  });
+});
+
+describe('summarizeLosses', () => {
+  it('averages per game', () => {
+    const attributions = traces('Random').map(attributeLosses);
+    const summary = summarizeLosses(attributions);
+    expect(summary.games).toBe(10);
+    const meanLost = attributions.reduce((s, a) => s + a.lostPoints, 0) / 10;
+    expect(summary.avgLostPoints).toBeCloseTo(meanLost, 12);
+    expect(LOSS_CAUSES.reduce((s, c) => s + summary.avgByCause[c], 0)).toBeCloseTo(meanLost, 12);
+    expect(summarizeLosses([])).toMatchObject({ games: 0, avgLostPoints: 0 });
+  });
+});
@@ -0,0 +1,132 @@
+import type { GameTrace } from '../simulator/runner';
+import { replayTrace, traceSetup } from '../simulator/replay';
+import type { CardIdentity } from '../strategies/card-status';
+import { maxAchievableScore, isPlayable } from '../strategies/card-status';
+import { getVariant, getMaxScore } from '../engine/variants';
+
+/**
+ * Why a point was lost:
+ * - 'critical-discard': the last copy of a needed card was discarded;
+ * - 'bomb': the last copy of a needed card was lost to a failed play;
+ * - 'strikeout': the game ended on its last life with points still reachable;
+ * - 'deck-out': the deck and final round ran out with points still reachable;
+ * - 'forfeit': the invalid-action policy ended the game.
+ */
+export type LossCause = 'critical-discard' | 'bomb' | 'strikeout' | 'deck-out' | 'forfeit';
+
+export const LOSS_CAUSES: LossCause[] = ['critical-discard', 'bomb', 'strikeout', 'deck-out', 'forfeit'];
+
+export interface PointLoss {
+  cause: LossCause;
+  points: number;
+  /** Index of the event in the trace; omitted for the end of the game. */
+  turn?: number;
+  player?: number;
+  card?: CardIdentity;
+}
+
+export interface LossAttribution {
+  seed: number;
+  score: number;
+  maxScore: number;
+  /** maxScore − score; always the sum of the losses' points. */
+  lostPoints: number;
+  byCause: Record<LossCause, number>;
+  /** In game order; the end-of-game loss, if any, comes last. */
+  losses: PointLoss[];
+  /** Best score still reachable after each event, given the discards so far. */
+  maxAchievable: number[];
+  /** Cards in hand at the end that would have played successfully. */
+  playableInHand: CardIdentity[];
+}
+
+/** Per-strategy means over the analyzed games; written to stats.json as lossAttribution. */
+export interface LossSummary {
+  games: number;
+  /** Games that fell short of the max score. */
+  imperfectGames: number;
+  avgLostPoints: number;
+  avgByCause: Record<LossCause, number>;
+  /** Mean count of playable cards still in hand when the game ended. */
+  avgPlayableInHand: number;
+}
+
+function emptyByCause(): Record<LossCause, number> {
+  return { 'critical-discard': 0, bomb: 0, strikeout: 0, 'deck-out': 0, forfeit: 0 };
+}
+
+const END_CAUSES: Record<string, LossCause | undefined> = {
+  lives_zero: 'strikeout',
+  deck_empty: 'deck-out',
+  forfeit: 'forfeit',
+};
+
+/**
+ * Replays a trace and attributes every point below the max score to a cause. A discard or bomb
+ * is charged with the drop it causes in the max achievable score; whatever is still reachable
+ * when the game ends is charged to the way it ended.
+ */
+export function attributeLosses(trace: GameTrace): LossAttribution {
+  const variant = getVariant(traceSetup(trace).variant);
+  const maxScore = getMaxScore(variant);
+  const losses: PointLoss[] = [];
+  const maxAchievable: number[] = [];
+  let reachable = maxScore;
+
+  const state = replayTrace(trace, (s, event, turn) => {
+    const next = maxAchievableScore(s.discardPile, s.playedStacks, variant);
+    if (next < reachable && event.type !== 'hint' && event.card) {
+      losses.push({
+        cause: event.type === 'discard' ? 'critical-discard' : 'bomb',
+        points: reachable - next,
+        turn,
+        player: event.playerIndex,
+        card: { color: event.card.color, value: event.card.value },
+      });
+    }
+    reachable = next;
+    maxAchievable.push(next);
+  });
+
+  const score = trace.finalState.score;
+  const endCause = END_CAUSES[trace.finalState.endReason];
+  if (endCause && reachable > score) losses.push({ cause: endCause, points: reachable - score });
+
+  const byCause = emptyByCause();
+  for (const loss of losses) byCause[loss.cause] += loss.points;
+  return {
+    seed: trace.seed,
+    score,
+    maxScore,
+    lostPoints: maxScore - score,
+    byCause,
+    losses,
+    maxAchievable,
+    playableInHand: state.hands
+      .flat()
+      .filter((card) => isPlayable(state, card))
+      .map((card) => ({ color: card.color, value: card.value })),
+  };
+}
+
+export function summarizeLosses(attributions: LossAttribution[]): LossSummary {
+  const games = attributions.length;
+  const avgByCause = emptyByCause();
+  let lost = 0;
+  let playable = 0;
+  for (const a of attributions) {
+    lost += a.lostPoints;
+    playable += a.playableInHand.length;
+    for (const cause of LOSS_CAUSES) avgByCause[cause] += a.byCause[cause];
+  }
+  if (games > 0) {
+    for (const cause of LOSS_CAUSES) avgByCause[cause] /= games;
+  }
+  return {
+    games,
+    imperfectGames: attributions.filter((a) => a.lostPoints > 0).length,
+    avgLostPoints: games > 0 ? lost / games : 0,
+    avgByCause,
+    avgPlayableInHand: games > 0 ? playable / games : 0,
+  };
+}
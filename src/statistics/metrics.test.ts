@@ -1,6 +1,10 @@
 import {
   computeAggregateMetrics,
   tTest,
+  pairedTTest,
+  wilcoxonSignedRank,
+  signTest,
+  compareScores,
   scoreHistogram,
   formatComparison,
 } from './metrics';
@@ -15,7 +19,9 @@ function makeResult(
     livesRemaining: number;
     hintsRemaining: number;
     misplayCount: number;
-    endReason: 'lives_zero' | 'max_score' | 'deck_empty';
+    invalidActionCount: number;
+    criticalDiscardCount: number;
+    endReason: 'lives_zero' | 'max_score' | 'deck_empty' | 'forfeit';
   }>
 ): StrategyResult {
   const metrics =
@@ -26,6 +32,8 @@ function makeResult(
       livesRemaining: 3,
       hintsRemaining: 8,
       misplayCount: 0,
+      invalidActionCount: 0,
+      criticalDiscardCount: 0,
       endReason: 'deck_empty' as const,
     }));
   return {
@@ -61,6 +69,19 @@ describe('computeAggregateMetrics', () => {
     const result = makeResult('A', [25, 25, 10]);
     const m = computeAggregateMetrics(result);
     expect(m.perfectRate).toBeCloseTo(2 / 3);
+    expect(m.perfectRateCi95.lower).toBeGreaterThan(0);
+    expect(m.perfectRateCi95.upper).toBeLessThan(1);
+    expect(m.perfectRateExactCi95.lower).toBeLessThan(m.perfectRateCi95.lower);
+  });
+
+  it('reports the median and end-reason shares with intervals', () => {
+    const m = computeAggregateMetrics(makeResult('A', [10, 20, 30]));
+    expect(m.medianScore).toBe(20);
+    expect(m.medianScoreCi95.lower).toBeGreaterThanOrEqual(10);
+    expect(m.medianScoreCi95.upper).toBeLessThanOrEqual(30);
+    expect(m.scoreQuantiles.map((q) => q.p)).toEqual([0.1, 0.25, 0.5, 0.75, 0.9]);
+    expect(Object.keys(m.endReasonCi95).sort()).toEqual(Object.keys(m.endReasonDistribution).sort());
+    expect(m.endReasonExactCi95.forfeit.lower).toBe(0);
   });
 
   it('returns zero stats for empty scores', () => {
@@ -93,6 +114,21 @@ describe('tTest', () => {
     const b = [10, 10, 10, 10, 10, 10, 10, 10, 10, 10];
     const tt = tTest(a, b);
     expect(tt.pValue).toBeLessThan(0.001);
+    expect(tt.cohensD).toBe(-Infinity);
+  });
+
+  it('reports Cohen\'s d with the pooled standard deviation', () => {
+    // Both sds are sqrt(2.5), so d = -1 / sqrt(2.5)
+    expect(tTest([1, 2, 3, 4, 5], [2, 3, 4, 5, 6]).cohensD).toBeCloseTo(-1 / Math.sqrt(2.5), 12);
+  });
+
+  it('uses the normal approximation for the p-value and CI', () => {
+    // se = sqrt(2.5 / 5 + 2.5 / 5) = 1, so t = -1
+    const tt = tTest([1, 2, 3, 4, 5], [2, 3, 4, 5, 6]);
+    expect(tt.t).toBeCloseTo(-1, 12);
+    expect(tt.pValue).toBeCloseTo(0.317311, 5);
+    expect(tt.ci95.lower).toBeCloseTo(-2.96, 12);
+    expect(tt.ci95.upper).toBeCloseTo(0.96, 12);
   });
 
   it('small samples return pValue 1', () => {
@@ -101,6 +137,66 @@ describe('tTest', () => {
   });
 });
 
+describe('paired tests', () => {
+  // Seed luck dominates the spread; B is consistently half a point better
+  const luck = [3, 18, 7, 22, 11, 25, 1, 14, 9, 20, 5, 16];
+  const a = luck;
+  const b = luck.map((x, i) => x + (i % 3 === 0 ? 0 : 1));
+
+  it('the paired t-test sees a difference Welch cannot', () => {
+    expect(tTest(a, b).pValue).toBeGreaterThan(0.5);
+    const paired = pairedTTest(a, b);
+    expect(paired.pValue).toBeLessThan(0.001);
+    expect(paired.meanDiff).toBeCloseTo(-8 / 12);
+    expect(paired.ci95.upper).toBeLessThan(0);
+  });
+
+  it('paired t-test matches a hand computation', () => {
+    // Differences 1, 2, 3, 4, 5: mean 3, sd sqrt(2.5), t = 3 / sqrt(0.5) = 4.2426 on 4 df
+    const tt = pairedTTest([2, 4, 6, 8, 10], [1, 2, 3, 4, 5]);
+    expect(tt.t).toBeCloseTo(4.242641, 5);
+    expect(tt.pValue).toBeCloseTo(0.013236, 5);
+    expect(tt.cohensD).toBeCloseTo(3 / Math.sqrt(2.5), 12);
+  });
+
+  it('Wilcoxon is exact for small samples', () => {
+    const w = wilcoxonSignedRank([2, 4, 6, 8, 10], [1, 2, 3, 4, 5]);
+    expect(w).toMatchObject({ statistic: 15, n: 5, direction: 1 });
+    expect(w.pValue).toBeCloseTo(2 / 32, 12);
+    // Tied magnitudes share average ranks and zero differences are dropped
+    const tied = wilcoxonSignedRank([1, 2, 3, 5], [2, 1, 3, 3]);
+    expect(tied).toMatchObject({ statistic: 4.5, n: 3 });
+    expect(tied.pValue).toBeCloseTo(0.75, 12);
+  });
+
+  it('Wilcoxon uses the normal approximation for large samples', () => {
+    const big = Array.from({ length: 400 }, (_, i) => i % 25);
+    const shifted = big.map((x, i) => x + (i % 4 === 0 ? -1 : i % 4 === 1 ? 1 : 0));
+    const w = wilcoxonSignedRank(big, shifted);
+    expect(w.n).toBe(200);
+    expect(w.pValue).toBeGreaterThan(0.9);
+    expect(wilcoxonSignedRank(a, b).pValue).toBeLessThan(0.01);
+  });
+
+  it('sign test is exact binomial', () => {
+    const s = signTest([1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 5], [0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 5]);
+    expect(s).toMatchObject({ statistic: 9, n: 10, direction: 1 });
+    expect(s.pValue).toBeCloseTo(22 / 1024, 12);
+  });
+
+  it('refuses score lists of different lengths', () => {
+    expect(() => pairedTTest([1, 2], [1])).toThrow(/same seeds/);
+    expect(() => compareScores([1, 2], [1], 'welch')).not.toThrow();
+  });
+
+  it('compareScores reports the test used', () => {
+    const result = compareScores(a, b, 'sign');
+    expect(result).toMatchObject({ test: 'sign', n: 8, direction: -1 });
+    expect(result.ci95).toBeUndefined();
+    expect(compareScores(a, b).test).toBe('paired-t');
+  });
+});
+
 describe('formatComparison', () => {
   it('produces formatted output with all lines', () => {
     const a = makeResult('StrategyA', [20, 21, 22, 23, 24]);
@@ -110,5 +206,9 @@ describe('formatComparison', () => {
     expect(out).toContain('B avg:');
     expect(out).toContain('p-value:');
     expect(out).toContain('Conclusion:');
+    expect(out).toContain('Test: paired t-test (n = 5)');
+    expect(out).toContain('Perfect rate difference: -20.0 pp');
+    expect(out).toMatch(/Cohen's d: -\d\.\d{3}/);
+    expect(formatComparison('A', 'B', a, b, 'wilcoxon')).toContain('Test: Wilcoxon signed-rank test');
   });
 });
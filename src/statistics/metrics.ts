@@ -1,5 +1,17 @@
 import type { StrategyResult } from '../simulator/runner';
+import type { CrossPlayResult } from '../simulator/cross-play';
+import type { SweepResult, SweepDimension, SweepValue } from '../simulator/sweep';
 import type { EndReason } from '../engine/events';
+import { getVariant, getMaxScore } from '../engine/variants';
+import { normalCdf, studentTCdf, studentTQuantile, binomialCdf } from './distributions';
+import {
+  wilsonInterval,
+  clopperPearsonInterval,
+  bootstrapScoreQuantiles,
+  bootstrapRateDifference,
+  SCORE_QUANTILES,
+} from './intervals';
+import type { Interval, BootstrapOptions, ScoreQuantile } from './intervals';
 
 export interface AggregateMetrics {
   avgScore: number;
@@ -7,17 +19,67 @@ export interface AggregateMetrics {
   stdError: number;
   ci95: { lower: number; upper: number };
   perfectRate: number;
+  /** Wilson score interval for perfectRate. */
+  perfectRateCi95: Interval;
+  /** Clopper–Pearson interval for perfectRate. */
+  perfectRateExactCi95: Interval;
+  medianScore: number;
+  /** Seeded percentile-bootstrap interval for medianScore. */
+  medianScoreCi95: Interval;
+  /** SCORE_QUANTILES of the scores, each with a bootstrap interval. */
+  scoreQuantiles: ScoreQuantile[];
   avgLivesRemaining: number;
   avgHintsRemaining: number;
   misplayRate: number;
+  /** Total invalid actions across all games (violations of the run's invalid-action policy). */
+  invalidActionCount: number;
+  /** Mean discards per game of a card that was the last copy still needed. */
+  avgCriticalDiscards: number;
   endReasonDistribution: Record<EndReason, number>;
+  /** Wilson intervals for the share of games ending each way. */
+  endReasonCi95: Record<EndReason, Interval>;
+  /** Clopper–Pearson intervals for the share of games ending each way. */
+  endReasonExactCi95: Record<EndReason, Interval>;
   scoreHistogram: number[];
 }
 
+/** N×N cross-play summary; rows and columns follow strategyNames. */
+export interface CrossPlayMatrix {
+  strategyNames: string[];
+  gameCount: number;
+  avgScore: number[][];
+  ci95: { lower: number; upper: number }[][];
+}
+
+/** A sweep cell's swept values and headline metrics; one row of the sweep's tidy table. */
+export interface SweepTableRow {
+  name: string;
+  values: Record<string, SweepValue>;
+  avgScore: number;
+  stdError: number;
+  ci95: { lower: number; upper: number };
+  perfectRate: number;
+  perfectRateCi95: Interval;
+}
+
+/** Rows follow the sweep's cell order (row-major over dimensions, the last varying fastest). */
+export interface SweepTable {
+  dimensions: SweepDimension[];
+  gameCount: number;
+  rows: SweepTableRow[];
+}
+
 export interface TTestResult {
   pValue: number;
   meanDiff: number;
   ci95: { lower: number; upper: number };
+  /** The t statistic; infinite when the difference is nonzero but has no variance. */
+  t: number;
+  /**
+   * Standardized effect: the mean difference over the pooled standard deviation for tTest, over
+   * the standard deviation of the per-seed differences (d_z) for pairedTTest.
+   */
+  cohensD: number;
 }
 
 function mean(arr: number[]): number {
@@ -34,18 +96,26 @@ function sampleStdDev(arr: number[], m?: number): number {
 }
 
 /**
- * Score histogram: bins 0..25, histogram[i] = count of games with score i.
+ * Score histogram: bins 0..maxScore (25 in the base game), histogram[i] = count of games with score i.
  */
-export function scoreHistogram(scores: number[]): number[] {
-  const hist = new Array<number>(26).fill(0);
+export function scoreHistogram(scores: number[], maxScore = 25): number[] {
+  const hist = new Array<number>(maxScore + 1).fill(0);
   for (const s of scores) {
-    const bin = Math.max(0, Math.min(25, Math.round(s)));
+    const bin = Math.max(0, Math.min(maxScore, Math.round(s)));
     hist[bin]++;
   }
   return hist;
 }
 
-export function computeAggregateMetrics(result: StrategyResult): AggregateMetrics {
+/**
+ * maxScore sizes the histogram; pass getMaxScore(variant) for variants with extra suits.
+ * Median and quantile intervals are bootstrapped with a fixed seed, so they are reproducible.
+ */
+export function computeAggregateMetrics(
+  result: StrategyResult,
+  maxScore = 25,
+  bootstrap: BootstrapOptions = {}
+): AggregateMetrics {
   const { scores, perGameMetrics } = result;
   const n = scores.length;
 
@@ -67,17 +137,27 @@ export function computeAggregateMetrics(result: StrategyResult): AggregateMetric
       ? perGameMetrics.reduce((s, m) => s + m.hintsRemaining, 0) / n
       : 0;
 
-  const totalMislays = perGameMetrics.reduce((s, m) => s + m.misplayCount, 0);
-  const misplayRate = n > 0 ? totalMislays / n : 0;
+  const totalMisplays = perGameMetrics.reduce((s, m) => s + m.misplayCount, 0);
+  const misplayRate = n > 0 ? totalMisplays / n : 0;
 
   const endReasonDistribution: Record<EndReason, number> = {
     lives_zero: 0,
     max_score: 0,
     deck_empty: 0,
+    forfeit: 0,
   };
   for (const m of perGameMetrics) {
     endReasonDistribution[m.endReason]++;
   }
+  const endReasons = Object.keys(endReasonDistribution) as EndReason[];
+  const endReasonIntervals = (interval: (successes: number, n: number) => Interval) =>
+    Object.fromEntries(endReasons.map((r) => [r, interval(endReasonDistribution[r], n)])) as Record<
+      EndReason,
+      Interval
+    >;
+
+  const scoreQuantiles = bootstrapScoreQuantiles(scores, SCORE_QUANTILES, bootstrap);
+  const median = scoreQuantiles[SCORE_QUANTILES.indexOf(0.5)];
 
   return {
     avgScore,
@@ -85,16 +165,54 @@ export function computeAggregateMetrics(result: StrategyResult): AggregateMetric
     stdError,
     ci95,
     perfectRate,
+    perfectRateCi95: wilsonInterval(perfectCount, n),
+    perfectRateExactCi95: clopperPearsonInterval(perfectCount, n),
+    medianScore: median.value,
+    medianScoreCi95: median.ci95,
+    scoreQuantiles,
     avgLivesRemaining,
     avgHintsRemaining,
     misplayRate,
+    invalidActionCount: perGameMetrics.reduce((s, m) => s + m.invalidActionCount, 0),
+    avgCriticalDiscards:
+      n > 0 ? perGameMetrics.reduce((s, m) => s + m.criticalDiscardCount, 0) / n : 0,
     endReasonDistribution,
-    scoreHistogram: scoreHistogram(scores),
+    endReasonCi95: endReasonIntervals(wilsonInterval),
+    endReasonExactCi95: endReasonIntervals(clopperPearsonInterval),
+    scoreHistogram: scoreHistogram(scores, maxScore),
+  };
+}
+
+export function computeCrossPlayMatrix(result: CrossPlayResult, maxScore = 25): CrossPlayMatrix {
+  const metrics = result.cells.map((row) => row.map((cell) => computeAggregateMetrics(cell, maxScore)));
+  return {
+    strategyNames: result.strategyNames,
+    gameCount: result.seeds.length,
+    avgScore: metrics.map((row) => row.map((m) => m.avgScore)),
+    ci95: metrics.map((row) => row.map((m) => m.ci95)),
   };
 }
 
+export function computeSweepTable(result: SweepResult): SweepTable {
+  const rows = result.cells.map((cell, i) => {
+    const m = computeAggregateMetrics(result.results[i], getMaxScore(getVariant(cell.config.variant)));
+    return {
+      name: cell.name,
+      values: cell.values,
+      avgScore: m.avgScore,
+      stdError: m.stdError,
+      ci95: m.ci95,
+      perfectRate: m.perfectRate,
+      perfectRateCi95: m.perfectRateCi95,
+    };
+  });
+  return { dimensions: result.dimensions, gameCount: result.seeds.length, rows };
+}
+
 /**
- * Welch's t-test for comparing two independent samples (unequal variances).
+ * Welch's t-test for comparing two independent samples (unequal variances). The p-value and CI use
+ * the normal approximation (valid for n > 30; typical sim runs 1000+ games); pairedTTest uses
+ * Student's t.
  */
 export function tTest(scoresA: number[], scoresB: number[]): TTestResult {
   const nA = scoresA.length;
@@ -104,6 +222,8 @@ export function tTest(scoresA: number[], scoresB: number[]): TTestResult {
       pValue: 1,
       meanDiff: 0,
       ci95: { lower: 0, upper: 0 },
+      t: 0,
+      cohensD: 0,
     };
   }
 
@@ -111,69 +231,257 @@ export function tTest(scoresA: number[], scoresB: number[]): TTestResult {
   const meanB = mean(scoresB);
   const varA = sampleStdDev(scoresA, meanA) ** 2;
   const varB = sampleStdDev(scoresB, meanB) ** 2;
-  const seA = varA / nA;
-  const seB = varB / nB;
-  const seDiff = Math.sqrt(seA + seB);
+  const seDiff = Math.sqrt(varA / nA + varB / nB);
+  const meanDiff = meanA - meanB;
+  const cohensD = standardize(meanDiff, Math.sqrt((varA + varB) / 2));
   if (seDiff === 0) {
     return {
-      pValue: meanA === meanB ? 1 : 0,
-      meanDiff: meanA - meanB,
-      ci95: { lower: meanA - meanB, upper: meanA - meanB },
+      pValue: meanDiff === 0 ? 1 : 0,
+      meanDiff,
+      ci95: { lower: meanDiff, upper: meanDiff },
+      t: meanDiff === 0 ? 0 : Math.sign(meanDiff) * Infinity,
+      cohensD,
     };
   }
 
-  const t = (meanA - meanB) / seDiff;
-  // Normal approximation (valid for n > 30; typical sim runs 1000+ games)
-  const pValue = 2 * (1 - normalCdf(Math.abs(t)));
+  const t = meanDiff / seDiff;
   const halfWidth = 1.96 * seDiff;
-  const meanDiff = meanA - meanB;
+  return {
+    pValue: 2 * (1 - normalCdf(Math.abs(t))),
+    meanDiff,
+    ci95: { lower: meanDiff - halfWidth, upper: meanDiff + halfWidth },
+    t,
+    cohensD,
+  };
+}
+
+function standardize(diff: number, sd: number): number {
+  if (sd === 0) return diff === 0 ? 0 : Math.sign(diff) * Infinity;
+  return diff / sd;
+}
 
+/** Two-sided p-value and 95% CI for a mean difference with the given standard error. */
+function tTestResult(meanDiff: number, se: number, df: number): Omit<TTestResult, 'cohensD'> {
+  if (se === 0) {
+    return {
+      pValue: meanDiff === 0 ? 1 : 0,
+      meanDiff,
+      ci95: { lower: meanDiff, upper: meanDiff },
+      t: meanDiff === 0 ? 0 : Math.sign(meanDiff) * Infinity,
+    };
+  }
+  const t = meanDiff / se;
+  const halfWidth = studentTQuantile(0.975, df) * se;
   return {
-    pValue,
+    pValue: Math.min(1, 2 * studentTCdf(-Math.abs(t), df)),
     meanDiff,
     ci95: { lower: meanDiff - halfWidth, upper: meanDiff + halfWidth },
+    t,
   };
 }
 
-function normalCdf(x: number): number {
-  const a1 = 0.254829592;
-  const a2 = -0.284496736;
-  const a3 = 1.421413741;
-  const a4 = -1.453152027;
-  const a5 = 1.061405429;
-  const p = 0.3275911;
+/** Per-seed differences A − B; both score lists must follow the same seed list. */
+function pairedDifferences(scoresA: number[], scoresB: number[]): number[] {
+  if (scoresA.length !== scoresB.length) {
+    throw new Error(
+      `Paired tests need both strategies on the same seeds (got ${scoresA.length} and ${scoresB.length} games)`
+    );
+  }
+  return scoresA.map((a, i) => a - scoresB[i]);
+}
 
-  const t = 1 / (1 + p * Math.abs(x));
-  const y =
-    1 -
-    ((((a5 * t + a4) * t + a3) * t + a2) * t + a1) * t * Math.exp(-x * x);
-  return x >= 0 ? y : 1 - y;
+/**
+ * Paired t-test on per-seed score differences. Since every strategy plays the same seeds, the
+ * deal's luck cancels out of each difference, so this needs far fewer games than tTest.
+ */
+export function pairedTTest(scoresA: number[], scoresB: number[]): TTestResult {
+  const diffs = pairedDifferences(scoresA, scoresB);
+  const n = diffs.length;
+  if (n < 2) {
+    const meanDiff = n === 1 ? diffs[0] : 0;
+    return { pValue: 1, meanDiff, ci95: { lower: meanDiff, upper: meanDiff }, t: 0, cohensD: 0 };
+  }
+  const meanDiff = mean(diffs);
+  const sd = sampleStdDev(diffs, meanDiff);
+  return { ...tTestResult(meanDiff, sd / Math.sqrt(n), n - 1), cohensD: standardize(meanDiff, sd) };
+}
+
+/** Above this many nonzero differences the signed-rank test uses the normal approximation. */
+const WILCOXON_EXACT_MAX_N = 100;
+
+export interface RankTestResult {
+  pValue: number;
+  /** W+ (sum of ranks of positive differences) or, for the sign test, the count of positive differences. */
+  statistic: number;
+  /** Pairs with a nonzero difference; ties are dropped. */
+  n: number;
+  /** 1 if A tends to score higher, -1 if B does, 0 if neither. */
+  direction: -1 | 0 | 1;
+}
+
+/**
+ * Wilcoxon signed-rank test on per-seed differences. Zero differences are dropped and tied
+ * magnitudes get average ranks. Exact (conditional on the ties) up to WILCOXON_EXACT_MAX_N
+ * differences, otherwise the normal approximation with tie and continuity corrections.
+ */
+export function wilcoxonSignedRank(scoresA: number[], scoresB: number[]): RankTestResult {
+  const diffs = pairedDifferences(scoresA, scoresB).filter((d) => d !== 0);
+  const n = diffs.length;
+  if (n === 0) return { pValue: 1, statistic: 0, n: 0, direction: 0 };
+
+  // Doubled average ranks are integers, which the exact distribution below needs
+  const order = diffs.map((d, i) => i).sort((i, j) => Math.abs(diffs[i]) - Math.abs(diffs[j]));
+  const doubledRanks = new Array<number>(n);
+  let tieCorrection = 0;
+  for (let start = 0; start < n; ) {
+    let end = start;
+    while (end + 1 < n && Math.abs(diffs[order[end + 1]]) === Math.abs(diffs[order[start]])) end++;
+    for (let k = start; k <= end; k++) doubledRanks[order[k]] = start + end + 2;
+    const ties = end - start + 1;
+    tieCorrection += ties ** 3 - ties;
+    start = end + 1;
+  }
+  const doubledW = diffs.reduce((sum, d, i) => (d > 0 ? sum + doubledRanks[i] : sum), 0);
+  const statistic = doubledW / 2;
+  const expected = (n * (n + 1)) / 4;
+  const direction = statistic > expected ? 1 : statistic < expected ? -1 : 0;
+
+  let pValue: number;
+  if (n <= WILCOXON_EXACT_MAX_N) {
+    // probs[s] = P(doubled W+ = s) when each difference's sign is a fair coin
+    let probs = [1];
+    for (const r of doubledRanks) {
+      const next = new Array<number>(probs.length + r).fill(0);
+      for (let s = 0; s < probs.length; s++) {
+        next[s] += probs[s] / 2;
+        next[s + r] += probs[s] / 2;
+      }
+      probs = next;
+    }
+    let lower = 0;
+    let upper = 0;
+    probs.forEach((p, s) => {
+      if (s <= doubledW) lower += p;
+      if (s >= doubledW) upper += p;
+    });
+    pValue = Math.min(1, 2 * Math.min(lower, upper));
+  } else {
+    const variance = (n * (n + 1) * (2 * n + 1)) / 24 - tieCorrection / 48;
+    const z = Math.max(0, Math.abs(statistic - expected) - 0.5) / Math.sqrt(variance);
+    pValue = Math.min(1, 2 * (1 - normalCdf(z)));
+  }
+  return { pValue, statistic, n, direction };
+}
+
+/** Exact two-sided sign test: how often A beat B on a seed, ignoring ties and margins. */
+export function signTest(scoresA: number[], scoresB: number[]): RankTestResult {
+  const diffs = pairedDifferences(scoresA, scoresB).filter((d) => d !== 0);
+  const n = diffs.length;
+  const wins = diffs.filter((d) => d > 0).length;
+  if (n === 0) return { pValue: 1, statistic: 0, n: 0, direction: 0 };
+  const lower = binomialCdf(wins, n, 0.5);
+  const upper = 1 - binomialCdf(wins - 1, n, 0.5);
+  return {
+    pValue: Math.min(1, 2 * Math.min(lower, upper)),
+    statistic: wins,
+    n,
+    direction: 2 * wins > n ? 1 : 2 * wins < n ? -1 : 0,
+  };
+}
+
+export type ComparisonTest = 'welch' | 'paired-t' | 'wilcoxon' | 'sign';
+
+/** Display names; the keys are the values accepted by compareScores and the compare endpoint. */
+export const COMPARISON_TESTS: Record<ComparisonTest, string> = {
+  welch: "Welch's t-test (unpaired)",
+  'paired-t': 'paired t-test',
+  wilcoxon: 'Wilcoxon signed-rank test',
+  sign: 'exact sign test',
+};
+
+export function isComparisonTest(value: unknown): value is ComparisonTest {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(COMPARISON_TESTS, value);
+}
+
+export interface ComparisonResult {
+  test: ComparisonTest;
+  pValue: number;
+  /** mean(A) − mean(B). */
+  meanDiff: number;
+  /** 95% CI for meanDiff; t-tests only. */
+  ci95?: { lower: number; upper: number };
+  /** t for the t-tests (omitted when infinite), otherwise as in RankTestResult. */
+  statistic?: number;
+  /** As in TTestResult; t-tests only, omitted when infinite. */
+  cohensD?: number;
+  /** Games per strategy for the t-tests; pairs with a nonzero difference for the others. */
+  n: number;
+  direction: -1 | 0 | 1;
+}
+
+/**
+ * Compares two strategies' scores with the chosen test. The paired tests (everything but
+ * 'welch') require both score lists to follow the same seeds, as every run here does.
+ */
+export function compareScores(
+  scoresA: number[],
+  scoresB: number[],
+  test: ComparisonTest = 'paired-t'
+): ComparisonResult {
+  const meanDiff = mean(scoresA) - mean(scoresB);
+  if (test === 'welch' || test === 'paired-t') {
+    const tt = test === 'welch' ? tTest(scoresA, scoresB) : pairedTTest(scoresA, scoresB);
+    return {
+      test,
+      pValue: tt.pValue,
+      meanDiff: tt.meanDiff,
+      ci95: tt.ci95,
+      ...(Number.isFinite(tt.t) && { statistic: tt.t }),
+      ...(Number.isFinite(tt.cohensD) && { cohensD: tt.cohensD }),
+      n: scoresA.length,
+      direction: tt.meanDiff > 0 ? 1 : tt.meanDiff < 0 ? -1 : 0,
+    };
+  }
+  const rank = test === 'wilcoxon' ? wilcoxonSignedRank(scoresA, scoresB) : signTest(scoresA, scoresB);
+  return { test, meanDiff, ...rank };
+}
+
+/** One-line verdict at the 5% level, naming the strategy the test favors. */
+export function comparisonConclusion(nameA: string, nameB: string, result: ComparisonResult): string {
+  if (result.pValue >= 0.05 || result.direction === 0) return 'No significant difference';
+  return `${result.direction > 0 ? nameA : nameB} statistically better`;
+}
+
+function percentagePoints(rate: number): string {
+  return `${rate >= 0 ? '+' : ''}${(rate * 100).toFixed(1)} pp`;
 }
 
 export function formatComparison(
   nameA: string,
   nameB: string,
   resultA: StrategyResult,
-  resultB: StrategyResult
+  resultB: StrategyResult,
+  test: ComparisonTest = 'paired-t'
 ): string {
   const metricsA = computeAggregateMetrics(resultA);
   const metricsB = computeAggregateMetrics(resultB);
-  const tt = tTest(resultA.scores, resultB.scores);
+  const comparison = compareScores(resultA.scores, resultB.scores, test);
 
   const lines: string[] = [];
   lines.push(`${nameA} avg: ${metricsA.avgScore.toFixed(2)} ± ${metricsA.stdError.toFixed(2)}`);
   lines.push(`${nameB} avg: ${metricsB.avgScore.toFixed(2)} ± ${metricsB.stdError.toFixed(2)}`);
-  lines.push(`p-value: ${tt.pValue.toFixed(3)}`);
-
-  let conclusion: string;
-  if (tt.pValue >= 0.05) {
-    conclusion = 'No significant difference';
-  } else if (metricsA.avgScore > metricsB.avgScore) {
-    conclusion = `${nameA} statistically better`;
-  } else {
-    conclusion = `${nameB} statistically better`;
-  }
-  lines.push(`Conclusion: ${conclusion}`);
+  lines.push(`Test: ${COMPARISON_TESTS[test]} (n = ${comparison.n})`);
+  lines.push(`p-value: ${comparison.pValue.toFixed(3)}`);
+  if (comparison.cohensD !== undefined) lines.push(`Cohen's d: ${comparison.cohensD.toFixed(3)}`);
+  const perfect = bootstrapRateDifference(
+    resultA.perGameMetrics.map((m) => m.isPerfect),
+    resultB.perGameMetrics.map((m) => m.isPerfect)
+  );
+  lines.push(
+    `Perfect rate difference: ${percentagePoints(perfect.diff)} ` +
+      `(95% CI [${percentagePoints(perfect.ci95.lower)}, ${percentagePoints(perfect.ci95.upper)}])`
+  );
+  lines.push(`Conclusion: ${comparisonConclusion(nameA, nameB, comparison)}`);
 
   return lines.join('\n');
 }
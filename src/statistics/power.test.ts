@@ -0,0 +1,52 @@
+import { requiredGames, achievedPower, planFromPilot, formatPowerPlan } from './power';
+
+describe('requiredGames', () => {
+  it('matches textbook one-sample t-test sample sizes', () => {
+    // d = 0.5 at 80% power, α = 0.05 two-sided: 34 (G*Power)
+    expect(requiredGames(0.5, 1)).toBe(34);
+    // d = 0.2: 199
+    expect(requiredGames(0.2, 1)).toBe(199);
+  });
+
+  it('grows with the power asked for and handles degenerate input', () => {
+    expect(requiredGames(0.5, 1, { power: 0.9 })).toBeGreaterThan(requiredGames(0.5, 1));
+    expect(requiredGames(0, 1)).toBe(Infinity);
+    expect(requiredGames(0.1, 0)).toBe(2);
+  });
+
+  it('is consistent with achievedPower', () => {
+    const n = requiredGames(0.1, 2.5);
+    expect(achievedPower(n, 0.1, 2.5)).toBeGreaterThanOrEqual(0.8);
+    expect(achievedPower(n - 5, 0.1, 2.5)).toBeLessThan(0.8);
+  });
+});
+
+describe('planFromPilot', () => {
+  // The per-seed luck is shared, so the paired design needs far fewer games
+  const luck = Array.from({ length: 200 }, (_, i) => ((i * 37) % 11) - 5);
+  const scoresA = luck.map((l, i) => 15 + l + (i % 2));
+  const scoresB = luck.map((l, i) => 15 + l + ((i + 1) % 3) * 0.5);
+
+  it('sizes both designs from the pilot variances', () => {
+    const plan = planFromPilot(scoresA, scoresB, 0.1);
+    expect(plan).toMatchObject({ difference: 0.1, alpha: 0.05, power: 0.8, pilotGames: 200 });
+    expect(plan.paired.games).toBeLessThan(plan.unpaired.games / 10);
+    expect(plan.paired.games).toBe(requiredGames(0.1, plan.paired.sd));
+    expect(plan.paired.cohensD).toBeCloseTo(0.1 / plan.paired.sd, 12);
+    expect(plan.unpaired.cohensD).toBeCloseTo(0.1 / Math.sqrt((plan.unpaired.sdA ** 2 + plan.unpaired.sdB ** 2) / 2), 12);
+    expect(formatPowerPlan('A', 'B', plan)).toContain(
+      `paired (same seeds): ${plan.paired.games.toLocaleString('en-US')} games per strategy`
+    );
+  });
+
+  it('rejects unusable pilots', () => {
+    expect(() => planFromPilot(scoresA, scoresB.slice(1), 0.1)).toThrow(/same seeds/);
+    expect(() => planFromPilot(scoresA, scoresB, 0)).toThrow(/positive/);
+  });
+
+  it('rejects power and alpha outside (0, 1)', () => {
+    expect(() => planFromPilot(scoresA, scoresB, 0.1, { power: 80 })).toThrow(/between 0 and 1/);
+    expect(() => planFromPilot(scoresA, scoresB, 0.1, { alpha: 0 })).toThrow(/between 0 and 1/);
+    expect(() => planFromPilot(scoresA, scoresB, 0.1, { power: NaN })).toThrow('got power NaN');
+  });
+});
@@ -0,0 +1,149 @@
+import { normalQuantile, studentTCdf, studentTQuantile } from './distributions';
+
+export interface PowerOptions {
+  /** Two-sided significance level; default 0.05. */
+  alpha?: number;
+  /** Probability of detecting the difference if it is real; default 0.8. */
+  power?: number;
+}
+
+/** Sample sizes for one design, from the spread seen in the pilot. */
+export interface DesignPower {
+  /** Standard deviation that drives the design: of per-seed differences, or √(sdA² + sdB²). */
+  sd: number;
+  /**
+   * The target difference as an effect size: over the sd of per-seed differences (d_z) for the
+   * paired design, over the pooled sd (d) for the unpaired one.
+   */
+  cohensD: number;
+  /** Games per strategy needed for the requested power. */
+  games: number;
+  /** Power the pilot's own game count has for the target difference. */
+  pilotPower: number;
+}
+
+export interface PowerPlan {
+  /** Target mean difference in points. */
+  difference: number;
+  alpha: number;
+  power: number;
+  pilotGames: number;
+  /** Paired t-test on the same seeds, as every run here plays. */
+  paired: DesignPower;
+  /** Welch's t-test on independent seeds, for comparison. */
+  unpaired: DesignPower & { sdA: number; sdB: number };
+}
+
+/** Above this the answer is "effectively never" rather than a game count. */
+const MAX_GAMES = 1e9;
+
+function sampleStdDev(arr: number[]): number {
+  const n = arr.length;
+  if (n < 2) return 0;
+  const m = arr.reduce((a, b) => a + b, 0) / n;
+  return Math.sqrt(arr.reduce((s, x) => s + (x - m) ** 2, 0) / (n - 1));
+}
+
+/**
+ * Games per strategy for a two-sided t-test on a mean difference whose per-game standard
+ * deviation is sd, i.e. n = ((t_{1−α/2} + t_{power}) · sd / difference)². Starts from the normal
+ * quantiles and refines the t degrees of freedom (df(n)) until n settles.
+ */
+export function requiredGames(
+  difference: number,
+  sd: number,
+  options: PowerOptions = {},
+  df: (n: number) => number = (n) => n - 1
+): number {
+  const alpha = options.alpha ?? 0.05;
+  const power = options.power ?? 0.8;
+  if (difference === 0) return Infinity;
+  if (sd === 0) return 2;
+  const ratio = sd / Math.abs(difference);
+  let n = Math.max(2, Math.ceil(((normalQuantile(1 - alpha / 2) + normalQuantile(power)) * ratio) ** 2));
+  for (let i = 0; i < 20 && n < MAX_GAMES; i++) {
+    const v = df(n);
+    const quantiles = studentTQuantile(1 - alpha / 2, v) + studentTQuantile(power, v);
+    const next = Math.max(2, Math.ceil((quantiles * ratio) ** 2));
+    if (next === n) break;
+    n = next;
+  }
+  return n >= MAX_GAMES ? Infinity : n;
+}
+
+/** Approximate power of a two-sided t-test with n games per strategy (the far tail is ignored). */
+export function achievedPower(
+  games: number,
+  difference: number,
+  sd: number,
+  options: Pick<PowerOptions, 'alpha'> = {},
+  df: (n: number) => number = (n) => n - 1
+): number {
+  const alpha = options.alpha ?? 0.05;
+  if (games < 2) return 0;
+  if (sd === 0) return difference === 0 ? 0 : 1;
+  const v = df(games);
+  const shift = (Math.abs(difference) * Math.sqrt(games)) / sd;
+  return 1 - studentTCdf(studentTQuantile(1 - alpha / 2, v) - shift, v);
+}
+
+/**
+ * How many games it takes to detect `difference` between two strategies, with the standard
+ * deviations observed in a pilot (any earlier run of both strategies on the same seeds).
+ */
+export function planFromPilot(
+  scoresA: number[],
+  scoresB: number[],
+  difference: number,
+  options: PowerOptions = {}
+): PowerPlan {
+  if (scoresA.length !== scoresB.length) {
+    throw new Error(
+      `The pilot must play both strategies on the same seeds (got ${scoresA.length} and ${scoresB.length} games)`
+    );
+  }
+  if (scoresA.length < 2) throw new Error('The pilot needs at least two games per strategy');
+  if (!(difference > 0)) throw new Error('The difference to detect must be a positive number of points');
+  const { power = 0.8, alpha = 0.05 } = options;
+  if (!(power > 0 && power < 1) || !(alpha > 0 && alpha < 1)) {
+    throw new Error(`Power and alpha must be between 0 and 1 (got power ${power}, alpha ${alpha})`);
+  }
+
+  const pilotGames = scoresA.length;
+  const pairedSd = sampleStdDev(scoresA.map((a, i) => a - scoresB[i]));
+  const sdA = sampleStdDev(scoresA);
+  const sdB = sampleStdDev(scoresB);
+  const unpairedSd = Math.sqrt(sdA ** 2 + sdB ** 2);
+  // Welch df with equal group sizes and the pilot's variances
+  const welchDf = (n: number) =>
+    sdA === 0 && sdB === 0 ? 2 * (n - 1) : ((n - 1) * (sdA ** 2 + sdB ** 2) ** 2) / (sdA ** 4 + sdB ** 4);
+
+  const design = (sd: number, effectSd: number, df?: (n: number) => number): DesignPower => ({
+    sd,
+    cohensD: effectSd === 0 ? Infinity : difference / effectSd,
+    games: requiredGames(difference, sd, options, df),
+    pilotPower: achievedPower(pilotGames, difference, sd, options, df),
+  });
+
+  return {
+    difference,
+    alpha,
+    power,
+    pilotGames,
+    paired: design(pairedSd, pairedSd),
+    unpaired: { ...design(unpairedSd, unpairedSd / Math.SQRT2, welchDf), sdA, sdB },
+  };
+}
+
+export function formatPowerPlan(nameA: string, nameB: string, plan: PowerPlan): string {
+  const games = (n: number) => (Number.isFinite(n) ? n.toLocaleString('en-US') : 'more than 10⁹');
+  return [
+    `${nameA} vs ${nameB}: detecting a ${plan.difference}-point difference at ` +
+      `${Math.round(plan.power * 100)}% power (α = ${plan.alpha}), from ${plan.pilotGames} pilot games`,
+    `  paired (same seeds): ${games(plan.paired.games)} games per strategy ` +
+      `(sd of differences ${plan.paired.sd.toFixed(2)}, d_z = ${plan.paired.cohensD.toFixed(3)})`,
+    `  unpaired:            ${games(plan.unpaired.games)} games per strategy ` +
+      `(sd ${plan.unpaired.sdA.toFixed(2)} / ${plan.unpaired.sdB.toFixed(2)}, d = ${plan.unpaired.cohensD.toFixed(3)})`,
+    `  power of the pilot itself: ${(plan.paired.pilotPower * 100).toFixed(0)}% paired`,
+  ].join('\n');
+}
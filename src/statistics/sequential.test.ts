@@ -0,0 +1,55 @@
+import { createStoppingRule, mixtureSprtLogRatio, evaluateLook, formatSequentialDecision } from './sequential';
+
+describe('mixtureSprtLogRatio', () => {
+  it('matches the closed form for the normal mixture', () => {
+    const diffs = [1, 2, 0, 3, 1, 2, 1, 2];
+    const n = diffs.length;
+    const mean = 1.5;
+    const variance = diffs.reduce((s, d) => s + (d - mean) ** 2, 0) / (n - 1);
+    const expected =
+      0.5 * Math.log(variance / (variance + n)) + (n * n * mean * mean) / (2 * variance * (variance + n));
+    expect(mixtureSprtLogRatio(diffs, 1)).toBeCloseTo(expected, 12);
+  });
+
+  it('favors the null when the differences center on zero', () => {
+    expect(mixtureSprtLogRatio([1, -1, 2, -2, 1, -1], 1)).toBeLessThan(0);
+    expect(mixtureSprtLogRatio([0, 0, 0], 1)).toBe(0);
+    expect(mixtureSprtLogRatio([2, 2, 2], 1)).toBe(Infinity);
+  });
+});
+
+describe('evaluateLook', () => {
+  const rule = createStoppingRule(1);
+
+  it('splits alpha between pairs', () => {
+    expect(createStoppingRule(4, { alpha: 0.1 })).toMatchObject({ pairAlpha: 0.025, mixtureSd: 1 });
+    expect(rule.logThreshold).toBeCloseTo(Math.log(20), 12);
+  });
+
+  it('decides a clear pair and keeps the decision at later looks', () => {
+    const strong = Array.from({ length: 50 }, (_, i) => 20 + (i % 3));
+    const weak = strong.map((s, i) => s - 2 - (i % 2));
+    const first = evaluateLook(
+      [
+        { name: 'Weak', scores: weak },
+        { name: 'Strong', scores: strong },
+      ],
+      rule
+    );
+    expect(first.decisions).toEqual([{ a: 'Weak', b: 'Strong', winner: 'Strong', decidedAtGames: 50 }]);
+
+    const later = evaluateLook(
+      [
+        { name: 'Weak', scores: [...weak, ...strong] },
+        { name: 'Strong', scores: [...strong, ...weak] },
+      ],
+      rule,
+      first.decisions
+    );
+    expect(later.look.pairs[0].meanDiff).toBe(0);
+    expect(later.decisions).toEqual(first.decisions);
+    expect(formatSequentialDecision({ reason: 'conclusive', games: 100, pairs: later.decisions })).toBe(
+      'Stopped after 100 games: every comparison is conclusive.\n  Weak vs Strong: Strong better (decided at 50 games)'
+    );
+  });
+});
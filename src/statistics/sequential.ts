@@ -0,0 +1,126 @@
+/**
+ * Sequential comparison of strategies on a shared seed stream. Each pair is monitored with a
+ * mixture SPRT (mSPRT) on its per-seed score differences: the likelihood ratio of "mean difference
+ * δ ~ N(0, τ²)" against "δ = 0" under a normal model. Its type I error stays below α however often
+ * it is checked, so results may be looked at after every batch without adjusting the bound.
+ */
+
+export interface SequentialTestOptions {
+  /** Family-wise error rate across all pairs; Bonferroni-split between them. Default 0.05. */
+  alpha?: number;
+  /** τ, the standard deviation of the mixing prior on the mean difference, in points; default 1. */
+  mixtureSd?: number;
+}
+
+/** How the run decides to stop; recorded in summary.json. */
+export interface StoppingRule {
+  method: 'mixture-sprt';
+  alpha: number;
+  /** alpha / number of pairs. */
+  pairAlpha: number;
+  mixtureSd: number;
+  /** A pair is decided once its log likelihood ratio reaches ln(1 / pairAlpha). */
+  logThreshold: number;
+}
+
+export interface SequentialPairLook {
+  a: string;
+  b: string;
+  /** mean(A) − mean(B) over the games played so far. */
+  meanDiff: number;
+  logLikelihoodRatio: number;
+}
+
+export interface SequentialLook {
+  /** Games per strategy played at this look. */
+  games: number;
+  pairs: SequentialPairLook[];
+}
+
+export interface SequentialPairDecision {
+  a: string;
+  b: string;
+  /** The strategy the test favors, or null when the pair was never decided. */
+  winner: string | null;
+  /** Games per strategy at the look where the pair was decided. */
+  decidedAtGames?: number;
+}
+
+export interface SequentialDecision {
+  /** 'conclusive' when every pair was decided, 'budget' when the seed stream ran out first. */
+  reason: 'conclusive' | 'budget';
+  games: number;
+  pairs: SequentialPairDecision[];
+}
+
+export function createStoppingRule(pairCount: number, options: SequentialTestOptions = {}): StoppingRule {
+  const alpha = options.alpha ?? 0.05;
+  const mixtureSd = options.mixtureSd ?? 1;
+  const pairAlpha = alpha / Math.max(1, pairCount);
+  return { method: 'mixture-sprt', alpha, pairAlpha, mixtureSd, logThreshold: Math.log(1 / pairAlpha) };
+}
+
+/**
+ * Log of the mSPRT likelihood ratio for paired differences, with the sample variance plugged in
+ * for σ². Infinite when every difference is the same nonzero value.
+ */
+export function mixtureSprtLogRatio(diffs: number[], mixtureSd: number): number {
+  const n = diffs.length;
+  if (n < 2) return 0;
+  const mean = diffs.reduce((s, d) => s + d, 0) / n;
+  const variance = diffs.reduce((s, d) => s + (d - mean) ** 2, 0) / (n - 1);
+  if (variance === 0) return mean === 0 ? 0 : Infinity;
+  const tau2 = mixtureSd ** 2;
+  const spread = variance + n * tau2;
+  return 0.5 * Math.log(variance / spread) + (n * n * tau2 * mean * mean) / (2 * variance * spread);
+}
+
+/**
+ * Evaluates one look: every pair's ratio on the games so far, and the decisions so far. A pair
+ * stays decided once it crosses the threshold; decisions from earlier looks are kept.
+ */
+export function evaluateLook(
+  results: { name: string; scores: number[] }[],
+  rule: StoppingRule,
+  previous: SequentialPairDecision[] = []
+): { look: SequentialLook; decisions: SequentialPairDecision[] } {
+  const pairs: SequentialPairLook[] = [];
+  const decisions: SequentialPairDecision[] = [];
+  const games = results.length > 0 ? results[0].scores.length : 0;
+  for (let i = 0; i < results.length; i++) {
+    for (let j = i + 1; j < results.length; j++) {
+      const a = results[i];
+      const b = results[j];
+      const diffs = a.scores.map((s, k) => s - b.scores[k]);
+      const meanDiff = diffs.length > 0 ? diffs.reduce((s, d) => s + d, 0) / diffs.length : 0;
+      const logLikelihoodRatio = mixtureSprtLogRatio(diffs, rule.mixtureSd);
+      pairs.push({ a: a.name, b: b.name, meanDiff, logLikelihoodRatio });
+
+      const earlier = previous.find((d) => d.a === a.name && d.b === b.name);
+      if (earlier?.winner) {
+        decisions.push(earlier);
+      } else if (logLikelihoodRatio >= rule.logThreshold && meanDiff !== 0) {
+        decisions.push({ a: a.name, b: b.name, winner: meanDiff > 0 ? a.name : b.name, decidedAtGames: games });
+      } else {
+        decisions.push({ a: a.name, b: b.name, winner: null });
+      }
+    }
+  }
+  return { look: { games, pairs }, decisions };
+}
+
+export function formatSequentialDecision(decision: SequentialDecision): string {
+  const lines = [
+    decision.reason === 'conclusive'
+      ? `Stopped after ${decision.games} games: every comparison is conclusive.`
+      : `Stopped at the budget of ${decision.games} games.`,
+  ];
+  for (const p of decision.pairs) {
+    lines.push(
+      p.winner
+        ? `  ${p.a} vs ${p.b}: ${p.winner} better (decided at ${p.decidedAtGames} games)`
+        : `  ${p.a} vs ${p.b}: inconclusive`
+    );
+  }
+  return lines.join('\n');
+}
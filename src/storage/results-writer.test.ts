@@ -4,6 +4,7 @@ import { writeResults } from './results-writer';
 import type { SimulationResult } from '../simulator/runner';
 import { createDefaultConfig } from '../config';
 import { Color } from '../engine/types';
+import { DEFAULT_RULES } from '../engine/rules';
 
 describe('writeResults', () => {
   const mockResult: SimulationResult = {
@@ -12,9 +13,9 @@ describe('writeResults', () => {
         name: 'TestStrategy',
         scores: [10, 20, 30],
         perGameMetrics: [
-          { score: 10, isPerfect: false, livesRemaining: 2, hintsRemaining: 5, misplayCount: 1, endReason: 'lives_zero' },
-          { score: 20, isPerfect: false, livesRemaining: 3, hintsRemaining: 6, misplayCount: 0, endReason: 'deck_empty' },
-          { score: 30, isPerfect: false, livesRemaining: 1, hintsRemaining: 4, misplayCount: 2, endReason: 'lives_zero' },
+          { score: 10, isPerfect: false, livesRemaining: 2, hintsRemaining: 5, misplayCount: 1, invalidActionCount: 0, criticalDiscardCount: 0, endReason: 'lives_zero' },
+          { score: 20, isPerfect: false, livesRemaining: 3, hintsRemaining: 6, misplayCount: 0, invalidActionCount: 0, criticalDiscardCount: 0, endReason: 'deck_empty' },
+          { score: 30, isPerfect: false, livesRemaining: 1, hintsRemaining: 4, misplayCount: 2, invalidActionCount: 1, criticalDiscardCount: 2, endReason: 'lives_zero' },
         ],
         timing: { totalMs: 10, avgPerGameMs: 3.33, avgDecisionMs: 0.1, maxDecisionMs: 0.5 },
       },
@@ -34,6 +35,7 @@ describe('writeResults', () => {
     const summary = JSON.parse(fs.readFileSync(path.join(outputDir, 'summary.json'), 'utf-8'));
     expect(summary.strategyNames).toContain('TestStrategy');
     expect(summary.gameCount).toBe(3);
+    expect(summary.seeds).toEqual([0, 1, 2]);
 
     const rawScores = JSON.parse(fs.readFileSync(path.join(outputDir, 'raw_scores.json'), 'utf-8'));
     expect(rawScores.TestStrategy).toEqual([10, 20, 30]);
@@ -41,6 +43,22 @@ describe('writeResults', () => {
     const stats = JSON.parse(fs.readFileSync(path.join(outputDir, 'stats.json'), 'utf-8'));
     expect(stats.TestStrategy.avgScore).toBe(20);
     expect(stats.TestStrategy.scoreHistogram).toHaveLength(26);
+    expect(stats.TestStrategy.invalidActionCount).toBe(1);
+    expect(stats.TestStrategy.avgCriticalDiscards).toBeCloseTo(2 / 3);
+    expect(fs.existsSync(path.join(outputDir, 'comparisons.json'))).toBe(false);
+  });
+
+  it('writes comparisons.json when several strategies ran', () => {
+    const other = { ...mockResult.results[0], name: 'OtherStrategy', scores: [12, 21, 33] };
+    const outputDir = writeResults(
+      { ...mockResult, results: [...mockResult.results, other] },
+      createDefaultConfig()
+    );
+
+    const comparisons = JSON.parse(fs.readFileSync(path.join(outputDir, 'comparisons.json'), 'utf-8'));
+    expect(comparisons).toMatchObject({ test: 'paired-t', correction: 'holm', gameCount: 3 });
+    expect(comparisons.pairs).toHaveLength(1);
+    expect(comparisons.leaderboard.map((e: { name: string }) => e.name)).toEqual(['OtherStrategy', 'TestStrategy']);
   });
 
   it('writes traces/ in debug mode', () => {
@@ -51,6 +69,9 @@ describe('writeResults', () => {
           traces: [
             {
               seed: 42,
+              playerCount: 2,
+              variant: 'standard',
+              rules: DEFAULT_RULES,
               initialDeckOrder: [{ id: 0, color: Color.Red, value: 1 }],
               events: [
                 { type: 'play', playerIndex: 0, cardIndex: 0, success: false },
@@ -91,5 +112,9 @@ describe('writeResults', () => {
       misplayCount: 1,
     });
     expect(entry.filename).toBe('TestStrategy_42_0.json');
+    expect(entry.lostPoints).toMatchObject({ 'deck-out': 10, 'critical-discard': 0, bomb: 0 });
+
+    const stats = JSON.parse(fs.readFileSync(path.join(outputDir, 'stats.json'), 'utf-8'));
+    expect(stats.TestStrategy.lossAttribution).toMatchObject({ games: 1, avgLostPoints: 10 });
   });
 });
@@ -1,28 +1,76 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import type { SimulationResult } from '../simulator/runner';
+import type { SimulationResult, ActionViolation } from '../simulator/runner';
 import type { GameConfig } from '../config';
-import { computeAggregateMetrics } from '../statistics/metrics';
-import type { AggregateMetrics } from '../statistics/metrics';
+import type { CrossPlayResult } from '../simulator/cross-play';
+import type { SweepResult } from '../simulator/sweep';
+import type { SequentialRecord } from '../simulator/sequential';
+import { computeAggregateMetrics, computeCrossPlayMatrix, computeSweepTable } from '../statistics/metrics';
+import type { AggregateMetrics, SweepTable } from '../statistics/metrics';
+import { compareAllPairs, MAX_ALL_PAIRS_STRATEGIES } from '../statistics/comparisons';
+import { attributeLosses, summarizeLosses } from '../statistics/loss-attribution';
+import type { LossAttribution, LossCause, LossSummary } from '../statistics/loss-attribution';
+import { getVariant, getMaxScore } from '../engine/variants';
+
+export interface WriteResultsOptions {
+  /** Full cross-play result; pass its cell list as the simulation result. */
+  crossPlay?: CrossPlayResult;
+  /** Full sweep result; pass its per-cell results as the simulation result. */
+  sweep?: SweepResult;
+  /** Stopping rule, looks and decision of a sequential run; recorded in summary.json. */
+  sequential?: SequentialRecord;
+  /** Existing directory to write into (a sweep's checkpoint directory) instead of a new one. */
+  resultsDir?: string;
+}
+
+/**
+ * Creates results/{timestamp}/ under baseDir. Directories created within the same second get a
+ * numeric suffix instead of overwriting each other.
+ */
+export function createResultsDir(baseDir = process.cwd()): string {
+  const baseTimestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  let timestamp = baseTimestamp;
+  for (let n = 1; fs.existsSync(path.join(baseDir, 'results', timestamp)); n++) {
+    timestamp = `${baseTimestamp}-${n}`;
+  }
+  const resultsDir = path.join(baseDir, 'results', timestamp);
+  fs.mkdirSync(resultsDir, { recursive: true });
+  return resultsDir;
+}
 
 /**
  * Writes simulation results to results/{timestamp}/. Returns the output directory path.
+ * Invalid actions recorded under a lenient invalid-action policy go to violations.json.
+ * A cross-play matrix is written to crossplay.json; a sweep's table to sweep.json and sweep.csv.
+ * A sequential run's stopping record goes into summary.json. With traces (debug logging), each
+ * trace's lost points by cause go into the trace index and their means into stats.json.
+ * With 2 to MAX_ALL_PAIRS_STRATEGIES results, comparisons.json holds every pairwise comparison
+ * (paired t-test, Holm correction) and the tiered leaderboard.
  */
 export function writeResults(
   simulationResult: SimulationResult,
-  config: GameConfig
+  config: GameConfig,
+  options: WriteResultsOptions = {}
 ): string {
-  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
-  const resultsDir = path.join(process.cwd(), 'results', timestamp);
-  fs.mkdirSync(resultsDir, { recursive: true });
+  const { crossPlay, sweep, sequential } = options;
+  const resultsDir = options.resultsDir ?? createResultsDir();
+  const timestamp = path.basename(resultsDir);
 
   const rawScores: Record<string, number[]> = {};
-  const stats: Record<string, AggregateMetrics> = {};
+  const stats: Record<string, AggregateMetrics & { lossAttribution?: LossSummary }> = {};
+  const lossAttributions: Record<string, LossAttribution[]> = {};
+  const maxScore = getMaxScore(getVariant(config.variant));
 
-  for (const result of simulationResult.results) {
+  simulationResult.results.forEach((result, i) => {
+    // Swept variants can differ in max score, which sizes the histogram
+    const variant = sweep ? sweep.cells[i].config.variant : config.variant;
     rawScores[result.name] = result.scores;
-    stats[result.name] = computeAggregateMetrics(result);
-  }
+    stats[result.name] = computeAggregateMetrics(result, getMaxScore(getVariant(variant)));
+    if (result.traces) {
+      lossAttributions[result.name] = result.traces.map(attributeLosses);
+      stats[result.name].lossAttribution = summarizeLosses(lossAttributions[result.name]);
+    }
+  });
 
   const strategyTiming: Record<string, { totalMs: number; avgPerGameMs: number }> = {};
   for (const r of simulationResult.results) {
@@ -33,17 +81,35 @@ export function writeResults(
     timestamp,
     strategyNames: simulationResult.results.map((r) => r.name),
     gameCount: simulationResult.seeds.length,
+    seeds: simulationResult.seeds,
     strategyTiming,
     config: {
-      playerCount: 2,
+      playerCount: config.playerCount,
+      variant: config.variant,
+      maxScore,
+      rules: config.rules,
       hintTokens: config.hintTokens,
       lifeTokens: config.lifeTokens,
       loggingMode: config.loggingMode,
+      invalidActionPolicy: config.invalidActionPolicy,
     },
   };
 
+  if (crossPlay) {
+    summaryPayload.mode = 'crossplay';
+    summaryPayload.crossPlayStrategies = crossPlay.strategyNames;
+  }
+  if (sweep) {
+    summaryPayload.mode = 'sweep';
+    summaryPayload.sweepDimensions = sweep.dimensions;
+  }
+  if (sequential) {
+    summaryPayload.mode = 'sequential';
+    summaryPayload.sequential = sequential;
+  }
+
   if (config.loggingMode === 'debug') {
-    const traceIndex: Record<string, { seed: number; score: number; endReason: string; livesRemaining: number; hintsRemaining: number; misplayCount: number; filename: string }[]> = {};
+    const traceIndex: Record<string, { seed: number; score: number; endReason: string; livesRemaining: number; hintsRemaining: number; misplayCount: number; lostPoints: Record<LossCause, number>; filename: string }[]> = {};
     for (const result of simulationResult.results) {
       if (!result.traces) continue;
       traceIndex[result.name] = result.traces.map((trace, i) => {
@@ -55,6 +121,7 @@ export function writeResults(
           livesRemaining: trace.finalState.livesRemaining,
           hintsRemaining: trace.finalState.hintsRemaining,
           misplayCount,
+          lostPoints: lossAttributions[result.name][i].byCause,
           filename: `${sanitizeFilename(result.name)}_${trace.seed}_${i}.json`,
         };
       });
@@ -77,6 +144,38 @@ export function writeResults(
     JSON.stringify(stats, null, 2)
   );
 
+  const violations: Record<string, ActionViolation[]> = {};
+  for (const r of simulationResult.results) {
+    if (r.violations && r.violations.length > 0) violations[r.name] = r.violations;
+  }
+  if (Object.keys(violations).length > 0) {
+    fs.writeFileSync(
+      path.join(resultsDir, 'violations.json'),
+      JSON.stringify(violations, null, 2)
+    );
+  }
+
+  const resultCount = simulationResult.results.length;
+  if (resultCount >= 2 && resultCount <= MAX_ALL_PAIRS_STRATEGIES) {
+    fs.writeFileSync(
+      path.join(resultsDir, 'comparisons.json'),
+      JSON.stringify(compareAllPairs(simulationResult.results), null, 2)
+    );
+  }
+
+  if (crossPlay) {
+    fs.writeFileSync(
+      path.join(resultsDir, 'crossplay.json'),
+      JSON.stringify(computeCrossPlayMatrix(crossPlay, maxScore), null, 2)
+    );
+  }
+
+  if (sweep) {
+    const table = computeSweepTable(sweep);
+    fs.writeFileSync(path.join(resultsDir, 'sweep.json'), JSON.stringify(table, null, 2));
+    fs.writeFileSync(path.join(resultsDir, 'sweep.csv'), formatSweepCsv(table));
+  }
+
   if (config.loggingMode === 'debug') {
     const tracesDir = path.join(resultsDir, 'traces');
     fs.mkdirSync(tracesDir, { recursive: true });
@@ -97,6 +196,28 @@ export function writeResults(
   return resultsDir;
 }
 
+function csvField(text: string): string {
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per sweep cell and one column per dimension, for spreadsheets and plotting tools. */
+function formatSweepCsv(table: SweepTable): string {
+  const dims = table.dimensions.map((d) => d.name);
+  const lines = [['name', ...dims, 'avgScore', 'stdError', 'ci95Lower', 'ci95Upper', 'perfectRate']];
+  for (const row of table.rows) {
+    lines.push([
+      row.name,
+      ...dims.map((d) => String(row.values[d])),
+      String(row.avgScore),
+      String(row.stdError),
+      String(row.ci95.lower),
+      String(row.ci95.upper),
+      String(row.perfectRate),
+    ]);
+  }
+  return lines.map((cells) => cells.map(csvField).join(',')).join('\n') + '\n';
+}
+
 function sanitizeFilename(name: string): string {
   return name.replace(/[^a-zA-Z0-9_-]/g, '_');
 }
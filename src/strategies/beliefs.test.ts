@@ -0,0 +1,215 @@
+import {
+  countUnseenCopies,
+  getOwnCardBelief,
+  getOwnBeliefs,
+  getHolderCardBelief,
+  probabilityPlayable,
+  probabilityTrash,
+  probabilityCritical,
+} from './beliefs';
+import type { Observation } from './types';
+import type { GameEvent } from '../engine/events';
+import { Color } from '../engine/types';
+import { DEFAULT_RULES, withHintMode } from '../engine/rules';
+import { createInitialState } from '../engine/game-state';
+import { buildObservation } from '../engine/observation';
+import { executeAction } from '../engine/game-engine';
+import { getLegalActions } from '../engine/actions';
+import { createSeededRNG } from '../engine/seeded-rng';
+
+function createMockObservation(overrides: Partial<Observation> = {}): Observation {
+  return {
+    visibleCards: {},
+    observerSeat: 0,
+    playerCount: 2,
+    variantId: 'standard',
+    rules: DEFAULT_RULES,
+    ownHandSize: 5,
+    ownCardIds: [10, 20, 30, 40, 50],
+    hintsRemaining: 8,
+    livesRemaining: 3,
+    discardPile: [],
+    playedStacks: { 0: 0, 1: 0, 2: 0, 3: 0, 4: 0 },
+    deckCount: 40,
+    actionHistory: [],
+    ...overrides,
+  };
+}
+
+function hint(
+  targetPlayer: number,
+  hintType: 'color' | 'number',
+  hintValue: number,
+  matchedCardIds: number[]
+): GameEvent {
+  return {
+    type: 'hint',
+    playerIndex: (targetPlayer + 1) % 2,
+    targetPlayer,
+    hintType,
+    hintValue,
+    matchedCardIndices: [],
+    matchedCardIds,
+  };
+}
+
+describe('getOwnCardBelief', () => {
+  it('returns undefined for out-of-range slot', () => {
+    const obs = createMockObservation();
+    expect(getOwnCardBelief(obs, -1)).toBeUndefined();
+    expect(getOwnCardBelief(obs, 5)).toBeUndefined();
+  });
+
+  it('weights an unhinted card by the full deck composition', () => {
+    const belief = getOwnCardBelief(createMockObservation(), 0)!;
+    expect(belief.cardId).toBe(10);
+    expect(belief.identities).toHaveLength(25);
+    expect(belief.totalWeight).toBe(50);
+    expect(belief.identities.find((i) => i.color === Color.Red && i.value === 1)?.weight).toBe(3);
+  });
+
+  it('removes visible, discarded and played copies', () => {
+    const obs = createMockObservation({
+      visibleCards: { 1: [{ cardId: 1, color: Color.Red, value: 1 }] },
+      discardPile: [{ id: 2, color: Color.Red, value: 1 }],
+      playedStacks: { 0: 1, 1: 0, 2: 0, 3: 0, 4: 0 },
+    });
+    const belief = getOwnCardBelief(obs, 0)!;
+    expect(belief.identities.some((i) => i.color === Color.Red && i.value === 1)).toBe(false);
+    expect(belief.totalWeight).toBe(47);
+    expect(countUnseenCopies(obs, Color.Red, 1)).toBe(0);
+  });
+
+  it('applies positive and negative hint information', () => {
+    const obs = createMockObservation({
+      actionHistory: [hint(0, 'color', Color.Blue, [10]), hint(0, 'number', 5, [20])],
+    });
+    const blue = getOwnCardBelief(obs, 0)!;
+    expect(new Set(blue.identities.map((i) => i.color))).toEqual(new Set([Color.Blue]));
+    // Slot 0 was not touched by the 5 hint, so it cannot be the blue 5
+    expect(blue.identities.map((i) => i.value)).toEqual([1, 2, 3, 4]);
+    expect(blue.totalWeight).toBe(9);
+
+    const other = getOwnCardBelief(obs, 2)!;
+    expect(other.identities.some((i) => i.color === Color.Blue || i.value === 5)).toBe(false);
+  });
+
+  it('gives no negative information to a card drawn after the hint', () => {
+    // Slot 0 (id 10) was discarded after a 5 hint touching nothing; id 60 was drawn in its place
+    const obs = createMockObservation({
+      rules: withHintMode(DEFAULT_RULES, 'empty-clues'),
+      ownCardIds: [20, 30, 40, 50, 60],
+      deckCount: 39,
+      actionHistory: [
+        hint(0, 'number', 5, []),
+        { type: 'discard', playerIndex: 0, cardIndex: 0, card: { id: 10, color: Color.Red, value: 2 } },
+      ],
+    });
+    const drawn = getOwnCardBelief(obs, 4)!;
+    expect(drawn.identities.some((i) => i.value === 5)).toBe(true);
+    const held = getOwnCardBelief(obs, 0)!;
+    expect(held.identities.some((i) => i.value === 5)).toBe(false);
+  });
+
+  it('applies variant touch rules (rainbow is touched by every color hint)', () => {
+    const obs = createMockObservation({
+      variantId: 'rainbow',
+      playedStacks: { 0: 0, 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 },
+      actionHistory: [hint(0, 'color', Color.Red, [10])],
+    });
+    const colors = new Set(getOwnCardBelief(obs, 0)!.identities.map((i) => i.color));
+    expect(colors).toEqual(new Set([Color.Red, Color.Rainbow]));
+    const untouched = new Set(getOwnCardBelief(obs, 1)!.identities.map((i) => i.color));
+    expect(untouched.has(Color.Rainbow)).toBe(false);
+  });
+});
+
+describe('getHolderCardBelief', () => {
+  it('returns undefined for a card no other player holds', () => {
+    expect(getHolderCardBelief(createMockObservation(), 10)).toBeUndefined();
+  });
+
+  it('does not remove the holder’s own cards', () => {
+    const obs = createMockObservation({
+      visibleCards: {
+        1: [
+          { cardId: 1, color: Color.Green, value: 5 },
+          { cardId: 2, color: Color.Green, value: 4 },
+        ],
+      },
+      actionHistory: [hint(1, 'color', Color.Green, [1, 2])],
+    });
+    const belief = getHolderCardBelief(obs, 1)!;
+    expect(belief.totalWeight).toBe(10);
+    expect(belief.identities.find((i) => i.value === 5)?.weight).toBe(1);
+  });
+
+  it('removes cards in third-party hands but not the observer’s', () => {
+    const obs = createMockObservation({
+      playerCount: 3,
+      visibleCards: {
+        1: [{ cardId: 1, color: Color.Green, value: 5 }],
+        2: [{ cardId: 2, color: Color.Green, value: 4 }],
+      },
+      actionHistory: [hint(1, 'color', Color.Green, [1])],
+    });
+    const belief = getHolderCardBelief(obs, 1)!;
+    expect(belief.identities.find((i) => i.value === 4)?.weight).toBe(1);
+    expect(belief.totalWeight).toBe(9);
+  });
+});
+
+describe('probabilities', () => {
+  it('computes playable, trash and critical shares', () => {
+    const obs = createMockObservation({
+      // Red 1 played; one red 4 discarded, so the other is critical; yellow 2s are all gone
+      playedStacks: { 0: 1, 1: 0, 2: 0, 3: 0, 4: 0 },
+      discardPile: [
+        { id: 1, color: Color.Red, value: 4 },
+        { id: 2, color: Color.Yellow, value: 2 },
+        { id: 3, color: Color.Yellow, value: 2 },
+      ],
+      actionHistory: [hint(0, 'color', Color.Red, [10]), hint(0, 'color', Color.Yellow, [20])],
+    });
+    // Red: two 1s, two 2s, two 3s, one 4, one 5 unseen
+    expect(probabilityPlayable(obs, 0)).toBeCloseTo(2 / 8);
+    expect(probabilityTrash(obs, 0)).toBeCloseTo(2 / 8);
+    expect(probabilityCritical(obs, 0)).toBeCloseTo(2 / 8);
+    // Yellow: three 1s, two 3s, two 4s, one 5; everything above 1 is cut off
+    expect(probabilityPlayable(obs, 1)).toBeCloseTo(3 / 8);
+    expect(probabilityTrash(obs, 1)).toBeCloseTo(5 / 8);
+    expect(probabilityCritical(obs, 1)).toBe(0);
+    expect(probabilityPlayable(obs, 9)).toBe(0);
+  });
+});
+
+describe('beliefs in real games', () => {
+  it('always gives the true identity a positive weight', () => {
+    const rules = withHintMode(DEFAULT_RULES, 'empty-clues');
+    for (const seed of [1, 2, 3]) {
+      const state = createInitialState(seed, { playerCount: 3, rules });
+      const rng = createSeededRNG(seed);
+      while (!state.gameOver) {
+        for (let seat = 0; seat < state.playerCount; seat++) {
+          const obs = buildObservation(state, seat);
+          getOwnBeliefs(obs).forEach((belief, slot) => {
+            const card = state.hands[seat][slot];
+            const truth = belief.identities.find(
+              (i) => i.color === card.color && i.value === card.value
+            );
+            expect(truth?.weight).toBeGreaterThan(0);
+          });
+          const partner = (seat + 1) % state.playerCount;
+          for (const card of state.hands[partner]) {
+            const belief = getHolderCardBelief(obs, card.id)!;
+            expect(
+              belief.identities.some((i) => i.color === card.color && i.value === card.value)
+            ).toBe(true);
+          }
+        }
+        const legal = getLegalActions(state, state.currentPlayer);
+        executeAction(state, legal[Math.floor(rng() * legal.length)]);
+      }
+    }
+  });
+});
@@ -0,0 +1,203 @@
+import type { Color } from '../engine/types';
+import type { GameEvent, HintEvent } from '../engine/events';
+import type { Observation } from '../engine/observation';
+import { getSelfSeat, getOtherSeats, getAllVisibleCards } from '../engine/observation';
+import { getHandSize } from '../engine/game-state';
+import type { Variant } from '../engine/variants';
+import { getVariant, getCopyCount, isTouchedByHint } from '../engine/variants';
+import type { Board, CardIdentity } from './card-status';
+import { isPlayable, isTrash, isCritical } from './card-status';
+
+/** One identity a hidden card may have, weighted by the copies of it still unaccounted for. */
+export interface WeightedIdentity {
+  color: Color;
+  value: number;
+  weight: number;
+}
+
+/**
+ * Possible identities of one hidden card. Identities ruled out by hints (positive or negative) or
+ * with no unseen copies left are omitted; `totalWeight` is the sum of the remaining weights.
+ */
+export interface CardBelief {
+  cardId: number;
+  identities: WeightedIdentity[];
+  totalWeight: number;
+}
+
+function deckSize(variant: Variant): number {
+  let size = 0;
+  for (const suit of variant.suits) {
+    for (let value = 1; value <= 5; value++) size += suit.composition[value] ?? 0;
+  }
+  return size;
+}
+
+/**
+ * Replays the action history backwards from the current hands to find which card IDs each hint
+ * could have touched. A card drawn after a hint gets no negative information from it.
+ * Returns, per hint event index, the target's hand at that moment.
+ */
+function getHandsAtHints(observation: Observation): Map<number, number[]> {
+  const hands: number[][] = [];
+  for (let seat = 0; seat < observation.playerCount; seat++) {
+    hands[seat] =
+      seat === getSelfSeat(observation)
+        ? [...observation.ownCardIds]
+        : (observation.visibleCards[seat] ?? []).map((c) => c.cardId);
+  }
+
+  // Only the first `draws` plays/discards drew a card; later ones ran the deck dry
+  const history = observation.actionHistory;
+  const handSize = observation.rules.handSize ?? getHandSize(observation.playerCount);
+  const initialDeck = deckSize(getVariant(observation.variantId)) - handSize * observation.playerCount;
+  const turnsWithDraw = history.filter((e) => e.type !== 'hint').length;
+  const draws = Math.min(turnsWithDraw, Math.max(0, initialDeck - observation.deckCount));
+  let remainingDraws = turnsWithDraw;
+
+  const result = new Map<number, number[]>();
+  for (let i = history.length - 1; i >= 0; i--) {
+    const event: GameEvent = history[i];
+    if (event.type === 'hint') {
+      result.set(i, [...hands[event.targetPlayer]]);
+      continue;
+    }
+    remainingDraws--;
+    const hand = hands[event.playerIndex];
+    if (remainingDraws < draws) hand.pop();
+    if (event.card) hand.splice(event.cardIndex, 0, event.card.id);
+  }
+  return result;
+}
+
+/** Hints given to `seat` while `cardId` was in its hand, in game order. */
+function getHintsOnCard(
+  observation: Observation,
+  handsAtHints: Map<number, number[]>,
+  cardId: number,
+  seat: number
+): HintEvent[] {
+  const hints: HintEvent[] = [];
+  observation.actionHistory.forEach((event, i) => {
+    if (event.type !== 'hint' || event.targetPlayer !== seat) return;
+    if (handsAtHints.get(i)?.includes(cardId)) hints.push(event);
+  });
+  return hints;
+}
+
+/**
+ * Copies of (color, value) not yet seen by the observer: the deck's copies minus the one on its
+ * stack (if played), discarded copies and copies in the other players' hands.
+ */
+export function countUnseenCopies(observation: Observation, color: Color, value: number): number {
+  const total = getCopyCount(getVariant(observation.variantId), color, value);
+  const onStack = (observation.playedStacks[color] ?? 0) >= value ? 1 : 0;
+  const inDiscard = observation.discardPile.filter(
+    (c) => c.color === color && c.value === value
+  ).length;
+  const inVisibleCards = getAllVisibleCards(observation).filter(
+    (c) => c.color === color && c.value === value
+  ).length;
+  return total - onStack - inDiscard - inVisibleCards;
+}
+
+function buildBelief(
+  observation: Observation,
+  cardId: number,
+  holderSeat: number,
+  visibleToHolder: { color?: Color; value?: number }[]
+): CardBelief {
+  const variant = getVariant(observation.variantId);
+  const hints = getHintsOnCard(observation, getHandsAtHints(observation), cardId, holderSeat);
+  const identities: WeightedIdentity[] = [];
+  for (const suit of variant.suits) {
+    for (let value = 1; value <= 5; value++) {
+      const candidate = { color: suit.color, value };
+      const fitsHints = hints.every(
+        (h) =>
+          isTouchedByHint(variant, candidate, h.hintType, h.hintValue) ===
+          h.matchedCardIds.includes(cardId)
+      );
+      if (!fitsHints) continue;
+      const seen =
+        ((observation.playedStacks[suit.color] ?? 0) >= value ? 1 : 0) +
+        observation.discardPile.filter((c) => c.color === suit.color && c.value === value).length +
+        visibleToHolder.filter((c) => c.color === suit.color && c.value === value).length;
+      const weight = getCopyCount(variant, suit.color, value) - seen;
+      if (weight > 0) identities.push({ ...candidate, weight });
+    }
+  }
+  return { cardId, identities, totalWeight: identities.reduce((sum, id) => sum + id.weight, 0) };
+}
+
+/**
+ * Belief about the observer's own card in the given slot, from hints on it and every card the
+ * observer can see. Returns undefined for an out-of-range slot.
+ */
+export function getOwnCardBelief(observation: Observation, slotIndex: number): CardBelief | undefined {
+  if (slotIndex < 0 || slotIndex >= observation.ownCardIds.length) return undefined;
+  return buildBelief(
+    observation,
+    observation.ownCardIds[slotIndex],
+    getSelfSeat(observation),
+    getAllVisibleCards(observation)
+  );
+}
+
+/** Beliefs for every slot of the observer's hand, in slot order. */
+export function getOwnBeliefs(observation: Observation): CardBelief[] {
+  return observation.ownCardIds.map((_, slot) => getOwnCardBelief(observation, slot)!);
+}
+
+/**
+ * Belief the holder of a partner card has about it (empathy). Only cards both players can see
+ * are removed: the observer's own hand is hidden from the observer, so this is at least as broad
+ * as the holder's real belief. Returns undefined if no other player holds the card.
+ */
+export function getHolderCardBelief(observation: Observation, cardId: number): CardBelief | undefined {
+  const holderSeat = getOtherSeats(observation).find((seat) =>
+    (observation.visibleCards[seat] ?? []).some((c) => c.cardId === cardId)
+  );
+  if (holderSeat === undefined) return undefined;
+  const sharedVisible = getOtherSeats(observation)
+    .filter((seat) => seat !== holderSeat)
+    .flatMap((seat) => observation.visibleCards[seat] ?? []);
+  return buildBelief(observation, cardId, holderSeat, sharedVisible);
+}
+
+/** Weighted share of the belief's identities matching the predicate; 0 for an empty belief. */
+export function probabilityOf(
+  belief: CardBelief,
+  predicate: (color: Color, value: number) => boolean
+): number {
+  if (belief.totalWeight === 0) return 0;
+  const matching = belief.identities
+    .filter((id) => predicate(id.color, id.value))
+    .reduce((sum, id) => sum + id.weight, 0);
+  return matching / belief.totalWeight;
+}
+
+function ownSlotProbability(
+  observation: Observation,
+  slotIndex: number,
+  predicate: (board: Board, card: CardIdentity) => boolean
+): number {
+  const belief = getOwnCardBelief(observation, slotIndex);
+  if (!belief) return 0;
+  return probabilityOf(belief, (color, value) => predicate(observation, { color, value }));
+}
+
+/** Chance the own card in this slot would play successfully right now. */
+export function probabilityPlayable(observation: Observation, slotIndex: number): number {
+  return ownSlotProbability(observation, slotIndex, isPlayable);
+}
+
+/** Chance the own card in this slot can never be played (already played or its suit is cut off). */
+export function probabilityTrash(observation: Observation, slotIndex: number): number {
+  return ownSlotProbability(observation, slotIndex, isTrash);
+}
+
+/** Chance the own card in this slot is the last copy of a card still needed. */
+export function probabilityCritical(observation: Observation, slotIndex: number): number {
+  return ownSlotProbability(observation, slotIndex, isCritical);
+}
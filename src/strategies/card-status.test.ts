@@ -0,0 +1,205 @@
+import {
+  getMaxReachableValue,
+  isPlayable,
+  isTrash,
+  isCritical,
+  isDeadSuit,
+  maxAchievableScore,
+  pace,
+  efficiency,
+} from './card-status';
+import type { Board } from './card-status';
+import type { Observation } from './types';
+import type { Card, PlayedStacks } from '../engine/types';
+import { Color, COLORS, DECK_COMPOSITION, DARK_DECK_COMPOSITION } from '../engine/types';
+import { DEFAULT_RULES } from '../engine/rules';
+import { getVariant, getMaxScore } from '../engine/variants';
+import type { VariantId } from '../engine/variants';
+
+let nextId = 0;
+
+function copies(color: Color, value: number, count: number): Card[] {
+  return Array.from({ length: count }, () => ({ id: nextId++, color, value }));
+}
+
+function board(
+  discardPile: Card[] = [],
+  playedStacks: PlayedStacks = {},
+  variantId: VariantId = 'standard'
+): Board {
+  return { variantId, discardPile, playedStacks };
+}
+
+function createMockObservation(overrides: Partial<Observation> = {}): Observation {
+  return {
+    visibleCards: {},
+    observerSeat: 0,
+    playerCount: 2,
+    variantId: 'standard',
+    rules: DEFAULT_RULES,
+    ownHandSize: 5,
+    ownCardIds: [10, 20, 30, 40, 50],
+    hintsRemaining: 8,
+    livesRemaining: 3,
+    discardPile: [],
+    playedStacks: { 0: 0, 1: 0, 2: 0, 3: 0, 4: 0 },
+    deckCount: 40,
+    actionHistory: [],
+    ...overrides,
+  };
+}
+
+describe('maxAchievableScore', () => {
+  it('is the variant max score with nothing discarded', () => {
+    for (const id of ['standard', 'rainbow', 'black', 'dark-rainbow', 'null'] as VariantId[]) {
+      const variant = getVariant(id);
+      expect(maxAchievableScore([], {}, variant)).toBe(getMaxScore(variant));
+    }
+  });
+
+  it('drops a suit to just below the first value with every copy discarded', () => {
+    for (let value = 1; value <= 5; value++) {
+      const pile = copies(Color.Red, value, DECK_COMPOSITION[value]);
+      expect(maxAchievableScore(pile, {})).toBe(20 + value - 1);
+      expect(getMaxReachableValue(board(pile), Color.Red)).toBe(value - 1);
+    }
+  });
+
+  it('is unaffected while at least one copy remains', () => {
+    for (let value = 1; value <= 5; value++) {
+      const pile = copies(Color.Blue, value, DECK_COMPOSITION[value] - 1);
+      expect(maxAchievableScore(pile, {})).toBe(25);
+    }
+  });
+
+  it('ignores discards of values already played', () => {
+    const pile = copies(Color.Green, 2, DECK_COMPOSITION[2]);
+    expect(maxAchievableScore(pile, { [Color.Green]: 2 })).toBe(25);
+  });
+
+  it('uses each suit’s own composition', () => {
+    const variant = getVariant('black');
+    // A single discarded black 3 cuts black off at 2
+    expect(DARK_DECK_COMPOSITION[3]).toBe(1);
+    expect(maxAchievableScore(copies(Color.Black, 3, 1), {}, variant)).toBe(25 + 2);
+  });
+
+  it('sums the limits of several cut-off suits', () => {
+    const pile = [
+      ...copies(Color.Red, 5, DECK_COMPOSITION[5]),
+      ...copies(Color.Yellow, 1, DECK_COMPOSITION[1]),
+    ];
+    expect(maxAchievableScore(pile, {})).toBe(25 - 1 - 5);
+  });
+});
+
+describe('isPlayable', () => {
+  it('is true only for the next value of each suit', () => {
+    const stacks: PlayedStacks = { 0: 0, 1: 1, 2: 2, 3: 3, 4: 4 };
+    for (const color of COLORS) {
+      for (let value = 1; value <= 5; value++) {
+        expect(isPlayable(board([], stacks), { color, value })).toBe(value === stacks[color]! + 1);
+      }
+    }
+  });
+});
+
+describe('isTrash', () => {
+  it('is true for values already played', () => {
+    const b = board([], { [Color.White]: 3 });
+    expect([1, 2, 3, 4, 5].map((value) => isTrash(b, { color: Color.White, value }))).toEqual([
+      true,
+      true,
+      true,
+      false,
+      false,
+    ]);
+  });
+
+  it('is true above a value with every copy discarded', () => {
+    for (let value = 1; value <= 5; value++) {
+      const b = board(copies(Color.Yellow, value, DECK_COMPOSITION[value]));
+      for (let v = 1; v <= 5; v++) {
+        expect(isTrash(b, { color: Color.Yellow, value: v })).toBe(v >= value);
+      }
+    }
+  });
+});
+
+describe('isCritical', () => {
+  it('marks every 5 critical at the start and nothing else', () => {
+    const b = board();
+    for (const color of COLORS) {
+      for (let value = 1; value <= 5; value++) {
+        expect(isCritical(b, { color, value })).toBe(DECK_COMPOSITION[value] === 1);
+      }
+    }
+  });
+
+  it('marks a value critical once all but one copy is discarded', () => {
+    for (let value = 1; value <= 4; value++) {
+      const count = DECK_COMPOSITION[value];
+      const card = { color: Color.Red, value };
+      expect(isCritical(board(copies(Color.Red, value, count - 2)), card)).toBe(false);
+      expect(isCritical(board(copies(Color.Red, value, count - 1)), card)).toBe(true);
+    }
+  });
+
+  it('is false for trash cards', () => {
+    expect(isCritical(board([], { [Color.Blue]: 5 }), { color: Color.Blue, value: 5 })).toBe(false);
+    // The last red 4 is not critical once both red 3s are gone
+    const pile = [...copies(Color.Red, 4, 1), ...copies(Color.Red, 3, DECK_COMPOSITION[3])];
+    expect(isCritical(board(pile), { color: Color.Red, value: 4 })).toBe(false);
+  });
+
+  it('treats every card of a dark suit as critical', () => {
+    const b = board([], {}, 'black');
+    for (let value = 1; value <= 5; value++) {
+      expect(isCritical(b, { color: Color.Black, value })).toBe(true);
+    }
+  });
+});
+
+describe('isDeadSuit', () => {
+  it('is true once the suit can no longer reach 5', () => {
+    expect(isDeadSuit(board(), Color.Green)).toBe(false);
+    expect(isDeadSuit(board(copies(Color.Green, 5, 1)), Color.Green)).toBe(true);
+    expect(isDeadSuit(board(copies(Color.Green, 1, 2)), Color.Green)).toBe(false);
+    expect(isDeadSuit(board(copies(Color.Green, 1, 3)), Color.Green)).toBe(true);
+    // Discarding a played value does not kill the suit
+    const played = board(copies(Color.Green, 1, 2), { [Color.Green]: 1 });
+    expect(isDeadSuit(played, Color.Green)).toBe(false);
+  });
+});
+
+describe('pace', () => {
+  it('is score + deck + players − max achievable score', () => {
+    expect(pace(createMockObservation())).toBe(0 + 40 + 2 - 25);
+    const obs = createMockObservation({
+      playedStacks: { 0: 2, 1: 0, 2: 0, 3: 0, 4: 0 },
+      discardPile: copies(Color.White, 5, 1),
+      deckCount: 20,
+    });
+    expect(pace(obs)).toBe(2 + 20 + 2 - 24);
+  });
+});
+
+describe('efficiency', () => {
+  it('is null before any hint and cards played per hint afterwards', () => {
+    expect(efficiency(createMockObservation())).toBeNull();
+    const hintEvent = {
+      type: 'hint' as const,
+      playerIndex: 1,
+      targetPlayer: 0,
+      hintType: 'number' as const,
+      hintValue: 1,
+      matchedCardIndices: [],
+      matchedCardIds: [],
+    };
+    const obs = createMockObservation({
+      playedStacks: { 0: 2, 1: 1, 2: 0, 3: 0, 4: 0 },
+      actionHistory: [hintEvent, hintEvent],
+    });
+    expect(efficiency(obs)).toBe(1.5);
+  });
+});
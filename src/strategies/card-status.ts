@@ -0,0 +1,101 @@
+import type { Card, Color, PlayedStacks } from '../engine/types';
+import type { Observation } from '../engine/observation';
+import { calculateScore } from '../engine/game-engine';
+import type { Variant } from '../engine/variants';
+import { getVariant, getCopyCount } from '../engine/variants';
+
+/** A card's identity; the card ID plays no part in its status. */
+export type CardIdentity = Pick<Card, 'color' | 'value'>;
+
+/**
+ * The public part of the board a card's status depends on. Both Observation and GameState
+ * satisfy it, so the runner can use these helpers for metrics too.
+ */
+export type Board = Pick<Observation, 'variantId' | 'playedStacks' | 'discardPile'>;
+
+function countDiscarded(discardPile: Card[], color: Color, value: number): number {
+  return discardPile.filter((c) => c.color === color && c.value === value).length;
+}
+
+function maxReachable(
+  variant: Variant,
+  discardPile: Card[],
+  playedStacks: PlayedStacks,
+  color: Color
+): number {
+  for (let value = (playedStacks[color] ?? 0) + 1; value <= 5; value++) {
+    if (countDiscarded(discardPile, color, value) >= getCopyCount(variant, color, value)) {
+      return value - 1;
+    }
+  }
+  return 5;
+}
+
+/** Highest value the suit's stack can still reach: it stops below the first value with every copy discarded. */
+export function getMaxReachableValue(board: Board, color: Color): number {
+  return maxReachable(getVariant(board.variantId), board.discardPile, board.playedStacks, color);
+}
+
+/** True if the card would play successfully right now. */
+export function isPlayable(board: Board, card: CardIdentity): boolean {
+  return card.value === (board.playedStacks[card.color] ?? 0) + 1;
+}
+
+/** True if the card can never be played: its value is already on the stack or the suit is cut off below it. */
+export function isTrash(board: Board, card: CardIdentity): boolean {
+  return (
+    card.value <= (board.playedStacks[card.color] ?? 0) ||
+    card.value > getMaxReachableValue(board, card.color)
+  );
+}
+
+/** True if the card is still needed and every other copy of it has been discarded. */
+export function isCritical(board: Board, card: CardIdentity): boolean {
+  if (isTrash(board, card)) return false;
+  const copies = getCopyCount(getVariant(board.variantId), card.color, card.value);
+  return copies - countDiscarded(board.discardPile, card.color, card.value) === 1;
+}
+
+/** True if the suit can no longer be completed to 5. */
+export function isDeadSuit(board: Board, color: Color): boolean {
+  return getMaxReachableValue(board, color) < 5;
+}
+
+/**
+ * Best score still possible given the discards: the sum over suits of the highest value each
+ * stack can reach. Equals getMaxScore(variant) while nothing needed has run out.
+ */
+export function maxAchievableScore(
+  discardPile: Card[],
+  playedStacks: PlayedStacks,
+  variant: Variant = getVariant()
+): number {
+  return variant.suits.reduce(
+    (sum, suit) => sum + maxReachable(variant, discardPile, playedStacks, suit.color),
+    0
+  );
+}
+
+/**
+ * Pace: score + cards left in the deck + players − max achievable score. This is how many more
+ * cards the team can discard and still reach the max achievable score; below 0 it is out of reach.
+ */
+export function pace(observation: Observation): number {
+  const variant = getVariant(observation.variantId);
+  return (
+    calculateScore(observation.playedStacks) +
+    observation.deckCount +
+    observation.playerCount -
+    maxAchievableScore(observation.discardPile, observation.playedStacks, variant)
+  );
+}
+
+/**
+ * Efficiency: cards played per hint given so far. Null before the first hint, when it is
+ * undefined.
+ */
+export function efficiency(observation: Observation): number | null {
+  const hintsGiven = observation.actionHistory.filter((e) => e.type === 'hint').length;
+  if (hintsGiven === 0) return null;
+  return calculateScore(observation.playedStacks) / hintsGiven;
+}
@@ -0,0 +1,128 @@
+import { getSelfSeat, getOtherSeats } from '../engine/observation';
+import type { Observation } from './types';
+import type { StrategyRule } from './rule-strategy';
+import { isPlayable } from './card-status';
+import { countUnseenCopies } from './beliefs';
+import { getOwnHintKnowledge } from './observation-knowledge';
+
+/** Which end of the hand a discard rule prefers: 'left' is slot 0, 'right' the last slot. */
+export type HandSide = 'left' | 'right';
+
+function slotOnSide(observation: Observation, side: HandSide): number {
+  return side === 'left' ? 0 : Math.max(0, observation.ownHandSize - 1);
+}
+
+function canDiscard(observation: Observation): boolean {
+  return observation.hintsRemaining < observation.rules.maxHintTokens;
+}
+
+/**
+ * Position-encoding play: a number hint N received since our last play or discard means "slot
+ * N-1 is playable". Only the most recent hint to us counts, and only if it is a number hint.
+ */
+export function playHintedPosition(): StrategyRule {
+  return {
+    name: 'play-hinted-position',
+    apply(observation) {
+      const selfSeat = getSelfSeat(observation);
+      for (let i = observation.actionHistory.length - 1; i >= 0; i--) {
+        const ev = observation.actionHistory[i];
+        if (ev.type === 'hint' && ev.targetPlayer === selfSeat) {
+          if (ev.hintType !== 'number') return null;
+          const position = (ev.hintValue as number) - 1;
+          if (position < 0 || position > 4 || position >= observation.ownHandSize) return null;
+          return { type: 'play', cardIndex: position };
+        }
+        if (ev.type !== 'hint' && ev.playerIndex === selfSeat) return null;
+      }
+      return null;
+    },
+  };
+}
+
+/**
+ * Position-encoding hint: number hint N to the first player in turn order whose slot N-1 holds a
+ * playable card (slots 0-4 only). Needs the 'empty-clues' hint mode.
+ */
+export function hintPlayablePosition(): StrategyRule {
+  return {
+    name: 'hint-playable-position',
+    apply(observation) {
+      if (observation.hintsRemaining <= 0) return null;
+      for (const targetSeat of getOtherSeats(observation)) {
+        const visibleCards = observation.visibleCards[targetSeat] ?? [];
+        for (let position = 0; position < visibleCards.length && position < 5; position++) {
+          const card = visibleCards[position];
+          if (card.color === undefined || card.value === undefined) continue;
+          if (!isPlayable(observation, { color: card.color, value: card.value })) continue;
+          return { type: 'hint', targetPlayer: targetSeat, hintType: 'number', hintValue: position + 1 };
+        }
+      }
+      return null;
+    },
+  };
+}
+
+/** Discards the slot at the given end of the hand whenever a discard is allowed. */
+export function discardSlot(side: HandSide): StrategyRule {
+  return {
+    name: `discard-${side}`,
+    apply(observation) {
+      if (!canDiscard(observation)) return null;
+      return { type: 'discard', cardIndex: slotOnSide(observation, side) };
+    },
+  };
+}
+
+/**
+ * Like discardSlot, but when that card is known to be a 5 or known (color and value) to be the
+ * only unseen copy left, discards its inner neighbour instead if that is legal.
+ */
+export function safeDiscard(side: HandSide): StrategyRule {
+  return {
+    name: `safe-discard-${side}`,
+    apply(observation, { legalActions }) {
+      if (!canDiscard(observation)) return null;
+      const slot = slotOnSide(observation, side);
+      const knowledge = getOwnHintKnowledge(observation, slot);
+      const color = knowledge?.color;
+      const value = knowledge?.value;
+      const isProtected =
+        value === 5 ||
+        (color !== undefined &&
+          value !== undefined &&
+          countUnseenCopies(observation, color, value) === 1);
+      if (!isProtected) return { type: 'discard', cardIndex: slot };
+
+      const neighbour = side === 'left' ? slot + 1 : slot - 1;
+      const neighbourLegal =
+        neighbour >= 0 &&
+        neighbour < observation.ownHandSize &&
+        legalActions.some((a) => a.type === 'discard' && a.cardIndex === neighbour);
+      return { type: 'discard', cardIndex: neighbourLegal ? neighbour : slot };
+    },
+  };
+}
+
+/** At the hint-token cap (where discarding is illegal), gives a random legal color hint. */
+export function colorHintAtMaxTokens(): StrategyRule {
+  return {
+    name: 'color-hint-at-max-tokens',
+    apply(observation, { legalActions, rng }) {
+      if (canDiscard(observation)) return null;
+      const colorHints = legalActions.filter((a) => a.type === 'hint' && a.hintType === 'color');
+      if (colorHints.length === 0) return null;
+      return colorHints[Math.floor(rng() * colorHints.length)];
+    },
+  };
+}
+
+/** Picks a uniformly random legal action; put it last as the catch-all. */
+export function randomLegalAction(): StrategyRule {
+  return {
+    name: 'random',
+    apply(_observation, { legalActions, rng }) {
+      return legalActions[Math.floor(rng() * legalActions.length)];
+    },
+  };
+}
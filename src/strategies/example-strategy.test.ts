@@ -1,11 +1,15 @@
 import { validateActionForObservation } from '../engine/actions';
 import { ExampleStrategy } from './example-strategy';
 import type { Observation } from './types';
+import { DEFAULT_RULES } from '../engine/rules';
 
 function createMockObservation(overrides: Partial<Observation> = {}): Observation {
   return {
-    visibleCards: [],
+    visibleCards: {},
     observerSeat: 0,
+    playerCount: 2,
+    variantId: 'standard',
+    rules: DEFAULT_RULES,
     ownHandSize: 5,
     ownCardIds: [1, 2, 3, 4, 5],
     hintsRemaining: 8,
@@ -2,6 +2,8 @@ import type { Action } from '../engine/actions';
 import { getLegalActionsFromObservation } from '../engine/actions';
 import type { HanabiStrategy, Observation } from './types';
 import { getDeterministicRandom } from './observation-rng';
+import type { StrategyDefinition } from './parameters';
+import { RNG_SEED_PARAM } from './parameters';
 
 /**
  * Example baseline strategy: picks a random legal action using seeded RNG (FR-17).
@@ -13,10 +15,14 @@ export class ExampleStrategy implements HanabiStrategy {
     this.rngSeed = rngSeed;
   }
 
+  clone(): ExampleStrategy {
+    return new ExampleStrategy(this.rngSeed);
+  }
+
   getAction(observation: Observation): Action {
     const legalActions = getLegalActionsFromObservation(observation);
     if (legalActions.length === 0) {
-      if (observation.ownHandSize > 0 && observation.hintsRemaining < 8) {
+      if (observation.ownHandSize > 0 && observation.hintsRemaining < observation.rules.maxHintTokens) {
         return { type: 'discard', cardIndex: 0 };
       }
       return { type: 'play', cardIndex: 0 };
@@ -26,3 +32,12 @@ export class ExampleStrategy implements HanabiStrategy {
     return { ...legalActions[idx]! };
   }
 }
+
+export const strategyDefinitions: StrategyDefinition[] = [
+  {
+    name: 'Random',
+    description: 'Uniformly random legal action each turn.',
+    params: [RNG_SEED_PARAM],
+    create: (params) => new ExampleStrategy(params.rngSeed as number),
+  },
+];
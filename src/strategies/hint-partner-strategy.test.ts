@@ -2,11 +2,15 @@ import { HintPartnerStrategy } from './hint-partner-strategy';
 import type { Observation } from './types';
 import { DEFAULT_CONFIG } from '../config';
 import { runSimulation } from '../simulator/runner';
+import { DEFAULT_RULES, withHintMode } from '../engine/rules';
 
 function createMockObservation(overrides: Partial<Observation> = {}): Observation {
   return {
-    visibleCards: [],
+    visibleCards: {},
     observerSeat: 0,
+    playerCount: 2,
+    variantId: 'standard',
+    rules: withHintMode(DEFAULT_RULES, 'empty-clues'),
     ownHandSize: 5,
     ownCardIds: [1, 2, 3, 4, 5],
     hintsRemaining: 8,
@@ -28,9 +32,24 @@ describe('HintPartnerStrategy', () => {
     expect(['play', 'discard', 'hint']).toContain(action.type);
   });
 
+  it('declares the empty-clues hint mode', () => {
+    expect(new HintPartnerStrategy().requiredHintMode).toBe('empty-clues');
+  });
+
+  it('is refused under standard hint rules', () => {
+    const rules = withHintMode(DEFAULT_RULES, 'standard');
+    expect(() => runSimulation({ ...DEFAULT_CONFIG, gameCount: 1, rules }, ['HintPartner'])).toThrow(
+      /requires 'empty-clues' hint mode/
+    );
+  });
+
   it('completes simulations', () => {
     const result = runSimulation(
-      { ...DEFAULT_CONFIG, gameCount: 10 },
+      {
+        ...DEFAULT_CONFIG,
+        gameCount: 10,
+        rules: withHintMode(DEFAULT_RULES, 'empty-clues'),
+      },
       ['HintPartner']
     );
     expect(result.results).toHaveLength(1);
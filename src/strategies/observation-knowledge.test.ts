@@ -1,10 +1,14 @@
 import { getOwnHintKnowledge, getKnownToHolder } from './observation-knowledge';
 import type { Observation } from './types';
+import { DEFAULT_RULES } from '../engine/rules';
 
 function createMockObservation(overrides: Partial<Observation> = {}): Observation {
   return {
-    visibleCards: [],
+    visibleCards: {},
     observerSeat: 0,
+    playerCount: 2,
+    variantId: 'standard',
+    rules: DEFAULT_RULES,
     ownHandSize: 5,
     ownCardIds: [10, 20, 30, 40, 50],
     hintsRemaining: 8,
@@ -78,14 +82,14 @@ describe('getOwnHintKnowledge', () => {
 describe('getKnownToHolder', () => {
   it('returns undefined when cardId not in visible cards', () => {
     const obs = createMockObservation({
-      visibleCards: [{ cardId: 100, color: 0, value: 1 }],
+      visibleCards: { 1: [{ cardId: 100, color: 0, value: 1 }] },
     });
     expect(getKnownToHolder(obs, 999)).toBeUndefined();
   });
 
   it('returns knowledge when hint events targeted that card', () => {
     const obs = createMockObservation({
-      visibleCards: [{ cardId: 100, color: 0, value: 1 }],
+      visibleCards: { 1: [{ cardId: 100, color: 0, value: 1 }] },
       actionHistory: [
         {
           type: 'hint',
@@ -1,7 +1,9 @@
 import type { Color } from '../engine/types';
 import type { GameEvent } from '../engine/events';
 import type { Observation } from '../engine/observation';
-import { getSelfSeat } from '../engine/observation';
+import { getSelfSeat, getOtherSeats } from '../engine/observation';
+import { applyHintToKnowledge } from '../engine/game-state';
+import { getVariant } from '../engine/variants';
 
 /** Hint knowledge for a card: what the holder has been told (and option removal). */
 export interface HintKnowledge {
@@ -26,7 +28,7 @@ export function getOwnHintKnowledge(
   if (slotIndex < 0 || slotIndex >= observation.ownCardIds.length) return undefined;
   const cardId = observation.ownCardIds[slotIndex];
   const selfSeat = getSelfSeat(observation);
-  return getKnowledgeForCard(observation.actionHistory, cardId, selfSeat);
+  return getKnowledgeForCard(observation, cardId, selfSeat);
 }
 
 /**
@@ -37,43 +39,25 @@ export function getKnownToHolder(
   observation: Observation,
   cardId: number
 ): HintKnowledge | undefined {
-  if (!observation.visibleCards.some((c) => c.cardId === cardId)) return undefined;
-  const partnerSeat = 1 - getSelfSeat(observation);
-  return getKnowledgeForCard(observation.actionHistory, cardId, partnerSeat);
+  const holderSeat = getOtherSeats(observation).find((seat) =>
+    (observation.visibleCards[seat] ?? []).some((c) => c.cardId === cardId)
+  );
+  if (holderSeat === undefined) return undefined;
+  return getKnowledgeForCard(observation, cardId, holderSeat);
 }
 
 function getKnowledgeForCard(
-  actionHistory: GameEvent[],
+  observation: Observation,
   cardId: number,
   targetSeat: number
 ): HintKnowledge | undefined {
+  const variant = getVariant(observation.variantId);
   const knowledge: HintKnowledge = {};
-  for (const event of actionHistory) {
+  for (const event of observation.actionHistory) {
     if (!isHintEvent(event) || event.targetPlayer !== targetSeat) continue;
     const matchedIds = event.matchedCardIds ?? [];
     const matched = matchedIds.includes(cardId);
-    if (event.hintType === 'color') {
-      const color = event.hintValue as Color;
-      if (matched) {
-        knowledge.color = color;
-      } else {
-        const excluded = knowledge.excludedColors ?? [];
-        if (!excluded.includes(color)) {
-          knowledge.excludedColors = [...excluded, color];
-        }
-      }
-    } else {
-      const value = event.hintValue as number;
-      if (matched) {
-        knowledge.value = value;
-      } else {
-        const excluded = knowledge.excludedValues ?? [];
-        if (!excluded.includes(value)) {
-          knowledge.excludedValues = [...excluded, value];
-        }
-      }
-    }
+    applyHintToKnowledge(knowledge, variant, event.hintType, event.hintValue, matched);
   }
   return Object.keys(knowledge).length > 0 ? knowledge : undefined;
 }
-
@@ -0,0 +1,65 @@
+import { parseStrategySpec, resolveParams, formatStrategySpec, RNG_SEED_PARAM } from './parameters';
+import type { StrategyDefinition } from './parameters';
+import { ExampleStrategy } from './example-strategy';
+
+const definition: StrategyDefinition = {
+  name: 'Tunable',
+  description: 'test',
+  params: [
+    RNG_SEED_PARAM,
+    { name: 'threshold', type: 'number', default: 0.5, min: 0, max: 1 },
+    { name: 'cautious', type: 'boolean', default: false },
+    { name: 'side', type: 'string', default: 'left', options: ['left', 'right'] },
+  ],
+  create: (params) => new ExampleStrategy(params.rngSeed as number),
+};
+
+describe('parseStrategySpec', () => {
+  it('parses a bare name and a named instance', () => {
+    expect(parseStrategySpec('HintPartner')).toEqual({ name: 'HintPartner', params: {} });
+    expect(parseStrategySpec('HintPartner_discard_left_safe{rngSeed=7}')).toEqual({
+      name: 'HintPartner_discard_left_safe',
+      params: { rngSeed: '7' },
+    });
+    expect(parseStrategySpec(' X { a = 1 , b=two } ')).toEqual({
+      name: 'X',
+      params: { a: '1', b: 'two' },
+    });
+  });
+
+  it('rejects malformed specs', () => {
+    expect(() => parseStrategySpec('X{a=1')).toThrow(/Malformed strategy spec/);
+    expect(() => parseStrategySpec('X{a}')).toThrow(/Malformed parameter 'a'/);
+    expect(() => parseStrategySpec('X{a=1,a=2}')).toThrow(/given twice/);
+  });
+});
+
+describe('resolveParams', () => {
+  it('fills defaults and converts values by type', () => {
+    expect(resolveParams(definition, { threshold: '0.25', cautious: 'true' })).toEqual({
+      rngSeed: 42,
+      threshold: 0.25,
+      cautious: true,
+      side: 'left',
+    });
+  });
+
+  it('rejects unknown parameters and values outside the schema', () => {
+    expect(() => resolveParams(definition, { speed: '1' })).toThrow(
+      "Unknown parameter 'speed' for strategy Tunable"
+    );
+    expect(() => resolveParams(definition, { rngSeed: '1.5' })).toThrow(/must be an integer/);
+    expect(() => resolveParams(definition, { threshold: '2' })).toThrow(/between 0 and 1/);
+    expect(() => resolveParams(definition, { cautious: 'yes' })).toThrow(/true or false/);
+    expect(() => resolveParams(definition, { side: 'up' })).toThrow(/one of: left, right/);
+  });
+});
+
+describe('formatStrategySpec', () => {
+  it('lists explicit parameters in schema order with normalized values', () => {
+    const explicit = { side: 'right', rngSeed: '07' };
+    const params = resolveParams(definition, explicit);
+    expect(formatStrategySpec(definition, explicit, params)).toBe('Tunable{rngSeed=7,side=right}');
+    expect(formatStrategySpec(definition, {}, resolveParams(definition, {}))).toBe('Tunable');
+  });
+});
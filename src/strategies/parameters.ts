@@ -0,0 +1,137 @@
+import type { HanabiStrategy } from './types';
+
+export type StrategyParamType = 'integer' | 'number' | 'boolean' | 'string';
+
+export type StrategyParamValue = number | boolean | string;
+
+/** One tunable strategy parameter, as listed by /api/strategies for the UI to render. */
+export interface StrategyParamSchema {
+  name: string;
+  type: StrategyParamType;
+  default: StrategyParamValue;
+  description?: string;
+  /** Inclusive bounds for 'integer' and 'number'. */
+  min?: number;
+  max?: number;
+  /** Allowed values for 'string'; any string if omitted. */
+  options?: string[];
+}
+
+export type StrategyParams = Record<string, StrategyParamValue>;
+
+/**
+ * What a strategy module exports (as `strategyDefinitions`) for the registry to discover it.
+ * `create` receives every schema parameter, defaults filled in.
+ */
+export interface StrategyDefinition {
+  name: string;
+  description: string;
+  params: StrategyParamSchema[];
+  create(params: StrategyParams): HanabiStrategy;
+}
+
+/** The seed parameter every built-in strategy takes for its per-decision RNG. */
+export const RNG_SEED_PARAM: StrategyParamSchema = {
+  name: 'rngSeed',
+  type: 'integer',
+  default: 42,
+  description: 'Base seed for the per-decision RNG',
+  min: 0,
+  max: 0xffffffff,
+};
+
+/** A strategy name plus explicit parameter values, e.g. `HintPartner{rngSeed=7}`. */
+export interface StrategySpec {
+  name: string;
+  params: Record<string, string>;
+}
+
+/**
+ * Parses `Name` or `Name{key=value,key=value}`. Values stay strings until resolveParams checks
+ * them against the schema. Throws on malformed input.
+ */
+export function parseStrategySpec(spec: string): StrategySpec {
+  const match = /^([^{}]+?)\s*(?:\{([^{}]*)\})?$/.exec(spec.trim());
+  if (!match) throw new Error(`Malformed strategy spec '${spec}'`);
+  const params: Record<string, string> = {};
+  for (const part of (match[2] ?? '').split(',')) {
+    if (part.trim() === '') continue;
+    const eq = part.indexOf('=');
+    const key = part.slice(0, eq).trim();
+    if (eq < 0 || key === '') throw new Error(`Malformed parameter '${part.trim()}' in '${spec}'`);
+    if (key in params) throw new Error(`Parameter '${key}' given twice in '${spec}'`);
+    params[key] = part.slice(eq + 1).trim();
+  }
+  return { name: match[1], params };
+}
+
+type ParsedValue = { ok: true; value: StrategyParamValue } | { ok: false; error: string };
+
+function parseValue(schema: StrategyParamSchema, raw: string): ParsedValue {
+  switch (schema.type) {
+    case 'integer':
+    case 'number': {
+      const value = raw === '' ? NaN : Number(raw);
+      if (!Number.isFinite(value) || (schema.type === 'integer' && !Number.isInteger(value))) {
+        return { ok: false, error: `must be ${schema.type === 'integer' ? 'an integer' : 'a number'}` };
+      }
+      const tooLow = schema.min !== undefined && value < schema.min;
+      const tooHigh = schema.max !== undefined && value > schema.max;
+      if (tooLow || tooHigh) {
+        return { ok: false, error: `must be between ${schema.min ?? '-∞'} and ${schema.max ?? '∞'}` };
+      }
+      return { ok: true, value };
+    }
+    case 'boolean':
+      if (raw === 'true' || raw === 'false') return { ok: true, value: raw === 'true' };
+      return { ok: false, error: 'must be true or false' };
+    case 'string':
+      if (schema.options && !schema.options.includes(raw)) {
+        return { ok: false, error: `must be one of: ${schema.options.join(', ')}` };
+      }
+      return { ok: true, value: raw };
+  }
+}
+
+/**
+ * Checks explicit values against the definition's schema and fills in defaults. Throws naming
+ * the strategy and parameter on an unknown parameter or a bad value.
+ */
+export function resolveParams(
+  definition: StrategyDefinition,
+  explicit: Record<string, string>
+): StrategyParams {
+  for (const key of Object.keys(explicit)) {
+    if (!definition.params.some((p) => p.name === key)) {
+      throw new Error(`Unknown parameter '${key}' for strategy ${definition.name}`);
+    }
+  }
+  const params: StrategyParams = {};
+  for (const schema of definition.params) {
+    if (!(schema.name in explicit)) {
+      params[schema.name] = schema.default;
+      continue;
+    }
+    const parsed = parseValue(schema, explicit[schema.name]);
+    if (!parsed.ok) {
+      throw new Error(`Parameter '${schema.name}' of strategy ${definition.name} ${parsed.error}`);
+    }
+    params[schema.name] = parsed.value;
+  }
+  return params;
+}
+
+/**
+ * Canonical instance name: the definition name, plus explicit parameters in schema order. Two
+ * specs naming the same values get the same name.
+ */
+export function formatStrategySpec(
+  definition: StrategyDefinition,
+  explicit: Record<string, string>,
+  params: StrategyParams
+): string {
+  const parts = definition.params
+    .filter((p) => p.name in explicit)
+    .map((p) => `${p.name}=${String(params[p.name])}`);
+  return parts.length > 0 ? `${definition.name}{${parts.join(',')}}` : definition.name;
+}
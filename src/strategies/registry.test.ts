@@ -1,4 +1,32 @@
-import { getStrategies } from './registry';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getStrategies, getStrategyDefinitions, resolveStrategy } from './registry';
+import { ExampleStrategy } from './example-strategy';
+import { HintPartnerDiscardLeftSafeStrategy } from './hint-partner-discard-left-safe-strategy';
+import type { Observation } from './types';
+import { buildObservation } from '../engine/observation';
+import { createInitialState } from '../engine/game-state';
+import { DEFAULT_RULES, withHintMode } from '../engine/rules';
+
+function createMockObservation(overrides: Partial<Observation> = {}): Observation {
+  return {
+    visibleCards: {},
+    observerSeat: 0,
+    playerCount: 2,
+    variantId: 'standard',
+    rules: DEFAULT_RULES,
+    ownHandSize: 5,
+    ownCardIds: [1, 2, 3, 4, 5],
+    hintsRemaining: 8,
+    livesRemaining: 3,
+    discardPile: [],
+    playedStacks: { 0: 0, 1: 0, 2: 0, 3: 0, 4: 0 },
+    deckCount: 35,
+    actionHistory: [],
+    ...overrides,
+  };
+}
 
 describe('getStrategies', () => {
   it('returns at least one strategy', () => {
@@ -15,4 +43,81 @@ describe('getStrategies', () => {
       expect(instance).toHaveProperty('getAction');
     }
   });
+
+  it('discovers the built-in strategy modules, sorted by name', () => {
+    expect(getStrategies().map((s) => s.name)).toEqual([
+      'HintPartner',
+      'HintPartner_discard',
+      'HintPartner_discard_left_safe',
+      'HintPartner_discard_right',
+      'HintPartner_discard_right_safe',
+      'Random',
+    ]);
+    for (const s of getStrategies()) {
+      expect(s.description.length).toBeGreaterThan(0);
+      expect(s.params.map((p) => p.name)).toContain('rngSeed');
+    }
+  });
+});
+
+describe('resolveStrategy', () => {
+  it('builds named instances with the given parameters', () => {
+    const entry = resolveStrategy('HintPartner_discard_left_safe{rngSeed=7}');
+    expect(entry.name).toBe('HintPartner_discard_left_safe{rngSeed=7}');
+    const strategy = entry.factory();
+    expect(strategy).toBeInstanceOf(HintPartnerDiscardLeftSafeStrategy);
+    const obs = buildObservation(
+      createInitialState(1, { rules: withHintMode(DEFAULT_RULES, 'empty-clues') }),
+      0
+    );
+    expect(strategy.getAction(obs)).toEqual(new HintPartnerDiscardLeftSafeStrategy(7).getAction(obs));
+    expect(resolveStrategy('Random').factory()).toEqual(new ExampleStrategy(42));
+  });
+
+  it('refuses unknown strategies and bad parameters', () => {
+    expect(() => resolveStrategy('Nope')).toThrow('Unknown strategy: Nope');
+    expect(() => resolveStrategy('Random{rngSeed=-1}')).toThrow(/rngSeed.*between/);
+    expect(() => resolveStrategy('Random{depth=2}')).toThrow(/Unknown parameter 'depth'/);
+  });
+});
+
+describe('external strategy directory', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hanabi-strategies-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeModule(file: string, name: string): void {
+    fs.writeFileSync(
+      path.join(dir, file),
+      `exports.strategyDefinitions = [{
+        name: '${name}',
+        description: 'Always plays slot 0',
+        params: [{ name: 'slot', type: 'integer', default: 0, min: 0, max: 4 }],
+        create: (params) => ({ getAction: () => ({ type: 'play', cardIndex: params.slot }) }),
+      }];`
+    );
+  }
+
+  it('adds strategies exported by modules in the directory', () => {
+    writeModule('always-play.js', 'AlwaysPlay');
+    fs.writeFileSync(path.join(dir, 'helper.js'), 'exports.unrelated = 1;');
+    const names = getStrategies(dir).map((s) => s.name);
+    expect(names).toContain('AlwaysPlay');
+    expect(names).toContain('Random');
+    const strategy = resolveStrategy('AlwaysPlay{slot=3}', dir).factory();
+    expect(strategy.getAction(createMockObservation())).toEqual({ type: 'play', cardIndex: 3 });
+    // Without the directory only the built-ins are known
+    expect(getStrategyDefinitions().some((d) => d.name === 'AlwaysPlay')).toBe(false);
+  });
+
+  it('refuses a name that is already taken', () => {
+    writeModule('clash.js', 'Random');
+    expect(() => getStrategies(dir)).toThrow('Duplicate strategy name: Random');
+  });
 });
@@ -1,45 +1,77 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import type { HanabiStrategy } from './types';
-import { ExampleStrategy } from './example-strategy';
-import { HintPartnerStrategy } from './hint-partner-strategy';
-import { HintPartnerDiscardStrategy } from './hint-partner-discard-strategy';
-import { HintPartnerDiscardRightStrategy } from './hint-partner-discard-right-strategy';
-import { HintPartnerDiscardLeftSafeStrategy } from './hint-partner-discard-left-safe-strategy';
-import { HintPartnerDiscardRightSafeStrategy } from './hint-partner-discard-right-safe-strategy';
+import type { StrategyDefinition, StrategyParamSchema } from './parameters';
+import { parseStrategySpec, resolveParams, formatStrategySpec } from './parameters';
 
 export interface StrategyEntry {
+  /** Definition name, or a named instance such as `HintPartner{rngSeed=7}`. */
   name: string;
+  description: string;
+  params: StrategyParamSchema[];
   factory: () => HanabiStrategy;
 }
 
+const definitionCache = new Map<string, StrategyDefinition[]>();
+
+function isStrategyModule(file: string): boolean {
+  return file.endsWith('.js') && !file.endsWith('.test.js');
+}
+
+function loadDefinitions(dir: string): StrategyDefinition[] {
+  const definitions: StrategyDefinition[] = [];
+  for (const file of fs.readdirSync(dir).filter(isStrategyModule).sort()) {
+    const mod = require(path.join(dir, file)) as { strategyDefinitions?: StrategyDefinition[] };
+    if (Array.isArray(mod.strategyDefinitions)) definitions.push(...mod.strategyDefinitions);
+  }
+  return definitions;
+}
+
+/**
+ * Strategy definitions discovered from every module in this directory that exports
+ * `strategyDefinitions`, plus those in `externalDir` (compiled .js modules) if given (OQ-2).
+ * Sorted by name; throws on a duplicate name. Cached per directory.
+ */
+export function getStrategyDefinitions(externalDir?: string): StrategyDefinition[] {
+  const key = externalDir ? path.resolve(externalDir) : '';
+  const cached = definitionCache.get(key);
+  if (cached) return cached;
+
+  const definitions = loadDefinitions(__dirname);
+  if (externalDir) {
+    if (!fs.existsSync(key)) throw new Error(`Strategy directory not found: ${externalDir}`);
+    definitions.push(...loadDefinitions(key));
+  }
+  const seen = new Set<string>();
+  for (const d of definitions) {
+    if (seen.has(d.name)) throw new Error(`Duplicate strategy name: ${d.name}`);
+    seen.add(d.name);
+  }
+  definitions.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+  definitionCache.set(key, definitions);
+  return definitions;
+}
+
+/**
+ * Resolves a strategy name or named instance (`Name{param=value,...}`) to a registry entry.
+ * Throws for an unknown strategy or a parameter that doesn't fit the schema.
+ */
+export function resolveStrategy(spec: string, externalDir?: string): StrategyEntry {
+  const { name, params: explicit } = parseStrategySpec(spec);
+  const definition = getStrategyDefinitions(externalDir).find((d) => d.name === name);
+  if (!definition) throw new Error(`Unknown strategy: ${name}`);
+  const params = resolveParams(definition, explicit);
+  return {
+    name: formatStrategySpec(definition, explicit, params),
+    description: definition.description,
+    params: definition.params,
+    factory: () => definition.create(params),
+  };
+}
+
 /**
- * Returns the list of available strategies for the simulator and UI.
- * Manual list per OQ-2.
+ * Returns every discovered strategy with default parameters, for the simulator and UI.
  */
-export function getStrategies(): StrategyEntry[] {
-  return [
-    {
-      name: 'Random',
-      factory: () => new ExampleStrategy(42),
-    },
-    {
-      name: 'HintPartner',
-      factory: () => new HintPartnerStrategy(42),
-    },
-    {
-      name: 'HintPartner_discard',
-      factory: () => new HintPartnerDiscardStrategy(42),
-    },
-    {
-      name: 'HintPartner_discard_right',
-      factory: () => new HintPartnerDiscardRightStrategy(42),
-    },
-    {
-      name: 'HintPartner_discard_left_safe',
-      factory: () => new HintPartnerDiscardLeftSafeStrategy(42),
-    },
-    {
-      name: 'HintPartner_discard_right_safe',
-      factory: () => new HintPartnerDiscardRightSafeStrategy(42),
-    },
-  ];
+export function getStrategies(externalDir?: string): StrategyEntry[] {
+  return getStrategyDefinitions(externalDir).map((d) => resolveStrategy(d.name, externalDir));
 }
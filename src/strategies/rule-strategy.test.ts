@@ -0,0 +1,147 @@
+import { RuleBasedStrategy } from './rule-strategy';
+import type { StrategyRule } from './rule-strategy';
+import {
+  playHintedPosition,
+  hintPlayablePosition,
+  safeDiscard,
+  randomLegalAction,
+} from './convention-rules';
+import { HintPartnerDiscardRightSafeStrategy } from './hint-partner-discard-right-safe-strategy';
+import type { Observation } from './types';
+import { Color } from '../engine/types';
+import { DEFAULT_RULES, withHintMode } from '../engine/rules';
+import { runSingleGame } from '../simulator/runner';
+import { createDefaultConfig } from '../config';
+
+function createMockObservation(overrides: Partial<Observation> = {}): Observation {
+  return {
+    visibleCards: {
+      1: [
+        { cardId: 5, color: Color.Red, value: 2 },
+        { cardId: 6, color: Color.Blue, value: 1 },
+      ],
+    },
+    observerSeat: 0,
+    playerCount: 2,
+    variantId: 'standard',
+    rules: withHintMode(DEFAULT_RULES, 'empty-clues'),
+    ownHandSize: 5,
+    ownCardIds: [10, 20, 30, 40, 50],
+    hintsRemaining: 4,
+    livesRemaining: 3,
+    discardPile: [],
+    playedStacks: { 0: 0, 1: 0, 2: 0, 3: 0, 4: 0 },
+    deckCount: 35,
+    actionHistory: [],
+    ...overrides,
+  };
+}
+
+function fixedRule(name: string, action: ReturnType<StrategyRule['apply']>): StrategyRule {
+  return { name, apply: () => action };
+}
+
+describe('RuleBasedStrategy', () => {
+  it('uses the first rule with a legal proposal and reports its name', () => {
+    const strategy = new RuleBasedStrategy([
+      fixedRule('pass', null),
+      fixedRule('illegal', { type: 'play', cardIndex: 7 }),
+      fixedRule('discard-2', { type: 'discard', cardIndex: 2 }),
+      fixedRule('never', { type: 'play', cardIndex: 0 }),
+    ]);
+    expect(strategy.getAction(createMockObservation())).toEqual({ type: 'discard', cardIndex: 2 });
+    expect(strategy.explainLastAction()).toBe('discard-2');
+  });
+
+  it('falls back to play slot 0 with no explanation when no rule fires', () => {
+    const strategy = new RuleBasedStrategy([fixedRule('pass', null)]);
+    expect(strategy.getAction(createMockObservation())).toEqual({ type: 'play', cardIndex: 0 });
+    expect(strategy.explainLastAction()).toBeUndefined();
+  });
+
+  it('is deterministic per observation and seed', () => {
+    const obs = createMockObservation();
+    const a = new RuleBasedStrategy([randomLegalAction()], 7);
+    expect(a.getAction(obs)).toEqual(a.clone().getAction(obs));
+  });
+});
+
+describe('convention rules', () => {
+  it('plays the slot encoded by the last number hint received', () => {
+    const rule = playHintedPosition();
+    const hint = {
+      type: 'hint' as const,
+      playerIndex: 1,
+      targetPlayer: 0,
+      hintType: 'number' as const,
+      hintValue: 3,
+      matchedCardIndices: [],
+      matchedCardIds: [],
+    };
+    const strategy = new RuleBasedStrategy([rule]);
+    expect(strategy.getAction(createMockObservation({ actionHistory: [hint] }))).toEqual({
+      type: 'play',
+      cardIndex: 2,
+    });
+    // Our own discard since the hint consumes it
+    const consumed = createMockObservation({
+      actionHistory: [
+        hint,
+        { type: 'discard', playerIndex: 0, cardIndex: 4, card: { id: 50, color: Color.Red, value: 3 } },
+      ],
+    });
+    expect(rule.apply(consumed, { legalActions: [], rng: () => 0 })).toBeNull();
+  });
+
+  it('hints the position of the first playable card', () => {
+    const rule = hintPlayablePosition();
+    expect(rule.apply(createMockObservation(), { legalActions: [], rng: () => 0 })).toEqual({
+      type: 'hint',
+      targetPlayer: 1,
+      hintType: 'number',
+      hintValue: 2,
+    });
+  });
+
+  it('safe discard keeps a known 5 and discards its neighbour', () => {
+    const strategy = new RuleBasedStrategy([safeDiscard('right')]);
+    const obs = createMockObservation({
+      actionHistory: [
+        {
+          type: 'hint',
+          playerIndex: 1,
+          targetPlayer: 0,
+          hintType: 'number',
+          hintValue: 5,
+          matchedCardIndices: [4],
+          matchedCardIds: [50],
+        },
+      ],
+    });
+    expect(strategy.getAction(obs)).toEqual({ type: 'discard', cardIndex: 3 });
+    expect(strategy.getAction(createMockObservation())).toEqual({ type: 'discard', cardIndex: 4 });
+  });
+});
+
+describe('rule traces', () => {
+  it('records which rule produced each action', () => {
+    const config = createDefaultConfig({ rules: withHintMode(DEFAULT_RULES, 'empty-clues') });
+    const { trace } = runSingleGame(3, config, new HintPartnerDiscardRightSafeStrategy(), {
+      collectTrace: true,
+      decisionTimes: [],
+    });
+    expect(trace!.actionReasons).toHaveLength(trace!.events.length);
+    const names = new Set(trace!.actionReasons);
+    expect(names.has('play-hinted-position')).toBe(true);
+    expect(names.has('hint-playable-position')).toBe(true);
+    for (const name of names) {
+      expect([
+        'play-hinted-position',
+        'hint-playable-position',
+        'safe-discard-right',
+        'color-hint-at-max-tokens',
+        'random',
+      ]).toContain(name);
+    }
+  });
+});
@@ -0,0 +1,73 @@
+import type { Action } from '../engine/actions';
+import { getLegalActionsFromObservation } from '../engine/actions';
+import type { HanabiStrategy, Observation } from './types';
+import { getDeterministicRNG } from './observation-rng';
+
+/** What a rule gets besides the observation: the legal actions and this decision's RNG. */
+export interface RuleContext {
+  legalActions: Action[];
+  /** Seeded per observation (see getDeterministicRNG); shared by every rule in one decision. */
+  rng: () => number;
+}
+
+/**
+ * One convention step. `apply` proposes an action or returns null to pass to the next rule; an
+ * illegal proposal also passes. `name` is recorded in traces, so include any parameters in it.
+ */
+export interface StrategyRule {
+  name: string;
+  apply(observation: Observation, context: RuleContext): Action | null;
+}
+
+function sameAction(a: Action, b: Action): boolean {
+  if (a.type !== b.type) return false;
+  if (a.type === 'hint' && b.type === 'hint') {
+    return (
+      a.targetPlayer === b.targetPlayer && a.hintType === b.hintType && a.hintValue === b.hintValue
+    );
+  }
+  return a.type !== 'hint' && b.type !== 'hint' && a.cardIndex === b.cardIndex;
+}
+
+/**
+ * Strategy built from an ordered rule list: the first rule whose proposal is legal decides the
+ * action. With no legal action at all (an empty hand and no hint tokens) it returns play slot 0
+ * and leaves the outcome to the runner's invalid-action policy.
+ */
+export class RuleBasedStrategy implements HanabiStrategy {
+  private lastRule: string | undefined;
+
+  constructor(
+    readonly rules: readonly StrategyRule[],
+    protected readonly rngSeed = 42
+  ) {}
+
+  clone(): HanabiStrategy {
+    return new RuleBasedStrategy(this.rules, this.rngSeed);
+  }
+
+  getAction(observation: Observation): Action {
+    this.lastRule = undefined;
+    const legalActions = getLegalActionsFromObservation(observation);
+    if (legalActions.length === 0) return { type: 'play', cardIndex: 0 };
+
+    const context: RuleContext = {
+      legalActions,
+      rng: getDeterministicRNG(observation, this.rngSeed),
+    };
+    for (const rule of this.rules) {
+      const proposal = rule.apply(observation, context);
+      if (!proposal) continue;
+      const legal = legalActions.find((a) => sameAction(a, proposal));
+      if (legal) {
+        this.lastRule = rule.name;
+        return { ...legal };
+      }
+    }
+    return { type: 'play', cardIndex: 0 };
+  }
+
+  explainLastAction(): string | undefined {
+    return this.lastRule;
+  }
+}
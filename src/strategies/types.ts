@@ -1,14 +1,33 @@
 import type { Action } from '../engine/actions';
 import type { Observation } from '../engine/observation';
+import type { GameEvent, FinalState } from '../engine/events';
+import type { HintMode } from '../engine/rules';
+import type { GameConfig } from '../config';
 
 export type { Observation };
 export type { VisibleCard } from '../engine/observation';
 
 /**
- * Strategy interface: state in, action out. Stateless; all context is in the observation; use getSelfSeat(observation) for own seat.
+ * Strategy interface (PRD Appendix B). Only getAction is required; use getSelfSeat(observation) for own seat.
+ * The runner clones one instance per seat for each game and calls the hooks in this order:
+ * clone → initialize → onGameStart → (getAction → onActionResolved on every seat)* → onGameEnd.
+ * Strategies without clone() are shared across seats and must then be stateless.
  */
 export interface HanabiStrategy {
+  /** Hint mode the strategy's conventions need; omit if it plays under any mode. The runner refuses mismatches. */
+  readonly requiredHintMode?: HintMode;
+  /** Called once per game on the seat's own instance, before any observation. */
+  initialize?(config: GameConfig, seatIndex: number): void;
+  /** Called with the seat's opening observation after the deal. */
+  onGameStart?(observation: Observation): void;
   getAction(observation: Observation): Action;
+  /** Called on every seat after each action resolves, including the seat that acted. */
+  onActionResolved?(event: GameEvent): void;
+  onGameEnd?(result: FinalState): void;
+  /** Returns a fresh instance with the same parameters and no per-game state. */
+  clone?(): HanabiStrategy;
+  /** Why the last getAction returned what it did (e.g. the rule that fired); recorded in traces. */
+  explainLastAction?(): string | undefined;
 }
 
-export type { Action };
+export type { Action, HintMode, GameEvent, FinalState };
@@ -0,0 +1,103 @@
+import { JobQueue } from './jobs';
+import type { JobRunner, JobSnapshot } from './jobs';
+import type { SimulationProgress } from '../simulator/parallel';
+import { createDefaultConfig } from '../config';
+
+function progress(strategyName: string, gamesDone: number): SimulationProgress {
+  return {
+    strategyName,
+    strategyIndex: 0,
+    strategyCount: 1,
+    gamesDone,
+    gameCount: 10,
+    meanScore: 12,
+    etaMs: 0,
+  };
+}
+
+/** Runner whose jobs finish only when the test resolves them. */
+function controllableRunner() {
+  const calls: {
+    onProgress: (p: SimulationProgress) => void;
+    signal: AbortSignal;
+    resolve: (timestamp: string) => void;
+    reject: (err: Error) => void;
+  }[] = [];
+  const runner: JobRunner = (_request, onProgress, signal) =>
+    new Promise((resolve, reject) => calls.push({ onProgress, signal, resolve, reject }));
+  return { runner, calls };
+}
+
+const request = { label: 'Default', config: createDefaultConfig() };
+
+const flush = () => new Promise((r) => setImmediate(r));
+
+describe('JobQueue', () => {
+  it('runs jobs one at a time in FIFO order', async () => {
+    const { runner, calls } = controllableRunner();
+    const queue = new JobQueue(runner);
+    const a = queue.enqueue(request);
+    const b = queue.enqueue(request);
+    expect(queue.get(a.id)!.status).toBe('running');
+    expect(queue.get(b.id)!.status).toBe('queued');
+    expect(calls).toHaveLength(1);
+
+    calls[0].resolve('ts-a');
+    await flush();
+    expect(queue.get(a.id)).toMatchObject({ status: 'completed', timestamp: 'ts-a' });
+    expect(queue.get(b.id)!.status).toBe('running');
+    expect(calls).toHaveLength(2);
+  });
+
+  it('publishes progress and status updates to subscribers', async () => {
+    const { runner, calls } = controllableRunner();
+    const queue = new JobQueue(runner);
+    const job = queue.enqueue(request);
+    const seen: JobSnapshot[] = [];
+    queue.onUpdate(job.id, (s) => seen.push(s));
+
+    calls[0].onProgress(progress('Random', 4));
+    calls[0].reject(new Error('boom'));
+    await flush();
+    expect(seen[0].progress.Random.gamesDone).toBe(4);
+    expect(seen[seen.length - 1]).toMatchObject({ status: 'failed', error: 'boom' });
+  });
+
+  it('cancels running and queued jobs', async () => {
+    const { runner, calls } = controllableRunner();
+    const queue = new JobQueue(runner);
+    const a = queue.enqueue(request);
+    const b = queue.enqueue(request);
+
+    expect(queue.cancel(b.id)).toBe(true);
+    expect(queue.cancel(a.id)).toBe(true);
+    expect(calls[0].signal.aborted).toBe(true);
+    calls[0].reject(new Error('Simulation cancelled'));
+    await flush();
+
+    expect(queue.get(a.id)!.status).toBe('cancelled');
+    expect(queue.get(b.id)!.status).toBe('cancelled');
+    expect(calls).toHaveLength(1);
+    expect(queue.cancel(a.id)).toBe(false);
+  });
+
+  it('keeps only the last finished jobs', async () => {
+    const { runner, calls } = controllableRunner();
+    const queue = new JobQueue(runner, 2);
+    const ids = [1, 2, 3, 4].map(() => queue.enqueue(request).id);
+    calls[0].resolve('ts-1');
+    await flush();
+    calls[1].reject(new Error('boom'));
+    await flush();
+    expect(queue.cancel(ids[3])).toBe(true);
+    expect(queue.list().map((j) => j.id)).toEqual([ids[1], ids[2], ids[3]]);
+
+    calls[2].resolve('ts-3');
+    await flush();
+    expect(queue.get(ids[1])).toBeUndefined();
+    expect(queue.list().map((j) => [j.id, j.status])).toEqual([
+      [ids[2], 'completed'],
+      [ids[3], 'cancelled'],
+    ]);
+  });
+});
@@ -0,0 +1,189 @@
+import { EventEmitter } from 'events';
+import type { SimulationProgress } from '../simulator/parallel';
+import type { GameConfig } from '../config';
+import type { SequentialOptions } from '../simulator/sequential';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobRequest {
+  /** Preset label, or 'Custom' for a config built in the UI. */
+  label: string;
+  config: GameConfig;
+  strategyNames?: string[];
+  /** Results directory of a created parameter sweep; the job runs the cells it still lacks. */
+  sweepTimestamp?: string;
+  /** Play in batches and stop once every pairwise comparison is conclusive. */
+  sequential?: SequentialOptions;
+  /** Play every pair of the strategies together (cross-play) instead of each in self-play. */
+  crossPlay?: boolean;
+}
+
+/**
+ * Public view of a job, as returned by the API and sent on its event stream. The config is left
+ * out because a seed list can be large and this is sent on every progress update.
+ */
+export interface JobSnapshot {
+  id: string;
+  status: JobStatus;
+  label: string;
+  strategyNames?: string[];
+  sweepTimestamp?: string;
+  /** Latest progress per strategy (per cell for a sweep), keyed by name. */
+  progress: Record<string, SimulationProgress>;
+  /** Results timestamp once completed. */
+  timestamp?: string;
+  error?: string;
+}
+
+/** Runs one job to completion and resolves with the results timestamp. */
+export type JobRunner = (
+  request: JobRequest,
+  onProgress: (progress: SimulationProgress) => void,
+  signal: AbortSignal
+) => Promise<string>;
+
+interface Job extends JobSnapshot {
+  request: JobRequest;
+  controller: AbortController;
+}
+
+const TERMINAL: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+export function isTerminal(status: JobStatus): boolean {
+  return TERMINAL.includes(status);
+}
+
+/** Finished jobs kept for the API; older ones are forgotten (their results stay on disk). */
+export const DEFAULT_MAX_FINISHED_JOBS = 50;
+
+/**
+ * FIFO queue of simulation jobs, run one at a time. Emits 'update' with the job's snapshot on
+ * every status or progress change; subscribe per job with onUpdate. Only the last maxFinished
+ * completed, failed or cancelled jobs are kept.
+ */
+export class JobQueue {
+  private readonly jobs = new Map<string, Job>();
+  private readonly pending: Job[] = [];
+  /** Ids of finished jobs, oldest first. */
+  private readonly finished: string[] = [];
+  private readonly events = new EventEmitter();
+  private running: Job | null = null;
+  private nextId = 1;
+
+  constructor(
+    private readonly runner: JobRunner,
+    private readonly maxFinished = DEFAULT_MAX_FINISHED_JOBS
+  ) {
+    this.events.setMaxListeners(0);
+  }
+
+  enqueue(request: JobRequest): JobSnapshot {
+    const job: Job = {
+      id: String(this.nextId++),
+      status: 'queued',
+      label: request.label,
+      ...(request.strategyNames && { strategyNames: request.strategyNames }),
+      ...(request.sweepTimestamp && { sweepTimestamp: request.sweepTimestamp }),
+      request,
+      progress: {},
+      controller: new AbortController(),
+    };
+    this.jobs.set(job.id, job);
+    this.pending.push(job);
+    this.emit(job);
+    this.startNext();
+    return this.snapshot(job);
+  }
+
+  get(id: string): JobSnapshot | undefined {
+    const job = this.jobs.get(id);
+    return job && this.snapshot(job);
+  }
+
+  list(): JobSnapshot[] {
+    return Array.from(this.jobs.values(), (job) => this.snapshot(job));
+  }
+
+  /** Cancels a queued or running job. Returns false if the job is unknown or already finished. */
+  cancel(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job || isTerminal(job.status)) return false;
+    const idx = this.pending.indexOf(job);
+    if (idx >= 0) this.pending.splice(idx, 1);
+    job.status = 'cancelled';
+    job.controller.abort();
+    this.emit(job);
+    this.retire(job);
+    return true;
+  }
+
+  /** Subscribes to a job's updates; returns the unsubscribe function. */
+  onUpdate(id: string, listener: (snapshot: JobSnapshot) => void): () => void {
+    const handler = (snapshot: JobSnapshot) => {
+      if (snapshot.id === id) listener(snapshot);
+    };
+    this.events.on('update', handler);
+    return () => this.events.off('update', handler);
+  }
+
+  private startNext(): void {
+    if (this.running) return;
+    const job = this.pending.shift();
+    if (!job) return;
+    this.running = job;
+    job.status = 'running';
+    this.emit(job);
+
+    this.runner(
+      job.request,
+      (progress) => {
+        if (job.status !== 'running') return;
+        job.progress[progress.strategyName] = progress;
+        this.emit(job);
+      },
+      job.controller.signal
+    )
+      .then((timestamp) => {
+        if (job.status !== 'running') return;
+        job.status = 'completed';
+        job.timestamp = timestamp;
+      })
+      .catch((err: unknown) => {
+        if (job.status !== 'running') return;
+        job.status = 'failed';
+        job.error = err instanceof Error ? err.message : String(err);
+      })
+      .finally(() => {
+        this.emit(job);
+        // A cancelled job was retired when it was cancelled
+        if (job.status !== 'cancelled') this.retire(job);
+        this.running = null;
+        this.startNext();
+      });
+  }
+
+  /** Records a finished job, forgetting the oldest beyond maxFinished. */
+  private retire(job: Job): void {
+    this.finished.push(job.id);
+    while (this.finished.length > this.maxFinished) {
+      this.jobs.delete(this.finished.shift()!);
+    }
+  }
+
+  private emit(job: Job): void {
+    this.events.emit('update', this.snapshot(job));
+  }
+
+  private snapshot(job: Job): JobSnapshot {
+    return {
+      id: job.id,
+      status: job.status,
+      label: job.label,
+      ...(job.strategyNames && { strategyNames: job.strategyNames }),
+      ...(job.sweepTimestamp && { sweepTimestamp: job.sweepTimestamp }),
+      progress: { ...job.progress },
+      ...(job.timestamp !== undefined && { timestamp: job.timestamp }),
+      ...(job.error !== undefined && { error: job.error }),
+    };
+  }
+}
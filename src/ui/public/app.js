@@ -1,76 +1,405 @@
 let chart = null;
+let sweepChart = null;
+/** Column and direction of the sweep table sort. */
+let sweepSort = { key: 'avgScore', desc: true };
+let presets = [];
+/** Strategy metadata from /api/strategies, including each parameter schema. */
+let strategyDefs = [];
+/** True once a builder field was edited, so runs send the form's config instead of the preset id. */
+let configEdited = false;
 
 async function api(path, options = {}) {
   const res = await fetch(path, options);
   if (!res.ok) {
     const err = await res.json().catch(() => ({ error: res.statusText }));
-    throw new Error(err.error || res.statusText);
+    const e = new Error(err.error || res.statusText);
+    e.fieldErrors = err.fieldErrors || [];
+    throw e;
   }
   return res.json();
 }
 
 async function loadStrategies() {
-  const list = await api('/api/strategies');
+  strategyDefs = await api('/api/strategies');
   const sel = document.getElementById('strategies');
   sel.innerHTML = '';
-  list.forEach((s) => {
+  strategyDefs.forEach((s) => {
     const opt = document.createElement('option');
     opt.value = s.name;
-    opt.textContent = s.name;
+    opt.textContent = s.requiredHintMode ? `${s.name} (${s.requiredHintMode})` : s.name;
+    opt.title = s.description || '';
+    opt.dataset.hintMode = s.requiredHintMode || '';
     opt.selected = true;
     sel.appendChild(opt);
   });
+  renderStrategyParams();
 }
 
-async function loadConfigs() {
-  const list = await api('/api/configs');
+/** One input per schema parameter, grouped by strategy and prefilled with the defaults. */
+function renderStrategyParams() {
+  const container = document.getElementById('strategyParamFields');
+  container.innerHTML = '';
+  for (const s of strategyDefs) {
+    if (!s.params || s.params.length === 0) continue;
+    const group = document.createElement('div');
+    group.className = 'strategy-params';
+    group.innerHTML = `<h4>${escapeHtml(s.name)}</h4><p class="config-note">${escapeHtml(s.description || '')}</p>`;
+    const grid = document.createElement('div');
+    grid.className = 'config-grid';
+    for (const p of s.params) {
+      const label = document.createElement('label');
+      label.title = p.description || '';
+      let input;
+      if (p.type === 'boolean') {
+        label.className = 'checkbox';
+        input = document.createElement('input');
+        input.type = 'checkbox';
+        input.checked = p.default === true;
+      } else if (p.options) {
+        input = document.createElement('select');
+        p.options.forEach((o) => input.appendChild(new Option(o, o)));
+        input.value = p.default;
+      } else {
+        input = document.createElement('input');
+        input.type = p.type === 'string' ? 'text' : 'number';
+        if (p.min !== undefined) input.min = p.min;
+        if (p.max !== undefined) input.max = p.max;
+        if (p.type === 'number') input.step = 'any';
+        input.value = p.default;
+      }
+      input.dataset.strategy = s.name;
+      input.dataset.param = p.name;
+      if (p.type === 'boolean') {
+        label.append(input, ` ${p.name}`);
+      } else {
+        label.append(p.name, input);
+      }
+      grid.appendChild(label);
+    }
+    group.appendChild(grid);
+    container.appendChild(group);
+  }
+}
+
+/** Strategy name to send: `Name{param=value,...}` when any parameter differs from its default. */
+function strategySpec(name) {
+  const def = strategyDefs.find((s) => s.name === name);
+  const parts = [];
+  for (const p of def?.params ?? []) {
+    const input = document.querySelector(
+      `#strategyParamFields [data-strategy="${CSS.escape(name)}"][data-param="${CSS.escape(p.name)}"]`
+    );
+    if (!input) continue;
+    const value = p.type === 'boolean' ? input.checked : input.value.trim();
+    if (String(value) !== String(p.default)) parts.push(`${p.name}=${value}`);
+  }
+  return parts.length > 0 ? `${name}{${parts.join(',')}}` : name;
+}
+
+async function loadConfigs(selectId) {
+  presets = await api('/api/configs');
   const sel = document.getElementById('configs');
   sel.innerHTML = '';
-  list.forEach((c) => {
+  presets.forEach((c) => {
     const opt = document.createElement('option');
     opt.value = c.id;
-    opt.textContent = c.label;
+    opt.textContent = c.builtIn ? c.label : `${c.label} (saved)`;
+    if (c.errors) {
+      // A saved preset that no longer validates: shown, but it cannot be picked
+      opt.disabled = true;
+      opt.textContent += ' — invalid';
+      opt.title = c.errors.map((e) => `${e.field} ${e.message}`).join('; ');
+    }
     sel.appendChild(opt);
   });
+  if (selectId) sel.value = selectId;
+  applyPreset();
+}
+
+async function loadVariants() {
+  const list = await api('/api/variants');
+  const sel = document.querySelector('#configForm [name="variant"]');
+  sel.innerHTML = '';
+  list.forEach((v) => sel.appendChild(new Option(v.name, v.id)));
+}
+
+function configField(name) {
+  return document.querySelector(`#configForm [name="${name}"]`);
+}
+
+/** Fills the builder from the selected preset. */
+function applyPreset() {
+  const preset = presets.find((p) => p.id === document.getElementById('configs').value);
+  if (!preset) return;
+  const c = preset.config;
+  for (const name of ['playerCount', 'variant', 'gameCount', 'hintTokens', 'lifeTokens', 'loggingMode', 'invalidActionPolicy']) {
+    configField(name).value = c[name];
+  }
+  for (const name of ['maxHintTokens', 'maxStrikes', 'endOfDeck']) {
+    configField(`rules.${name}`).value = c.rules[name];
+  }
+  configField('rules.handSize').value = c.rules.handSize ?? '';
+  for (const name of ['allowEmptyNumberHints', 'fiveRefundsHint', 'strikeoutScoresZero']) {
+    configField(`rules.${name}`).checked = c.rules[name];
+  }
+  // Only a contiguous seed list can be shown as a range
+  const seeds = c.seedList;
+  const contiguous = seeds.every((s, i) => i === 0 || s === seeds[i - 1] + 1);
+  configField('seedStart').value = seeds.length > 0 && contiguous ? seeds[0] : '';
+  configField('seedEnd').value = seeds.length > 0 && contiguous ? seeds[seeds.length - 1] : '';
+  configEdited = false;
+  showConfigErrors([]);
+  syncStrategyHintModes();
+}
+
+/** Builds a GameConfig from the builder form; a seed range becomes an explicit seedList. */
+function readConfigForm() {
+  const num = (name) => Number(configField(name).value);
+  const config = {
+    playerCount: num('playerCount'),
+    variant: configField('variant').value,
+    gameCount: num('gameCount'),
+    seedList: [],
+    hintTokens: num('hintTokens'),
+    lifeTokens: num('lifeTokens'),
+    loggingMode: configField('loggingMode').value,
+    invalidActionPolicy: configField('invalidActionPolicy').value,
+    rules: {
+      maxHintTokens: num('rules.maxHintTokens'),
+      maxStrikes: num('rules.maxStrikes'),
+      endOfDeck: configField('rules.endOfDeck').value,
+      allowEmptyNumberHints: configField('rules.allowEmptyNumberHints').checked,
+      fiveRefundsHint: configField('rules.fiveRefundsHint').checked,
+      strikeoutScoresZero: configField('rules.strikeoutScoresZero').checked,
+    },
+  };
+  if (configField('rules.handSize').value !== '') config.rules.handSize = num('rules.handSize');
+  const start = configField('seedStart').value;
+  const end = configField('seedEnd').value;
+  if (start !== '' || end !== '') {
+    const first = start === '' ? 0 : Number(start);
+    const last = end === '' ? first + config.gameCount - 1 : Number(end);
+    for (let s = first; s <= last; s++) config.seedList.push(s);
+    config.gameCount = Math.max(1, config.seedList.length);
+  }
+  return config;
+}
+
+/** Marks invalid builder fields and lists every error under the form. */
+function showConfigErrors(fieldErrors) {
+  document.querySelectorAll('#configForm .invalid').forEach((el) => el.classList.remove('invalid'));
+  const list = document.getElementById('configErrors');
+  list.innerHTML = '';
+  for (const { field, message } of fieldErrors) {
+    const name = field.startsWith('seedList') ? 'seedStart' : field;
+    const el = name && configField(name);
+    if (el) el.classList.add('invalid');
+    const li = document.createElement('li');
+    li.textContent = field ? `${field}: ${message}` : message;
+    list.appendChild(li);
+  }
+  if (fieldErrors.length > 0) document.getElementById('configBuilder').open = true;
+}
+
+async function savePreset() {
+  const label = document.getElementById('presetLabel').value;
+  try {
+    const saved = await api('/api/configs', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ label, config: readConfigForm() }),
+    });
+    document.getElementById('presetLabel').value = '';
+    await loadConfigs(saved.id);
+  } catch (e) {
+    showConfigErrors(e.fieldErrors.length > 0 ? e.fieldErrors : [{ field: '', message: e.message }]);
+  }
 }
 
-async function runSimulation() {
+/** Disables strategies whose required hint mode differs from the builder's hint rules. */
+function syncStrategyHintModes() {
+  const mode = configField('rules.allowEmptyNumberHints').checked ? 'empty-clues' : 'standard';
+  for (const opt of document.getElementById('strategies').options) {
+    const incompatible = !!opt.dataset.hintMode && opt.dataset.hintMode !== mode;
+    opt.disabled = incompatible;
+    opt.selected = !incompatible;
+  }
+}
+
+async function runSimulation(endpoint = '/api/run') {
   const strategiesSel = document.getElementById('strategies');
   const configSel = document.getElementById('configs');
-  const runBtn = document.getElementById('run');
+  const runBtns = [document.getElementById('run'), document.getElementById('runCrossPlay')];
   const errEl = document.getElementById('runError');
 
-  const strategyNames = Array.from(strategiesSel.selectedOptions).map((o) => o.value);
+  const strategyNames = Array.from(strategiesSel.selectedOptions).map((o) => strategySpec(o.value));
   const configId = configSel.value;
+  const label = configEdited ? 'Custom' : configSel.selectedOptions[0]?.textContent || configId;
+  const sequential = endpoint === '/api/run' && document.getElementById('stopEarly').checked
+    ? { batchSize: Number(document.getElementById('sequentialBatch').value) }
+    : undefined;
 
   errEl.textContent = '';
-  runBtn.disabled = true;
+  showConfigErrors([]);
+  runBtns.forEach((b) => { b.disabled = true; });
 
   try {
-    const { timestamp } = await api('/api/run', {
+    const response = await api(endpoint, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
-        configId,
+        ...(configEdited ? { config: readConfigForm() } : { configId }),
         strategyNames: strategyNames.length > 0 ? strategyNames : undefined,
+        sequential,
+      }),
+    });
+    trackJob(response.jobId, endpoint === '/api/crossplay' ? `${label} (cross-play)` : label);
+  } catch (e) {
+    errEl.textContent = e.message;
+    showConfigErrors(e.fieldErrors || []);
+  } finally {
+    runBtns.forEach((b) => { b.disabled = false; });
+  }
+}
+
+/** Parses `name = value, value` lines into value lists; numbers and true/false are converted. */
+function parseSweepLines(text) {
+  const lists = {};
+  for (const line of text.split('\n')) {
+    if (line.trim() === '') continue;
+    const eq = line.indexOf('=');
+    const name = line.slice(0, eq).trim();
+    if (eq < 0 || name === '') throw new Error(`Expected 'name = value, value' but got '${line.trim()}'`);
+    lists[name] = line.slice(eq + 1).split(',').map((v) => v.trim()).filter((v) => v !== '').map((v) => {
+      if (v === 'true' || v === 'false') return v === 'true';
+      return Number.isFinite(Number(v)) ? Number(v) : v;
+    });
+  }
+  return lists;
+}
+
+async function runSweep() {
+  const configSel = document.getElementById('configs');
+  const btn = document.getElementById('runSweep');
+  const errEl = document.getElementById('runError');
+  errEl.textContent = '';
+  showConfigErrors([]);
+  btn.disabled = true;
+  try {
+    const sweep = {
+      strategies: Array.from(document.getElementById('strategies').selectedOptions).map((o) => strategySpec(o.value)),
+      strategyParams: parseSweepLines(document.getElementById('sweepStrategyParams').value),
+      configParams: parseSweepLines(document.getElementById('sweepConfigParams').value),
+    };
+    const response = await api('/api/sweeps', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...(configEdited ? { config: readConfigForm() } : { configId: configSel.value }),
+        sweep,
       }),
     });
     await loadResultList();
-    await showResults(timestamp);
+    trackJob(response.jobId, `Sweep ${response.timestamp}`);
   } catch (e) {
     errEl.textContent = e.message;
+    showConfigErrors(e.fieldErrors || []);
   } finally {
-    runBtn.disabled = false;
+    btn.disabled = false;
+  }
+}
+
+async function resumeSweep(timestamp) {
+  const errEl = document.getElementById('runError');
+  errEl.textContent = '';
+  try {
+    const response = await api(`/api/sweeps/${timestamp}/resume`, { method: 'POST' });
+    trackJob(response.jobId, `Sweep ${timestamp} (resumed)`);
+  } catch (e) {
+    errEl.textContent = e.message;
   }
 }
 
+function formatEta(ms) {
+  const s = Math.round(ms / 1000);
+  return s >= 60 ? `${Math.floor(s / 60)}m ${s % 60}s` : `${s}s`;
+}
+
+/** Adds a row to the job queue and follows the job's SSE stream until it finishes. */
+function trackJob(jobId, label) {
+  const row = document.createElement('div');
+  row.className = 'job';
+  row.innerHTML = `
+    <div class="job-header">
+      <span class="job-title">#${escapeHtml(jobId)} ${escapeHtml(label)}</span>
+      <span class="job-status">queued</span>
+      <button type="button" class="job-cancel">Cancel</button>
+    </div>
+    <div class="job-progress"></div>
+  `;
+  document.getElementById('jobQueue').prepend(row);
+  const statusEl = row.querySelector('.job-status');
+  const progressEl = row.querySelector('.job-progress');
+  const cancelBtn = row.querySelector('.job-cancel');
+
+  cancelBtn.onclick = async () => {
+    cancelBtn.disabled = true;
+    try {
+      await api(`/api/jobs/${jobId}`, { method: 'DELETE' });
+    } catch (e) {
+      statusEl.textContent = e.message;
+    }
+  };
+
+  const source = new EventSource(`/api/jobs/${jobId}/events`);
+  source.addEventListener('update', async (e) => {
+    const job = JSON.parse(e.data);
+    const entries = Object.values(job.progress);
+    const latest = entries[entries.length - 1];
+    statusEl.textContent = job.status === 'running' && latest
+      ? `running — ETA ${formatEta(latest.etaMs)}`
+      : job.status + (job.error ? `: ${job.error}` : '');
+    progressEl.innerHTML = entries.map((p) => {
+      const pct = p.gameCount > 0 ? (100 * p.gamesDone) / p.gameCount : 100;
+      return `<div class="job-strategy">
+        <span class="job-strategy-name">${escapeHtml(p.strategyName)}</span>
+        <progress max="${p.gameCount}" value="${p.gamesDone}"></progress>
+        <span>${p.gamesDone}/${p.gameCount} (${pct.toFixed(0)}%) — mean ${p.meanScore.toFixed(2)}</span>
+      </div>`;
+    }).join('');
+    if (['completed', 'failed', 'cancelled'].includes(job.status)) {
+      source.close();
+      cancelBtn.remove();
+      if (job.status === 'completed') {
+        await loadResultList();
+        await showResults(job.timestamp);
+      }
+    }
+  });
+  source.onerror = () => {
+    if (source.readyState === EventSource.CLOSED) statusEl.textContent = 'connection lost';
+  };
+}
+
 async function showResults(timestamp) {
   const data = await api(`/api/results/${timestamp}`);
-  const { summary, rawScores, stats } = data;
+  const { summary, rawScores, stats, crossPlay, sweep, comparisons } = data;
 
+  const pending = document.getElementById('sweepPending');
+  if (data.sweepStatus) {
+    const { cellsDone, cellCount } = data.sweepStatus;
+    document.getElementById('results').classList.remove('visible');
+    document.getElementById('sweepPendingMeta').textContent =
+      `Sweep ${timestamp} stopped with ${cellsDone} of ${cellCount} cells done. Resuming runs only the missing cells.`;
+    document.getElementById('resumeSweep').onclick = () => resumeSweep(timestamp);
+    pending.style.display = 'block';
+    return;
+  }
+  pending.style.display = 'none';
   document.getElementById('results').classList.add('visible');
 
   document.getElementById('resultMeta').textContent = `Run ${summary.timestamp} — ${summary.gameCount} games`;
+  renderSequential(summary.sequential);
 
   const tbody = document.querySelector('#resultsTable tbody');
   tbody.innerHTML = '';
@@ -83,16 +412,215 @@ async function showResults(timestamp) {
       <td>${name}</td>
       <td>${s.avgScore.toFixed(2)}</td>
       <td>${s.stdDev.toFixed(2)}</td>
-      <td>${(s.perfectRate * 100).toFixed(1)}%</td>
+      <td>${s.medianScore ?? '—'}${s.medianScoreCi95 ? `<span class="ci">[${s.medianScoreCi95.lower}, ${s.medianScoreCi95.upper}]</span>` : ''}</td>
+      <td>${(s.perfectRate * 100).toFixed(1)}%${s.perfectRateCi95 ? `<span class="ci">[${percent(s.perfectRateCi95.lower)}, ${percent(s.perfectRateCi95.upper)}]</span>` : ''}</td>
       <td>${summary.gameCount}</td>
+      <td>${s.invalidActionCount ?? 0}</td>
+      <td>${s.avgCriticalDiscards !== undefined ? s.avgCriticalDiscards.toFixed(2) : '—'}</td>
       <td>${Math.round(t.totalMs || 0)}</td>
     `;
     tbody.appendChild(tr);
   }
 
+  renderCrossPlay(crossPlay, summary.config?.maxScore ?? 25);
+  renderSweep(sweep, summary.config?.maxScore ?? 25);
   renderChart(summary.strategyNames, stats);
   setupComparison(timestamp, summary.strategyNames);
-  await renderTraces(timestamp, summary);
+  setupLeaderboard(timestamp, comparisons);
+  await renderTraces(timestamp, summary, stats);
+}
+
+/** Why a sequential run stopped and what it decided for each pair. */
+function renderSequential(sequential) {
+  const el = document.getElementById('sequentialMeta');
+  if (!sequential) {
+    el.innerHTML = '';
+    return;
+  }
+  const { decision, lookSchedule, stoppingRule } = sequential;
+  const why = decision.reason === 'conclusive'
+    ? `stopped after ${decision.games} of ${lookSchedule.maxGames} games: every comparison is conclusive`
+    : `used the whole budget of ${decision.games} games`;
+  const pairs = decision.pairs.map((p) => `<li>${escapeHtml(p.a)} vs ${escapeHtml(p.b)}: ` +
+    (p.winner ? `${escapeHtml(p.winner)} better (at ${p.decidedAtGames} games)` : 'inconclusive') + '</li>').join('');
+  el.innerHTML = `<p>Sequential test (mixture SPRT, α = ${stoppingRule.alpha}, looks every ${lookSchedule.batchSize} games) ${why}.</p><ul>${pairs}</ul>`;
+}
+
+function percent(rate) {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+/** Heatmap of mean team score per strategy pair, shaded from red (0) to green (max score). */
+function renderCrossPlay(crossPlay, maxScore) {
+  const section = document.getElementById('crossPlaySection');
+  const table = document.getElementById('crossPlayTable');
+  if (!crossPlay) {
+    section.style.display = 'none';
+    table.innerHTML = '';
+    return;
+  }
+  section.style.display = 'block';
+  document.getElementById('crossPlayMeta').textContent =
+    `Mean team score with 95% CI over ${crossPlay.gameCount} games per pair (seats swapped across seeds).`;
+  const names = crossPlay.strategyNames;
+  let html = '<thead><tr><th></th>' + names.map((n) => `<th>${escapeHtml(n)}</th>`).join('') + '</tr></thead><tbody>';
+  names.forEach((rowName, i) => {
+    html += `<tr><th class="row-label">${escapeHtml(rowName)}</th>`;
+    names.forEach((_, j) => {
+      const avg = crossPlay.avgScore[i][j];
+      const ci = crossPlay.ci95[i][j];
+      const hue = Math.round(120 * Math.max(0, Math.min(1, avg / maxScore)));
+      html += `<td style="background: hsl(${hue}, 65%, 75%)">${avg.toFixed(2)}` +
+        `<span class="ci">[${ci.lower.toFixed(2)}, ${ci.upper.toFixed(2)}]</span></td>`;
+    });
+    html += '</tr>';
+  });
+  table.innerHTML = html + '</tbody>';
+}
+
+/** Sweep table, line chart and heatmap; only dimensions with more than one value are plotted. */
+function renderSweep(sweep, maxScore) {
+  const section = document.getElementById('sweepSection');
+  if (!sweep) {
+    section.style.display = 'none';
+    if (sweepChart) sweepChart.destroy();
+    sweepChart = null;
+    return;
+  }
+  section.style.display = 'block';
+  document.getElementById('sweepMeta').textContent =
+    `${sweep.rows.length} cells × ${sweep.gameCount} games on a shared seed list. Click a column to sort.`;
+
+  const swept = sweep.dimensions.filter((d) => d.values.length > 1);
+  const axes = swept.length > 0 ? swept : sweep.dimensions.slice(0, 1);
+  const xSel = document.getElementById('sweepX');
+  const ySel = document.getElementById('sweepY');
+  xSel.innerHTML = '';
+  axes.forEach((d) => xSel.appendChild(new Option(d.name, d.name)));
+  // Prefer a parameter over the strategy list as the x axis
+  xSel.value = (axes.find((d) => d.name !== 'strategy') || axes[0]).name;
+  const fillRows = () => {
+    ySel.innerHTML = '<option value="">— (none)</option>';
+    axes.filter((d) => d.name !== xSel.value).forEach((d) => ySel.appendChild(new Option(d.name, d.name)));
+  };
+  fillRows();
+  const draw = () => {
+    renderSweepChart(sweep, swept, xSel.value);
+    renderSweepHeatmap(sweep, xSel.value, ySel.value, maxScore);
+  };
+  xSel.onchange = () => { fillRows(); draw(); };
+  ySel.onchange = draw;
+  draw();
+  renderSweepTable(sweep);
+}
+
+function sweepValueLabel(value) {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function renderSweepTable(sweep) {
+  const table = document.getElementById('sweepTable');
+  const columns = [
+    ...sweep.dimensions.map((d) => ({ key: d.name, label: d.name, value: (r) => r.values[d.name] })),
+    { key: 'avgScore', label: 'Avg Score', value: (r) => r.avgScore },
+    { key: 'ci95', label: '95% CI', value: (r) => r.ci95.lower },
+    { key: 'perfectRate', label: '% Perfect', value: (r) => r.perfectRate },
+  ];
+  const column = columns.find((c) => c.key === sweepSort.key) || columns[columns.length - 3];
+  const rows = [...sweep.rows].sort((a, b) => {
+    const va = column.value(a);
+    const vb = column.value(b);
+    const cmp = typeof va === 'number' && typeof vb === 'number' ? va - vb : String(va).localeCompare(String(vb));
+    return sweepSort.desc ? -cmp : cmp;
+  });
+  let html = '<thead><tr>' + columns.map((c) => {
+    const cls = c.key === column.key ? `sorted${sweepSort.desc ? '' : ' asc'}` : '';
+    return `<th data-key="${escapeHtml(c.key)}" class="${cls}">${escapeHtml(c.label)}</th>`;
+  }).join('') + '</tr></thead><tbody>';
+  for (const r of rows) {
+    html += '<tr>' + sweep.dimensions.map((d) => `<td>${escapeHtml(sweepValueLabel(r.values[d.name]))}</td>`).join('') +
+      `<td>${r.avgScore.toFixed(2)}</td>` +
+      `<td>[${r.ci95.lower.toFixed(2)}, ${r.ci95.upper.toFixed(2)}]</td>` +
+      `<td>${(r.perfectRate * 100).toFixed(1)}%</td></tr>`;
+  }
+  table.innerHTML = html + '</tbody>';
+  table.querySelectorAll('th').forEach((th) => {
+    th.onclick = () => {
+      const key = th.dataset.key;
+      sweepSort = { key, desc: sweepSort.key === key ? !sweepSort.desc : true };
+      renderSweepTable(sweep);
+    };
+  });
+}
+
+/** Mean score against the x dimension, one line per combination of the other swept dimensions. */
+function renderSweepChart(sweep, swept, xName) {
+  const ctx = document.getElementById('sweepChart').getContext('2d');
+  if (sweepChart) sweepChart.destroy();
+  const xDim = sweep.dimensions.find((d) => d.name === xName);
+  const others = swept.filter((d) => d.name !== xName);
+  const series = new Map();
+  for (const r of sweep.rows) {
+    const label = others.map((d) => `${d.name}=${sweepValueLabel(r.values[d.name])}`).join(' ') || 'Avg score';
+    if (!series.has(label)) series.set(label, new Array(xDim.values.length).fill(null));
+    series.get(label)[xDim.values.indexOf(r.values[xName])] = r;
+  }
+  const colors = ['#3b82f6', '#22c55e', '#eab308', '#ef4444', '#8b5cf6'];
+  const datasets = Array.from(series, ([label, cells], i) => ({
+    label,
+    data: cells.map((r) => (r ? r.avgScore : null)),
+    cells,
+    borderColor: colors[i % colors.length],
+    backgroundColor: colors[i % colors.length],
+    tension: 0,
+  }));
+  sweepChart = new Chart(ctx, {
+    type: 'line',
+    data: { labels: xDim.values.map(sweepValueLabel), datasets },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      scales: {
+        x: { title: { display: true, text: xName } },
+        y: { title: { display: true, text: 'Avg score' } },
+      },
+      plugins: {
+        legend: { position: 'top', display: datasets.length > 1 },
+        tooltip: {
+          callbacks: {
+            afterLabel: (item) => {
+              const r = item.dataset.cells[item.dataIndex];
+              return r ? `95% CI [${r.ci95.lower.toFixed(2)}, ${r.ci95.upper.toFixed(2)}], perfect ${(r.perfectRate * 100).toFixed(1)}%` : '';
+            },
+          },
+        },
+      },
+    },
+  });
+}
+
+/** Heatmap of mean score over two dimensions, averaged over any others (all cells share seeds). */
+function renderSweepHeatmap(sweep, xName, yName, maxScore) {
+  const table = document.getElementById('sweepHeatmap');
+  if (!yName) {
+    table.innerHTML = '';
+    return;
+  }
+  const xDim = sweep.dimensions.find((d) => d.name === xName);
+  const yDim = sweep.dimensions.find((d) => d.name === yName);
+  let html = `<thead><tr><th class="row-label">${escapeHtml(yName)} ↓ ${escapeHtml(xName)} →</th>` +
+    xDim.values.map((v) => `<th>${escapeHtml(sweepValueLabel(v))}</th>`).join('') + '</tr></thead><tbody>';
+  for (const y of yDim.values) {
+    html += `<tr><th class="row-label">${escapeHtml(sweepValueLabel(y))}</th>`;
+    for (const x of xDim.values) {
+      const cells = sweep.rows.filter((r) => r.values[xName] === x && r.values[yName] === y);
+      const avg = cells.reduce((sum, r) => sum + r.avgScore, 0) / cells.length;
+      const hue = Math.round(120 * Math.max(0, Math.min(1, avg / maxScore)));
+      html += `<td style="background: hsl(${hue}, 65%, 75%)">${avg.toFixed(2)}</td>`;
+    }
+    html += '</tr>';
+  }
+  table.innerHTML = html + '</tbody>';
 }
 
 function renderChart(strategyNames, stats) {
@@ -101,7 +629,8 @@ function renderChart(strategyNames, stats) {
 
   if (chart) chart.destroy();
 
-  const labels = Array.from({ length: 26 }, (_, i) => i);
+  const binCount = Math.max(26, ...strategyNames.map((name) => stats[name].scoreHistogram.length));
+  const labels = Array.from({ length: binCount }, (_, i) => i);
   const colors = ['#3b82f6', '#22c55e', '#eab308', '#ef4444', '#8b5cf6'];
 
   const datasets = strategyNames.map((name, i) => ({
@@ -147,22 +676,182 @@ function setupComparison(timestamp, strategyNames) {
       resultEl.textContent = '';
       return;
     }
+    const test = document.getElementById('compareTest').value;
     try {
-      const data = await api(`/api/results/${timestamp}/compare?a=${encodeURIComponent(a)}&b=${encodeURIComponent(b)}`);
+      const data = await api(`/api/results/${timestamp}/compare?a=${encodeURIComponent(a)}&b=${encodeURIComponent(b)}&test=${test}`);
+      const ci = data.ci95
+        ? ` (95% CI [${data.ci95.lower.toFixed(3)}, ${data.ci95.upper.toFixed(3)}])`
+        : '';
       resultEl.innerHTML = `
+        <p><strong>Test:</strong> ${escapeHtml(data.testName)}, n = ${data.n}</p>
+        <p><strong>Mean difference:</strong> ${data.meanDiff.toFixed(3)}${ci}</p>
         <p><strong>p-value:</strong> ${data.pValue.toFixed(3)}</p>
-        <p><strong>Conclusion:</strong> ${data.conclusion}</p>
+        ${data.cohensD !== undefined ? `<p><strong>Cohen's d:</strong> ${data.cohensD.toFixed(3)}</p>` : ''}
+        <p><strong>Perfect rate difference:</strong> ${(data.perfectRateDiff.diff * 100).toFixed(1)} pp
+          (bootstrap 95% CI [${(data.perfectRateDiff.ci95.lower * 100).toFixed(1)}, ${(data.perfectRateDiff.ci95.upper * 100).toFixed(1)}] pp)</p>
+        <p><strong>Conclusion:</strong> ${escapeHtml(data.conclusion)}</p>
       `;
     } catch {
       resultEl.textContent = 'Error loading comparison';
     }
   }
 
-  selA.onchange = selB.onchange = update;
+  selA.onchange = selB.onchange = () => {
+    update();
+    updatePower(timestamp);
+    updateDivergence(timestamp);
+  };
+  document.getElementById('compareTest').onchange = () => {
+    update();
+    updatePower(timestamp);
+  };
+  document.getElementById('powerDiff').onchange = document.getElementById('powerLevel').onchange =
+    () => updatePower(timestamp);
   resultEl.textContent = '';
+  document.getElementById('powerResult').textContent = 'Pick two strategies above.';
+  document.getElementById('divergenceResult').textContent = 'Pick two strategies above.';
+}
+
+/** Games per strategy for the target difference, with the loaded run as the pilot. */
+async function updatePower(timestamp) {
+  const a = document.getElementById('compareA').value;
+  const b = document.getElementById('compareB').value;
+  const resultEl = document.getElementById('powerResult');
+  if (!a || !b || a === b) {
+    resultEl.textContent = 'Pick two strategies above.';
+    return;
+  }
+  const diff = document.getElementById('powerDiff').value;
+  const power = document.getElementById('powerLevel').value;
+  const games = (n) => (n === null ? 'more than 10⁹' : n.toLocaleString());
+  try {
+    const plan = await api(`/api/results/${timestamp}/power?a=${encodeURIComponent(a)}&b=${encodeURIComponent(b)}&diff=${diff}&power=${power}`);
+    resultEl.innerHTML = `
+      <p><strong>Paired (same seeds):</strong> ${games(plan.paired.games)} games per strategy
+        (sd of differences ${plan.paired.sd.toFixed(2)}, d<sub>z</sub> = ${plan.paired.cohensD.toFixed(3)})</p>
+      <p><strong>Unpaired:</strong> ${games(plan.unpaired.games)} games per strategy
+        (d = ${plan.unpaired.cohensD.toFixed(3)})</p>
+      <p>This run's ${plan.pilotGames} games have ${(plan.paired.pilotPower * 100).toFixed(0)}% power for that difference.</p>
+    `;
+  } catch (e) {
+    resultEl.textContent = e.message;
+  }
+}
+
+/** Seeds the selected pair scored furthest apart on, each opening both games side by side. */
+async function updateDivergence(timestamp) {
+  const a = document.getElementById('compareA').value;
+  const b = document.getElementById('compareB').value;
+  const resultEl = document.getElementById('divergenceResult');
+  if (!a || !b || a === b) {
+    resultEl.textContent = 'Pick two strategies above.';
+    return;
+  }
+  resultEl.textContent = 'Replaying…';
+  try {
+    const data = await api(`/api/results/${timestamp}/divergence?a=${encodeURIComponent(a)}&b=${encodeURIComponent(b)}`);
+    if (data.seeds.length === 0) {
+      resultEl.textContent = `Both strategies scored the same on all ${data.games} seeds.`;
+      return;
+    }
+    let html = '<table class="divergence-table"><thead><tr><th>Seed</th>' +
+      `<th>${escapeHtml(a)}</th><th>${escapeHtml(b)}</th><th>Difference</th><th>Diverge at</th>` +
+      `<th>${escapeHtml(a)} played</th><th>${escapeHtml(b)} played</th><th></th></tr></thead><tbody>`;
+    for (const d of data.seeds) {
+      const at = d.turn === null ? 'never' : `turn ${d.turn} (player ${d.player}, score ${d.scoreAtDivergence})`;
+      html += `<tr><td>${d.seed}</td><td>${d.scoreA}</td><td>${d.scoreB}</td>` +
+        `<td>${d.difference > 0 ? '+' : ''}${d.difference}</td><td>${at}</td>` +
+        `<td>${d.eventA ? escapeHtml(formatEvent(d.eventA)) : '—'}</td>` +
+        `<td>${d.eventB ? escapeHtml(formatEvent(d.eventB)) : '—'}</td>` +
+        `<td><button type="button" data-seed="${d.seed}">Side by side</button></td></tr>`;
+    }
+    resultEl.innerHTML = html + '</tbody></table>';
+    resultEl.querySelectorAll('button[data-seed]').forEach((btn) => {
+      btn.onclick = () => openDivergenceReplay(timestamp, a, b, btn.dataset.seed);
+    });
+  } catch (e) {
+    resultEl.textContent = e.message;
+  }
+}
+
+/**
+ * Ranking from comparisons.json; changing the test or correction recomputes it on the server.
+ * Runs with fewer than two strategies have no comparisons and hide the section.
+ */
+function setupLeaderboard(timestamp, comparisons) {
+  const section = document.getElementById('leaderboardSection');
+  const testSel = document.getElementById('leaderboardTest');
+  const correctionSel = document.getElementById('leaderboardCorrection');
+  if (!comparisons) {
+    section.style.display = 'none';
+    return;
+  }
+  section.style.display = 'block';
+  testSel.value = comparisons.test;
+  correctionSel.value = comparisons.correction;
+  renderLeaderboard(comparisons);
+
+  testSel.onchange = correctionSel.onchange = async () => {
+    try {
+      renderLeaderboard(await api(
+        `/api/results/${timestamp}/comparisons?test=${testSel.value}&correction=${correctionSel.value}`
+      ));
+    } catch {
+      document.getElementById('leaderboardMeta').textContent = 'Error loading comparisons';
+    }
+  };
+}
+
+/** Ranked table plus a matrix of adjusted p-values; significant pairs are highlighted. */
+function renderLeaderboard(matrix) {
+  const significantCount = matrix.pairs.filter((p) => p.significant).length;
+  document.getElementById('leaderboardMeta').textContent =
+    `${significantCount} of ${matrix.pairs.length} pairs differ at α = ${matrix.alpha} after correction. ` +
+    'Strategies in the same tier are not significantly different from the tier leader.';
+
+  const tbody = document.querySelector('#leaderboardTable tbody');
+  tbody.innerHTML = matrix.leaderboard.map((e) => `
+    <tr>
+      <td>${e.rank}</td>
+      <td>${e.tier}</td>
+      <td>${escapeHtml(e.name)}</td>
+      <td>${e.avgScore.toFixed(2)}</td>
+    </tr>
+  `).join('');
+
+  const names = matrix.leaderboard.map((e) => e.name);
+  const pairFor = (x, y) => matrix.pairs.find((p) => (p.a === x && p.b === y) || (p.a === y && p.b === x));
+  let html = '<thead><tr><th></th>' + names.map((n) => `<th>${escapeHtml(n)}</th>`).join('') + '</tr></thead><tbody>';
+  for (const rowName of names) {
+    html += `<tr><th class="row-label">${escapeHtml(rowName)}</th>`;
+    for (const colName of names) {
+      const pair = rowName === colName ? null : pairFor(rowName, colName);
+      html += pair
+        ? `<td class="${pair.significant ? 'significant' : ''}">${pair.adjustedPValue.toPrecision(2)}</td>`
+        : '<td>—</td>';
+    }
+    html += '</tr>';
+  }
+  document.getElementById('leaderboardMatrix').innerHTML = html + '</tbody>';
+}
+
+const LOSS_CAUSE_LABELS = {
+  'critical-discard': 'critical discards',
+  bomb: 'bombs',
+  strikeout: 'strike-out',
+  'deck-out': 'deck ran out',
+  forfeit: 'forfeit',
+};
+
+/** "3 deck ran out, 2 bombs" from points per cause; causes that cost nothing are left out. */
+function formatLostPoints(byCause, digits = 0) {
+  const parts = Object.entries(LOSS_CAUSE_LABELS)
+    .filter(([cause]) => byCause[cause] > 0)
+    .map(([cause, label]) => `${byCause[cause].toFixed(digits)} ${label}`);
+  return parts.length > 0 ? parts.join(', ') : '—';
 }
 
-async function renderTraces(timestamp, summary) {
+async function renderTraces(timestamp, summary, stats) {
   const section = document.getElementById('tracesSection');
   if (summary.config?.loggingMode !== 'debug') {
     section.style.display = 'none';
@@ -179,9 +868,13 @@ async function renderTraces(timestamp, summary) {
       const rows = (summary.traceIndex[name] || []).slice().sort((a, b) => (b.score - a.score));
       if (rows.length === 0) continue;
       html += `<h4 class="trace-strategy-name">${escapeHtml(name)}</h4>`;
-      html += '<table class="trace-table"><thead><tr><th>Score</th><th>Seed</th><th>End reason</th><th>Lives</th><th>Hints</th><th>Misplays</th><th>Replay</th></tr></thead><tbody>';
+      const losses = stats?.[name]?.lossAttribution;
+      if (losses) {
+        html += `<p class="trace-losses">Lost ${losses.avgLostPoints.toFixed(2)} points per game: ${formatLostPoints(losses.avgByCause, 2)}</p>`;
+      }
+      html += '<table class="trace-table"><thead><tr><th>Score</th><th>Seed</th><th>End reason</th><th>Lives</th><th>Hints</th><th>Misplays</th><th>Lost points</th><th>Replay</th></tr></thead><tbody>';
       for (const row of rows) {
-        html += `<tr><td>${row.score}</td><td>${row.seed}</td><td>${row.endReason}</td><td>${row.livesRemaining}</td><td>${row.hintsRemaining}</td><td>${row.misplayCount}</td><td><button type="button" class="trace-replay-btn" data-timestamp="${escapeHtml(timestamp)}" data-filename="${escapeHtml(row.filename)}">View replay</button></td></tr>`;
+        html += `<tr><td>${row.score}</td><td>${row.seed}</td><td>${row.endReason}</td><td>${row.livesRemaining}</td><td>${row.hintsRemaining}</td><td>${row.misplayCount}</td><td>${row.lostPoints ? formatLostPoints(row.lostPoints) : '—'}</td><td><button type="button" class="trace-replay-btn" data-timestamp="${escapeHtml(timestamp)}" data-filename="${escapeHtml(row.filename)}">View replay</button></td></tr>`;
       }
       html += '</tbody></table>';
     }
@@ -224,42 +917,207 @@ function escapeHtml(s) {
   return div.innerHTML;
 }
 
+/**
+ * The open replay: one pane, or two panes of the same seed that step together. Each pane holds a
+ * trace and its per-step states as rebuilt by the server.
+ */
 let replayState = null;
 
+/** A trace of a run with its steps, labelled with its strategy. */
+async function loadReplayPane(timestamp, filename) {
+  const [{ trace, steps }, { summary }] = await Promise.all([
+    api(`/api/results/${timestamp}/traces/${encodeURIComponent(filename)}/steps`),
+    api(`/api/results/${timestamp}`),
+  ]);
+  const strategy = Object.entries(summary.traceIndex || {}).find(([, rows]) =>
+    rows.some((row) => row.filename === filename)
+  )?.[0];
+  return { label: strategy ?? filename, timestamp, filename, trace, steps };
+}
+
 async function openReplay(timestamp, filename) {
   try {
-    const [trace, resultData] = await Promise.all([
-      api(`/api/results/${timestamp}/traces/${encodeURIComponent(filename)}?json=1`),
-      api(`/api/results/${timestamp}`),
-    ]);
-    const config = resultData.summary.config || { playerCount: 2, hintTokens: 8, lifeTokens: 3 };
-    const steps = buildReplaySteps(trace, config);
-    replayState = { trace, steps, timestamp, filename, config };
+    const pane = await loadReplayPane(timestamp, filename);
+    replayState = { panes: [pane] };
     document.getElementById('replayTitle').textContent = `Replay: ${filename}`;
     showReplayStep(0);
+    await setupReplayComparePicker(pane).catch(() => {
+      document.getElementById('replayComparePicker').style.display = 'none';
+    });
     document.getElementById('replayOverlay').classList.add('visible');
   } catch (e) {
     alert('Failed to load replay: ' + e.message);
   }
 }
 
+/** Both strategies' games on one seed side by side, from the divergence table. */
+async function openDivergenceReplay(timestamp, a, b, seed) {
+  try {
+    const divergence = await api(
+      `/api/results/${timestamp}/divergence?a=${encodeURIComponent(a)}&b=${encodeURIComponent(b)}&seed=${seed}`
+    );
+    const { traces, steps } = divergence;
+    openDualReplay(
+      `Seed ${seed}: ${a} vs ${b}`,
+      { label: a, timestamp, trace: traces.a, steps: steps.a },
+      { label: b, timestamp, trace: traces.b, steps: steps.b }
+    );
+  } catch (e) {
+    alert('Failed to load replay: ' + e.message);
+  }
+}
+
+/** Two games of one deal, stepping together; opens just after the turn they first differ. */
+function openDualReplay(title, paneA, paneB) {
+  if (paneA.trace.seed !== paneB.trace.seed || paneA.trace.playerCount !== paneB.trace.playerCount) {
+    alert('Only games of the same seed and player count can be replayed side by side.');
+    return;
+  }
+  const divergence = firstDivergentTurn(paneA.trace.events, paneB.trace.events);
+  replayState = { panes: [paneA, paneB], divergence };
+  document.getElementById('replayTitle').textContent =
+    title + (divergence === null ? ' (identical games)' : ` (diverge at turn ${divergence})`);
+  document.getElementById('replayComparePicker').style.display = 'none';
+  showReplayStep(divergence === null ? 0 : divergence + 1);
+  document.getElementById('replayOverlay').classList.add('visible');
+}
+
+/** Whether two events are the same action (outcomes aside, which follow from the deal). */
+function sameAction(a, b) {
+  if (!a || !b || a.type !== b.type || a.playerIndex !== b.playerIndex) return false;
+  if (a.type === 'hint') {
+    return a.targetPlayer === b.targetPlayer && a.hintType === b.hintType && a.hintValue === b.hintValue;
+  }
+  return a.cardIndex === b.cardIndex;
+}
+
+function firstDivergentTurn(eventsA, eventsB) {
+  const length = Math.max(eventsA.length, eventsB.length);
+  for (let i = 0; i < length; i++) {
+    if (!sameAction(eventsA[i], eventsB[i])) return i;
+  }
+  return null;
+}
+
+/**
+ * Offers the traces of the open game's seed from any run, to replay next to it: another strategy
+ * in the same run, or the same strategy in an earlier run.
+ */
+async function setupReplayComparePicker(pane) {
+  const picker = document.getElementById('replayComparePicker');
+  const runSel = document.getElementById('replayCompareRun');
+  const traceSel = document.getElementById('replayCompareTrace');
+  picker.style.display = '';
+  runSel.innerHTML = '';
+  (await api('/api/results')).forEach((ts) => runSel.appendChild(new Option(ts, ts)));
+  runSel.value = pane.timestamp;
+
+  async function listTraces() {
+    traceSel.innerHTML = '<option value="">—</option>';
+    const { summary } = await api(`/api/results/${runSel.value}`);
+    for (const [name, rows] of Object.entries(summary?.traceIndex || {})) {
+      for (const row of rows) {
+        if (row.seed !== pane.trace.seed) continue;
+        if (runSel.value === pane.timestamp && row.filename === pane.filename) continue;
+        traceSel.appendChild(new Option(`${name} (score ${row.score})`, row.filename));
+      }
+    }
+    if (traceSel.options.length === 1) traceSel.options[0].textContent = `no traces of seed ${pane.trace.seed}`;
+  }
+
+  runSel.onchange = () => listTraces().catch(() => {});
+  traceSel.onchange = async () => {
+    if (!traceSel.value) return;
+    try {
+      const other = await loadReplayPane(runSel.value, traceSel.value);
+      if (other.timestamp !== pane.timestamp) {
+        pane.label = `${pane.label} @ ${pane.timestamp}`;
+        other.label = `${other.label} @ ${other.timestamp}`;
+      }
+      openDualReplay(`Seed ${pane.trace.seed}: ${pane.label} vs ${other.label}`, pane, other);
+    } catch (e) {
+      alert('Failed to load replay: ' + e.message);
+    }
+  };
+  await listTraces();
+}
+
 let currentReplayStep = 0;
 
+function replayStepCount() {
+  return Math.max(...replayState.panes.map((p) => p.steps.length));
+}
+
 function showReplayStep(stepIndex) {
   if (!replayState) return;
-  const { steps, trace, config } = replayState;
-  currentReplayStep = Math.max(0, Math.min(stepIndex, steps.length - 1));
-  const state = steps[currentReplayStep];
+  const stepCount = replayStepCount();
+  currentReplayStep = Math.max(0, Math.min(stepIndex, stepCount - 1));
 
   document.getElementById('replayFirst').disabled = currentReplayStep === 0;
   document.getElementById('replayPrev').disabled = currentReplayStep === 0;
-  document.getElementById('replayNext').disabled = currentReplayStep === steps.length - 1;
-  document.getElementById('replayLast').disabled = currentReplayStep === steps.length - 1;
-  document.getElementById('replayStepLabel').textContent = `Step ${currentReplayStep} of ${steps.length - 1}`;
+  document.getElementById('replayNext').disabled = currentReplayStep === stepCount - 1;
+  document.getElementById('replayLast').disabled = currentReplayStep === stepCount - 1;
+  document.getElementById('replayStepLabel').textContent = `Step ${currentReplayStep} of ${stepCount - 1}`;
+
+  const { panes } = replayState;
+  const dual = panes.length === 2;
+  const jump = document.getElementById('replayDivergence');
+  jump.style.display = dual && replayState.divergence !== null ? '' : 'none';
+  const deltas = document.getElementById('replayDeltas');
+  deltas.style.display = dual ? '' : 'none';
 
-  const lastEvent = currentReplayStep > 0 ? trace.events[currentReplayStep - 1] : null;
-  const maxHints = config?.hintTokens ?? 8;
-  const maxLives = config?.lifeTokens ?? 3;
+  if (!dual) {
+    document.getElementById('replayState').innerHTML = renderReplayPane(panes[0], currentReplayStep);
+    return;
+  }
+  const [a, b] = panes;
+  const eventA = a.trace.events[currentReplayStep - 1];
+  const eventB = b.trace.events[currentReplayStep - 1];
+  const divergent = currentReplayStep > 0 && (eventA || eventB) && !sameAction(eventA, eventB);
+  deltas.innerHTML = renderReplayDeltas(a, b, currentReplayStep, divergent);
+  document.getElementById('replayState').innerHTML =
+    '<div class="replay-dual">' +
+    panes
+      .map(
+        (pane) =>
+          `<div class="replay-pane${divergent ? ' divergent' : ''}"><h4 class="replay-pane-title">${escapeHtml(pane.label)}</h4>` +
+          renderReplayPane(pane, currentReplayStep) +
+          '</div>'
+      )
+      .join('') +
+    '</div>';
+}
+
+function replayStepAt(pane, stepIndex) {
+  return pane.steps[Math.min(stepIndex, pane.steps.length - 1)];
+}
+
+/** Score, lives and clues of B relative to A at a step, and whether this step's moves differ. */
+function renderReplayDeltas(a, b, stepIndex, divergent) {
+  const stateA = replayStepAt(a, stepIndex);
+  const stateB = replayStepAt(b, stepIndex);
+  const delta = (label, x, y) => {
+    const d = y - x;
+    const cls = d === 0 ? '' : d > 0 ? ' up' : ' down';
+    return `<span class="replay-delta${cls}">${label} ${x} → ${y} (${d > 0 ? '+' : ''}${d})</span>`;
+  };
+  return (
+    `<strong>${escapeHtml(a.label)} → ${escapeHtml(b.label)}:</strong> ` +
+    delta('score', stateA.score, stateB.score) +
+    delta('lives', stateA.lifeTokens, stateB.lifeTokens) +
+    delta('clues', stateA.hintTokens, stateB.hintTokens) +
+    (divergent ? '<span class="replay-delta divergent">different moves this turn</span>' : '')
+  );
+}
+
+/** One game at a step; a game that ended earlier stays on its final state. */
+function renderReplayPane(pane, stepIndex) {
+  const { steps, trace } = pane;
+  const step = Math.min(stepIndex, steps.length - 1);
+  const state = steps[step];
+  const lastEvent = step > 0 ? trace.events[step - 1] : null;
+  const maxHints = trace.rules?.maxHintTokens ?? 8;
+  const maxLives = trace.rules?.maxStrikes ?? trace.lifeTokens ?? 3;
   let html = '<div class="replay-stacks-and-hands-wrapper">';
   html += '<div class="replay-align-block">';
   html += '<div class="stacks-and-hint-row">';
@@ -271,22 +1129,25 @@ function showReplayStep(stepIndex) {
     const labelClass = p === state.currentPlayer ? ' hand-label current-player' : ' hand-label';
     html += `<div class="hand-row"><strong class="${labelClass.trim()}">Player ${p}</strong> <div class="hand-cards">`;
     state.hands[p].forEach((c, i) => {
-      html += renderCard(c, state.hintKnowledge, i, false);
+      html += renderCard(c, state.hintKnowledge, i, state.suitColors);
     });
     html += '</div></div>';
   }
   html += '</div></div>';
   html += '<div class="replay-tokens-wrap">' + renderReplayTokens(state.hintTokens, state.lifeTokens, maxHints, maxLives) + '</div>';
   html += '</div>';
-  html += `<div class="replay-meta"><strong>Deck:</strong> ${state.deck.length} cards</div>`;
-  if (lastEvent) {
+  html += `<div class="replay-meta"><strong>Deck:</strong> ${state.deckSize} cards</div>`;
+  if (step < stepIndex) {
+    html += '<div class="last-move">Game over</div>';
+  } else if (lastEvent) {
     html += `<div class="last-move">Last move: ${formatEvent(lastEvent)}</div>`;
+    const reason = trace.actionReasons?.[step - 1];
+    if (reason) html += `<div class="move-reason">Rule: ${escapeHtml(reason)}</div>`;
   } else {
     html += '<div class="last-move">Initial deal</div>';
   }
-  html += renderDiscardPile(state.discardPile, lastEvent);
-
-  document.getElementById('replayState').innerHTML = html;
+  html += renderDiscardPile(state.discardPile, lastEvent, state.suitColors);
+  return html;
 }
 
 function setupReplayControls() {
@@ -297,7 +1158,8 @@ function setupReplayControls() {
   document.getElementById('replayFirst').onclick = () => showReplayStep(0);
   document.getElementById('replayPrev').onclick = () => showReplayStep(currentReplayStep - 1);
   document.getElementById('replayNext').onclick = () => showReplayStep(currentReplayStep + 1);
-  document.getElementById('replayLast').onclick = () => showReplayStep(replayState?.steps.length - 1 ?? 0);
+  document.getElementById('replayLast').onclick = () => showReplayStep(replayState ? replayStepCount() - 1 : 0);
+  document.getElementById('replayDivergence').onclick = () => showReplayStep((replayState?.divergence ?? -1) + 1);
   document.getElementById('replayOverlay').onclick = (e) => {
     if (e.target.id === 'replayOverlay') {
       document.getElementById('replayOverlay').classList.remove('visible');
@@ -317,9 +1179,18 @@ async function loadResultList() {
 document.addEventListener('DOMContentLoaded', async () => {
   setupReplayControls();
   await loadStrategies();
+  await loadVariants();
   await loadConfigs();
   await loadResultList();
-  document.getElementById('run').onclick = runSimulation;
+  document.getElementById('configs').onchange = applyPreset;
+  document.getElementById('configForm').addEventListener('input', (e) => {
+    configEdited = true;
+    if (e.target.name === 'rules.allowEmptyNumberHints') syncStrategyHintModes();
+  });
+  document.getElementById('savePreset').onclick = savePreset;
+  document.getElementById('run').onclick = () => runSimulation('/api/run');
+  document.getElementById('runCrossPlay').onclick = () => runSimulation('/api/crossplay');
+  document.getElementById('runSweep').onclick = runSweep;
   document.getElementById('loadResult').onchange = async () => {
     const ts = document.getElementById('loadResult').value;
     if (ts) await showResults(ts);
@@ -1,137 +1,12 @@
 /**
- * Replay state builder: applies trace events to produce game state at each step.
+ * Replay rendering. The per-step states come from the server, which rebuilds them with the game
+ * engine (GET /api/results/:timestamp/traces/:file/steps), so replays follow the engine's rules.
  */
-const COLOR_NAMES = ['Red', 'Yellow', 'Green', 'Blue', 'White'];
-const CARD_COLORS = ['#dc2626', '#eab308', '#22c55e', '#3b82f6', '#f8fafc']; // R,Y,G,B,W
+const COLOR_NAMES = ['Red', 'Yellow', 'Green', 'Blue', 'White', 'Rainbow', 'Black', 'Dark Rainbow', 'Null'];
+const CARD_COLORS = ['#dc2626', '#eab308', '#22c55e', '#3b82f6', '#f8fafc', '#c084fc', '#475569', '#7e22ce', '#cbd5e1']; // R,Y,G,B,W + variant suits
 
-const PLAYER_COUNT = 2;
-const CARDS_PER_PLAYER = 5;
-
-function deal(deck) {
-  const hands = [];
-  let idx = 0;
-  for (let p = 0; p < PLAYER_COUNT; p++) {
-    const hand = [];
-    for (let i = 0; i < CARDS_PER_PLAYER; i++) {
-      hand.push(deck[idx++]);
-    }
-    hands.push(hand);
-  }
-  return { hands, deck: deck.slice(idx) };
-}
-
-function advancePlayer(currentPlayer) {
-  return (currentPlayer + 1) % PLAYER_COUNT;
-}
-
-/**
- * Builds replay snapshots: array of states [state0, state1, ..., stateN].
- * state0 = initial deal. stateK = after applying events[0..K-1].
- */
-function buildReplaySteps(trace, config) {
-  const hintTokens = config.hintTokens ?? 8;
-  const lifeTokens = config.lifeTokens ?? 3;
-
-  const { hands, deck } = deal([...trace.initialDeckOrder]);
-  const steps = [];
-  const hintKnowledge = new Map();
-
-  let state = {
-    hands: hands.map((h) => [...h]),
-    deck: [...deck],
-    playedStacks: { 0: 0, 1: 0, 2: 0, 3: 0, 4: 0 },
-    discardPile: [],
-    hintTokens,
-    lifeTokens,
-    currentPlayer: 0,
-    hintKnowledge: new Map(),
-  };
-
-  steps.push(deepCopyState(state));
-
-  for (const ev of trace.events) {
-    if (ev.type === 'play') {
-      const hand = state.hands[ev.playerIndex];
-      const card = hand.splice(ev.cardIndex, 1)[0];
-      if (ev.success) {
-        state.playedStacks[card.color] = card.value;
-        if (card.value === 5 && state.hintTokens < 8) state.hintTokens++;
-      } else {
-        state.discardPile.push(card);
-        state.lifeTokens--;
-      }
-      if (state.deck.length > 0) {
-        state.hands[ev.playerIndex].push(state.deck.shift());
-      }
-    } else if (ev.type === 'discard') {
-      const hand = state.hands[ev.playerIndex];
-      const card = hand.splice(ev.cardIndex, 1)[0];
-      state.discardPile.push(card);
-      if (state.hintTokens < 8) state.hintTokens++;
-      if (state.deck.length > 0) {
-        state.hands[ev.playerIndex].push(state.deck.shift());
-      }
-    } else if (ev.type === 'hint') {
-      state.hintTokens--;
-      const targetHand = state.hands[ev.targetPlayer];
-      const matchedSet = new Set(ev.matchedCardIndices ?? []);
-      for (let idx = 0; idx < targetHand.length; idx++) {
-        const card = targetHand[idx];
-        if (!card) continue;
-        const known = state.hintKnowledge.get(card.id) ?? {};
-        if (matchedSet.has(idx)) {
-          if (ev.hintType === 'color') known.color = ev.hintValue;
-          else known.value = ev.hintValue;
-          state.hintKnowledge.set(card.id, known);
-        } else {
-          // Option removal: cards that don't match can no longer be that color/number
-          if (ev.hintType === 'color') {
-            if (known.color === undefined) {
-              const excluded = known.excludedColors ?? [];
-              if (!excluded.includes(ev.hintValue)) {
-                known.excludedColors = [...excluded, ev.hintValue];
-                state.hintKnowledge.set(card.id, known);
-              }
-            }
-          } else {
-            if (known.value === undefined) {
-              const excluded = known.excludedValues ?? [];
-              if (!excluded.includes(ev.hintValue)) {
-                known.excludedValues = [...excluded, ev.hintValue];
-                state.hintKnowledge.set(card.id, known);
-              }
-            }
-          }
-        }
-      }
-    }
-    state.currentPlayer = advancePlayer(state.currentPlayer);
-    steps.push(deepCopyState(state));
-  }
-
-  return steps;
-}
-
-function deepCopyState(s) {
-  const hintKnowledge = new Map();
-  for (const [k, v] of s.hintKnowledge) {
-    hintKnowledge.set(k, {
-      ...v,
-      excludedColors: v.excludedColors ? [...v.excludedColors] : undefined,
-      excludedValues: v.excludedValues ? [...v.excludedValues] : undefined,
-    });
-  }
-  return {
-    hands: s.hands.map((h) => h.map((c) => ({ ...c }))),
-    deck: [...s.deck],
-    playedStacks: { ...s.playedStacks },
-    discardPile: s.discardPile.map((c) => ({ ...c })),
-    hintTokens: s.hintTokens,
-    lifeTokens: s.lifeTokens,
-    currentPlayer: s.currentPlayer,
-    hintKnowledge,
-  };
-}
+/** Suits of the standard variant; steps from the server carry their variant's suits. */
+const STANDARD_SUITS = [0, 1, 2, 3, 4];
 
 function formatCard(card) {
   return `${COLOR_NAMES[card.color] ?? '?'} ${card.value}`;
@@ -182,7 +57,6 @@ function renderReplayTokens(hintTokens, lifeTokens, maxHints, maxLives) {
   return html;
 }
 
-const ALL_COLORS = [0, 1, 2, 3, 4];
 const ALL_VALUES = [1, 2, 3, 4, 5];
 
 /**
@@ -190,19 +64,19 @@ const ALL_VALUES = [1, 2, 3, 4, 5];
  * Known color/value from a hint: only that one is possible.
  * Option removal: excluded colors/values (from non-matching cards when a hint was given) are removed.
  */
-function getPossibleHints(card, hintKnowledge) {
-  const known = hintKnowledge.get(card.id) ?? {};
+function getPossibleHints(card, hintKnowledge, suitColors) {
+  const known = hintKnowledge[card.id] ?? {};
   const possibleColors = known.color !== undefined
     ? [known.color]
-    : ALL_COLORS.filter((c) => !(known.excludedColors || []).includes(c));
+    : suitColors.filter((c) => !(known.excludedColors || []).includes(c));
   const possibleValues = known.value !== undefined
     ? [known.value]
     : ALL_VALUES.filter((v) => !(known.excludedValues || []).includes(v));
   return { possibleColors, possibleValues };
 }
 
-function renderCard(card, hintKnowledge, cardIndex) {
-  const { possibleColors, possibleValues } = getPossibleHints(card, hintKnowledge);
+function renderCard(card, hintKnowledge, cardIndex, suitColors = STANDARD_SUITS) {
+  const { possibleColors, possibleValues } = getPossibleHints(card, hintKnowledge, suitColors);
   const bgColor = CARD_COLORS[card.color] ?? '#94a3b8';
   const textColor = card.color === 4 ? '#1e293b' : '#1e293b'; // White card needs dark text
   const colorsHtml = possibleColors
@@ -246,13 +120,13 @@ function renderStackCard(color, value, options = {}) {
     </div>`;
 }
 
-/** Renders all 5 color stacks as columns, showing only the top card of each. lastEvent: optional, to highlight last played card. */
+/** Renders every suit stack as a column, showing only the top card of each. lastEvent: optional, to highlight last played card. */
 function renderStacks(playedStacks, lastEvent) {
   const highlightTopOfColor = lastEvent?.type === 'play' && lastEvent.success && lastEvent.card
     ? lastEvent.card.color
     : null;
   let html = '<div class="stacks-row">';
-  for (let color = 0; color < 5; color++) {
+  for (const color of Object.keys(playedStacks).map(Number)) {
     const topValue = playedStacks[color] ?? 0;
     const isLastPlayed = highlightTopOfColor === color && topValue === lastEvent?.card?.value;
     html += `<div class="stack-col"><div class="stack-label">${COLOR_NAMES[color]}</div>`;
@@ -268,22 +142,23 @@ function renderStacks(playedStacks, lastEvent) {
 }
 
 /** Renders discard pile at bottom, grouped by color and sorted by value. lastEvent: optional, to highlight last discarded/misplayed card. */
-function renderDiscardPile(discardPile, lastEvent) {
+function renderDiscardPile(discardPile, lastEvent, suitColors = STANDARD_SUITS) {
   const lastCardId = (lastEvent?.type === 'discard' || (lastEvent?.type === 'play' && !lastEvent?.success)) && lastEvent?.card
     ? lastEvent.card.id
     : null;
-  const byColor = [[], [], [], [], []];
+  const byColor = {};
+  for (const c of suitColors) byColor[c] = [];
   for (const card of discardPile) {
-    if (card.color >= 0 && card.color <= 4) {
+    if (byColor[card.color]) {
       byColor[card.color].push(card);
     }
   }
-  for (let c = 0; c < 5; c++) {
+  for (const c of suitColors) {
     byColor[c].sort((a, b) => a.value - b.value);
   }
 
   let html = '<div class="discard-pile-section"><div class="discard-pile-label">Discard pile</div><div class="discard-pile-by-color">';
-  for (let color = 0; color < 5; color++) {
+  for (const color of suitColors) {
     html += `<div class="discard-color-row"><div class="stack-label">${COLOR_NAMES[color]}</div><div class="discard-cards-row">`;
     if (byColor[color].length > 0) {
       for (const card of byColor[color]) {
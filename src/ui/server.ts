@@ -2,18 +2,56 @@ import express from 'express';
 import * as path from 'path';
 import * as fs from 'fs';
 import { getStrategies } from '../strategies/registry';
-import { CONFIG_PRESETS } from '../config/presets';
-import { runSimulation } from '../simulator/runner';
+import { CONFIG_PRESETS, getAllPresets, loadUserPresets, saveUserPreset } from '../config/presets';
+import { validateGameConfig } from '../config/validate';
+import type { JobRequest } from './jobs';
+import { selectStrategies } from '../simulator/runner';
+import { runSimulationParallel, runCrossPlayParallel } from '../simulator/parallel';
+import { JobQueue, isTerminal } from './jobs';
+import type { JobSnapshot } from './jobs';
+import { crossPlayCellList } from '../simulator/cross-play';
+import {
+  parseSweepSpec,
+  createSweep,
+  loadSweep,
+  runSweep,
+  isSweepDir,
+  getSweepStatus,
+} from '../simulator/sweep';
+import { parseSequentialOptions, runSequential } from '../simulator/sequential';
+import type { GameConfig } from '../config';
+import { getHintMode } from '../engine/rules';
+import { VARIANTS } from '../engine/variants';
 import { writeResults } from '../storage/results-writer';
-import { tTest } from '../statistics/metrics';
+import {
+  largestDifferences,
+  explainDivergences,
+  replaySeed,
+  savedRunConfig,
+  DEFAULT_DIVERGENCE_LIMIT,
+} from '../simulator/divergence';
+import type { GameTrace } from '../simulator/runner';
+import { buildTraceSteps } from '../simulator/replay';
+import { compareScores, comparisonConclusion, isComparisonTest, COMPARISON_TESTS } from '../statistics/metrics';
+import { bootstrapRateDifference } from '../statistics/intervals';
+import { planFromPilot } from '../statistics/power';
+import {
+  compareAllPairs,
+  isPValueCorrection,
+  P_VALUE_CORRECTIONS,
+  MAX_ALL_PAIRS_STRATEGIES,
+} from '../statistics/comparisons';
 
 const app = express();
-app.use(express.json());
+// Explicit seed lists for large runs exceed the default 100kb body limit
+app.use(express.json({ limit: '10mb' }));
 
 const publicDir = path.join(process.cwd(), 'src', 'ui', 'public');
 app.use(express.static(publicDir));
 
 const resultsDir = path.join(process.cwd(), 'results');
+/** Extra strategy modules to discover; a server setting, since API configs may not name paths. */
+const strategyDir = process.env.HANABI_STRATEGY_DIR || undefined;
 
 function safeTimestamp(timestamp: string): boolean {
   return /^[\w-]+$/.test(timestamp) && !timestamp.includes('..');
@@ -23,33 +61,267 @@ function safeFilename(filename: string): boolean {
   return /^[\w.-]+$/.test(filename) && !filename.includes('..');
 }
 
+/** Returns why the named strategies can't run under the config (unknown, bad params, hint mode), or null. */
+function strategyError(strategyNames: string[] | undefined, config: GameConfig): string | null {
+  if (!strategyNames) return null;
+  try {
+    selectStrategies(config, strategyNames);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
 app.get('/api/strategies', (_req, res) => {
-  const strategies = getStrategies().map((s) => ({ name: s.name }));
+  const strategies = getStrategies(strategyDir).map((s) => ({
+    name: s.name,
+    description: s.description,
+    params: s.params,
+    requiredHintMode: s.factory().requiredHintMode ?? null,
+  }));
   res.json(strategies);
 });
 
+/**
+ * Resolves a run body: either { configId } naming a preset or { config } with a full or partial
+ * GameConfig, plus optional `sequential` options to stop early once the comparison is conclusive.
+ * Sends a 400 (with fieldErrors for an invalid config) and returns null on failure.
+ */
+function resolveRunRequest(body: unknown, res: express.Response): JobRequest | null {
+  const { configId, config, strategyNames, sequential } = (body || {}) as Record<string, unknown>;
+  if (strategyNames !== undefined && !(Array.isArray(strategyNames) && strategyNames.every((n) => typeof n === 'string'))) {
+    res.status(400).json({ error: 'strategyNames must be an array of strings' });
+    return null;
+  }
+  let request: JobRequest;
+  if (config !== undefined) {
+    const result = validateGameConfig(config);
+    if (!result.ok) {
+      res.status(400).json({ error: 'Invalid config', fieldErrors: result.errors });
+      return null;
+    }
+    request = { label: 'Custom', config: result.config };
+  } else {
+    const preset = getAllPresets().find((p) => p.id === configId);
+    if (!preset) {
+      res.status(400).json({ error: 'Invalid configId' });
+      return null;
+    }
+    request = { label: preset.label, config: preset.config };
+  }
+  if (strategyNames) request.strategyNames = strategyNames as string[];
+  if (strategyDir) request.config = { ...request.config, strategyDir };
+
+  const error = strategyError(request.strategyNames, request.config);
+  if (error) {
+    res.status(400).json({ error });
+    return null;
+  }
+  if (sequential !== undefined) {
+    try {
+      request.sequential = parseSequentialOptions(sequential);
+    } catch (err) {
+      res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
+      return null;
+    }
+    if (selectStrategies(request.config, request.strategyNames).length < 2) {
+      res.status(400).json({ error: 'A sequential comparison needs at least two strategies' });
+      return null;
+    }
+    request.label += ' (sequential)';
+  }
+  return request;
+}
+
+app.get('/api/variants', (_req, res) => {
+  res.json(Object.values(VARIANTS).map((v) => ({ id: v.id, name: v.name })));
+});
+
+/** Lists presets; saved ones that no longer validate come last, with errors in place of a config. */
 app.get('/api/configs', (_req, res) => {
-  const configs = CONFIG_PRESETS.map((p) => ({ id: p.id, label: p.label }));
-  res.json(configs);
+  const configs = getAllPresets().map((p) => ({
+    id: p.id,
+    label: p.label,
+    hintMode: getHintMode(p.config.rules),
+    builtIn: CONFIG_PRESETS.includes(p),
+    config: p.config,
+  }));
+  const invalid = loadUserPresets().invalid.map((p) => ({
+    id: p.id,
+    label: p.label,
+    builtIn: false,
+    errors: p.errors,
+  }));
+  res.json([...configs, ...invalid]);
+});
+
+/** Saves a named preset: body { label, config }. */
+app.post('/api/configs', (req, res) => {
+  const { label, config } = req.body || {};
+  const result = saveUserPreset(label, config);
+  if (!result.ok) {
+    res.status(400).json({ error: 'Invalid preset', fieldErrors: result.errors });
+    return;
+  }
+  res.status(201).json({ id: result.preset.id, label: result.preset.label });
+});
+
+const jobs = new JobQueue(async (request, onProgress, signal) => {
+  if (request.sweepTimestamp) {
+    const dir = path.join(resultsDir, request.sweepTimestamp);
+    const sweep = await runSweep(dir, { strategyDir, onProgress, signal });
+    writeResults({ results: sweep.results, seeds: sweep.seeds }, request.config, {
+      sweep,
+      resultsDir: dir,
+    });
+    return request.sweepTimestamp;
+  }
+  if (request.crossPlay) {
+    const crossPlay = await runCrossPlayParallel(request.config, request.strategyNames, {
+      onProgress,
+      signal,
+    });
+    const results = { results: crossPlayCellList(crossPlay), seeds: crossPlay.seeds };
+    return path.basename(writeResults(results, request.config, { crossPlay }));
+  }
+  if (request.sequential) {
+    const result = await runSequential(request.config, request.strategyNames, request.sequential, {
+      onProgress,
+      signal,
+    });
+    return path.basename(writeResults(result, request.config, { sequential: result.sequential }));
+  }
+  const result = await runSimulationParallel(request.config, request.strategyNames, {
+    onProgress,
+    signal,
+  });
+  return path.basename(writeResults(result, request.config));
 });
 
+/** Queues a simulation job (body as for resolveRunRequest); progress via GET /api/jobs/:id/events. */
 app.post('/api/run', (req, res) => {
-  const { configId, strategyNames } = req.body || {};
-  const preset = CONFIG_PRESETS.find((p) => p.id === configId);
-  if (!preset) {
-    res.status(400).json({ error: 'Invalid configId' });
+  const request = resolveRunRequest(req.body, res);
+  if (!request) return;
+
+  const job = jobs.enqueue(request);
+  res.status(202).json({ jobId: job.id, status: job.status });
+});
+
+/** Queues a job running the missing cells of the sweep in results/{timestamp}. */
+function queueSweep(timestamp: string, res: express.Response): void {
+  let request: JobRequest;
+  try {
+    const plan = loadSweep(path.join(resultsDir, timestamp), strategyDir);
+    request = { label: `Sweep (${plan.cells.length} cells)`, config: plan.config, sweepTimestamp: timestamp };
+  } catch (err) {
+    res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
     return;
   }
+  const job = jobs.enqueue(request);
+  res.status(202).json({ jobId: job.id, status: job.status, timestamp });
+}
+
+/**
+ * Creates a parameter sweep and queues it: body as for resolveRunRequest (the base config) plus
+ * `sweep`, a SweepSpec. The sweep's results directory exists from the start, so an interrupted
+ * sweep can be resumed.
+ */
+app.post('/api/sweeps', (req, res) => {
+  const { sweep, ...rest } = (req.body || {}) as Record<string, unknown>;
+  const request = resolveRunRequest(rest, res);
+  if (!request) return;
 
+  let dir: string;
   try {
-    const result = runSimulation(preset.config, strategyNames);
-    const outputDir = writeResults(result, preset.config);
-    const timestamp = path.basename(outputDir);
-    res.json({ timestamp, outputDir });
+    dir = createSweep(parseSweepSpec(sweep), request.config);
   } catch (err) {
-    console.error(err);
-    res.status(500).json({ error: String(err) });
+    res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
+    return;
+  }
+  queueSweep(path.basename(dir), res);
+});
+
+app.post('/api/sweeps/:timestamp/resume', (req, res) => {
+  const { timestamp } = req.params;
+  if (!safeTimestamp(timestamp)) {
+    res.status(400).json({ error: 'Invalid timestamp' });
+    return;
   }
+  if (!isSweepDir(path.join(resultsDir, timestamp))) {
+    res.status(404).json({ error: 'Sweep not found' });
+    return;
+  }
+  if (jobs.list().some((j) => j.sweepTimestamp === timestamp && !isTerminal(j.status))) {
+    res.status(409).json({ error: 'Sweep is already queued or running' });
+    return;
+  }
+  queueSweep(timestamp, res);
+});
+
+app.get('/api/jobs', (_req, res) => {
+  res.json(jobs.list());
+});
+
+app.get('/api/jobs/:id', (req, res) => {
+  const job = jobs.get(req.params.id);
+  if (!job) {
+    res.status(404).json({ error: 'Job not found' });
+    return;
+  }
+  res.json(job);
+});
+
+/** Server-sent events: one 'update' event per job change; the stream ends when the job does. */
+app.get('/api/jobs/:id/events', (req, res) => {
+  const job = jobs.get(req.params.id);
+  if (!job) {
+    res.status(404).json({ error: 'Job not found' });
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  const send = (snapshot: JobSnapshot) => {
+    res.write(`event: update\ndata: ${JSON.stringify(snapshot)}\n\n`);
+    if (isTerminal(snapshot.status)) {
+      unsubscribe();
+      res.end();
+    }
+  };
+  const unsubscribe = jobs.onUpdate(job.id, send);
+  req.on('close', unsubscribe);
+  send(job);
+});
+
+app.delete('/api/jobs/:id', (req, res) => {
+  if (!jobs.get(req.params.id)) {
+    res.status(404).json({ error: 'Job not found' });
+    return;
+  }
+  if (!jobs.cancel(req.params.id)) {
+    res.status(409).json({ error: 'Job already finished' });
+    return;
+  }
+  res.json(jobs.get(req.params.id));
+});
+
+/**
+ * Queues a cross-play job (body as for resolveRunRequest, without `sequential`): every pair of the
+ * strategies plays together. Progress via GET /api/jobs/:id/events, per pair.
+ */
+app.post('/api/crossplay', (req, res) => {
+  const request = resolveRunRequest(req.body, res);
+  if (!request) return;
+  if (request.sequential) {
+    res.status(400).json({ error: 'Cross-play does not support sequential comparison' });
+    return;
+  }
+
+  const job = jobs.enqueue({ ...request, label: `${request.label} (cross-play)`, crossPlay: true });
+  res.status(202).json({ jobId: job.id, status: job.status });
 });
 
 app.get('/api/results', (_req, res) => {
@@ -78,6 +350,12 @@ app.get('/api/results/:timestamp', (req, res) => {
     return;
   }
 
+  // A sweep writes its summary once every cell is done
+  if (!fs.existsSync(path.join(dir, 'summary.json')) && isSweepDir(dir)) {
+    res.json({ sweepStatus: getSweepStatus(dir) });
+    return;
+  }
+
   try {
     const summary = JSON.parse(
       fs.readFileSync(path.join(dir, 'summary.json'), 'utf-8')
@@ -88,20 +366,41 @@ app.get('/api/results/:timestamp', (req, res) => {
     const stats = JSON.parse(
       fs.readFileSync(path.join(dir, 'stats.json'), 'utf-8')
     );
-    res.json({ summary, rawScores, stats });
+    const crossPlayPath = path.join(dir, 'crossplay.json');
+    const crossPlay = fs.existsSync(crossPlayPath)
+      ? JSON.parse(fs.readFileSync(crossPlayPath, 'utf-8'))
+      : undefined;
+    const sweepPath = path.join(dir, 'sweep.json');
+    const sweep = fs.existsSync(sweepPath)
+      ? JSON.parse(fs.readFileSync(sweepPath, 'utf-8'))
+      : undefined;
+    const comparisonsPath = path.join(dir, 'comparisons.json');
+    const comparisons = fs.existsSync(comparisonsPath)
+      ? JSON.parse(fs.readFileSync(comparisonsPath, 'utf-8'))
+      : undefined;
+    res.json({ summary, rawScores, stats, crossPlay, sweep, comparisons });
   } catch (err) {
     res.status(500).json({ error: String(err) });
   }
 });
 
+/**
+ * Compares two strategies of a run: ?a=&b= name them, ?test= picks one of COMPARISON_TESTS
+ * (default 'paired-t', since every strategy in a run plays the same seeds).
+ */
 app.get('/api/results/:timestamp/compare', (req, res) => {
   const { timestamp } = req.params;
   const { a, b } = req.query;
+  const test = req.query.test ?? 'paired-t';
 
   if (!safeTimestamp(timestamp) || typeof a !== 'string' || typeof b !== 'string') {
     res.status(400).json({ error: 'Invalid parameters' });
     return;
   }
+  if (!isComparisonTest(test)) {
+    res.status(400).json({ error: `test must be one of: ${Object.keys(COMPARISON_TESTS).join(', ')}` });
+    return;
+  }
 
   const dir = path.join(resultsDir, timestamp);
   if (!fs.existsSync(dir)) {
@@ -116,6 +415,8 @@ app.get('/api/results/:timestamp/compare', (req, res) => {
     const stats = JSON.parse(
       fs.readFileSync(path.join(dir, 'stats.json'), 'utf-8')
     );
+    const summary = JSON.parse(fs.readFileSync(path.join(dir, 'summary.json'), 'utf-8'));
+    const maxScore: number = summary.config?.maxScore ?? 25;
 
     const scoresA = rawScores[a];
     const scoresB = rawScores[b];
@@ -125,25 +426,204 @@ app.get('/api/results/:timestamp/compare', (req, res) => {
       return;
     }
 
-    const tt = tTest(scoresA, scoresB);
-    const metricsA = stats[a];
-    const metricsB = stats[b];
-
-    let conclusion: string;
-    if (tt.pValue >= 0.05) {
-      conclusion = 'No significant difference';
-    } else if (metricsA.avgScore > metricsB.avgScore) {
-      conclusion = `${a} statistically better`;
-    } else {
-      conclusion = `${b} statistically better`;
+    const comparison = compareScores(scoresA, scoresB, test);
+    res.json({
+      ...comparison,
+      testName: COMPARISON_TESTS[test],
+      conclusion: comparisonConclusion(a, b, comparison),
+      perfectRateDiff: bootstrapRateDifference(
+        scoresA.map((s: number) => s === maxScore),
+        scoresB.map((s: number) => s === maxScore)
+      ),
+      metricsA: stats[a],
+      metricsB: stats[b],
+    });
+  } catch (err) {
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+/**
+ * Games needed to detect a difference of ?diff= points between ?a= and ?b=, using this run as the
+ * pilot; optional ?power= (default 0.8) and ?alpha= (default 0.05).
+ */
+app.get('/api/results/:timestamp/power', (req, res) => {
+  const { timestamp } = req.params;
+  const { a, b } = req.query;
+  const difference = Number(req.query.diff);
+  const power = req.query.power === undefined ? 0.8 : Number(req.query.power);
+  const alpha = req.query.alpha === undefined ? 0.05 : Number(req.query.alpha);
+
+  if (!safeTimestamp(timestamp) || typeof a !== 'string' || typeof b !== 'string') {
+    res.status(400).json({ error: 'Invalid parameters' });
+    return;
+  }
+  if (!(difference > 0)) {
+    res.status(400).json({ error: 'diff must be a positive number of points' });
+    return;
+  }
+  if (!(power > 0 && power < 1) || !(alpha > 0 && alpha < 1)) {
+    res.status(400).json({ error: 'power and alpha must be between 0 and 1' });
+    return;
+  }
+
+  const dir = path.join(resultsDir, timestamp);
+  if (!fs.existsSync(path.join(dir, 'raw_scores.json'))) {
+    res.status(404).json({ error: 'Results not found' });
+    return;
+  }
+
+  try {
+    const rawScores = JSON.parse(fs.readFileSync(path.join(dir, 'raw_scores.json'), 'utf-8'));
+    if (!rawScores[a] || !rawScores[b]) {
+      res.status(400).json({ error: 'Strategy not found in results' });
+      return;
+    }
+    res.json(planFromPilot(rawScores[a], rawScores[b], difference, { power, alpha }));
+  } catch (err) {
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+/**
+ * Every pairwise comparison of a run with a leaderboard: ?test= as for /compare, ?correction= one
+ * of P_VALUE_CORRECTIONS (default 'holm').
+ */
+app.get('/api/results/:timestamp/comparisons', (req, res) => {
+  const { timestamp } = req.params;
+  const test = req.query.test ?? 'paired-t';
+  const correction = req.query.correction ?? 'holm';
+
+  if (!safeTimestamp(timestamp)) {
+    res.status(400).json({ error: 'Invalid timestamp' });
+    return;
+  }
+  if (!isComparisonTest(test)) {
+    res.status(400).json({ error: `test must be one of: ${Object.keys(COMPARISON_TESTS).join(', ')}` });
+    return;
+  }
+  if (!isPValueCorrection(correction)) {
+    res.status(400).json({ error: `correction must be one of: ${Object.keys(P_VALUE_CORRECTIONS).join(', ')}` });
+    return;
+  }
+
+  const dir = path.join(resultsDir, timestamp);
+  if (!fs.existsSync(path.join(dir, 'raw_scores.json'))) {
+    res.status(404).json({ error: 'Results not found' });
+    return;
+  }
+
+  try {
+    // The run saved the default comparison; only other tests or corrections are computed here
+    const savedPath = path.join(dir, 'comparisons.json');
+    if (fs.existsSync(savedPath)) {
+      const saved = JSON.parse(fs.readFileSync(savedPath, 'utf-8'));
+      if (saved.test === test && saved.correction === correction) {
+        res.json(saved);
+        return;
+      }
+    }
+    const summary = JSON.parse(fs.readFileSync(path.join(dir, 'summary.json'), 'utf-8'));
+    const rawScores = JSON.parse(fs.readFileSync(path.join(dir, 'raw_scores.json'), 'utf-8'));
+    const names: string[] = summary.strategyNames;
+    if (names.length > MAX_ALL_PAIRS_STRATEGIES) {
+      res.status(400).json({ error: `Too many strategies to compare pairwise (${names.length})` });
+      return;
+    }
+    const results = names.map((name) => ({ name, scores: rawScores[name] as number[] }));
+    res.json(compareAllPairs(results, { test, correction }));
+  } catch (err) {
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+/**
+ * The seeds where ?a= and ?b= scored furthest apart (?limit=, default DEFAULT_DIVERGENCE_LIMIT),
+ * each with the first turn their games diverged. Games come from the run's traces when it kept
+ * them and are played again from the run's config otherwise. With ?seed=, only that seed is
+ * explained and both games' traces and replay steps are included, for the side-by-side replay.
+ */
+app.get('/api/results/:timestamp/divergence', (req, res) => {
+  const { timestamp } = req.params;
+  const { a, b } = req.query;
+  const limit = req.query.limit === undefined ? DEFAULT_DIVERGENCE_LIMIT : Number(req.query.limit);
+  const seed = req.query.seed === undefined ? undefined : Number(req.query.seed);
+
+  if (!safeTimestamp(timestamp) || typeof a !== 'string' || typeof b !== 'string') {
+    res.status(400).json({ error: 'Invalid parameters' });
+    return;
+  }
+  if (!(Number.isInteger(limit) && limit >= 1 && limit <= 100)) {
+    res.status(400).json({ error: 'limit must be an integer from 1 to 100' });
+    return;
+  }
+  if (seed !== undefined && !Number.isInteger(seed)) {
+    res.status(400).json({ error: 'seed must be an integer' });
+    return;
+  }
+
+  const dir = path.join(resultsDir, timestamp);
+  if (!fs.existsSync(path.join(dir, 'raw_scores.json'))) {
+    res.status(404).json({ error: 'Results not found' });
+    return;
+  }
+
+  try {
+    const summary = JSON.parse(fs.readFileSync(path.join(dir, 'summary.json'), 'utf-8'));
+    const rawScores = JSON.parse(fs.readFileSync(path.join(dir, 'raw_scores.json'), 'utf-8'));
+    if (!rawScores[a] || !rawScores[b]) {
+      res.status(400).json({ error: 'Strategy not found in results' });
+      return;
+    }
+    const traceIndex: Record<string, { seed: number; filename: string }[]> | undefined = summary.traceIndex;
+    // Runs written before summary.json recorded seeds still have them in the trace index
+    const seeds: number[] | undefined = summary.seeds ?? traceIndex?.[a]?.map((t) => t.seed);
+    if (!seeds) {
+      res.status(400).json({ error: 'This run did not record its seeds' });
+      return;
+    }
+    if (summary.mode === 'crossplay' || summary.mode === 'sweep') {
+      res.status(400).json({ error: `Divergence is not available for ${summary.mode} runs` });
+      return;
     }
 
+    const config = savedRunConfig(summary.config, strategyDir);
+    const loaded: Record<string, GameTrace> = {};
+    const loadTrace = (name: string, gameSeed: number): { trace: GameTrace; filename?: string } => {
+      const filename = traceIndex?.[name]?.find((t) => t.seed === gameSeed)?.filename;
+      const trace: GameTrace =
+        filename && fs.existsSync(path.join(dir, 'traces', filename))
+          ? JSON.parse(fs.readFileSync(path.join(dir, 'traces', filename), 'utf-8'))
+          : replaySeed(config, name, gameSeed);
+      loaded[name] = trace;
+      return { trace, ...(filename && { filename }) };
+    };
+
+    if (seed === undefined) {
+      const differences = largestDifferences(seeds, rawScores[a], rawScores[b], limit);
+      res.json({ a, b, games: seeds.length, seeds: explainDivergences(a, b, differences, loadTrace) });
+      return;
+    }
+    const index = seeds.indexOf(seed);
+    if (index < 0) {
+      res.status(400).json({ error: `Seed ${seed} is not in this run` });
+      return;
+    }
+    const scoreA: number = rawScores[a][index];
+    const scoreB: number = rawScores[b][index];
+    const [divergence] = explainDivergences(
+      a,
+      b,
+      [{ seed, scoreA, scoreB, difference: scoreA - scoreB }],
+      loadTrace
+    );
     res.json({
-      pValue: tt.pValue,
-      meanDiff: tt.meanDiff,
-      conclusion,
-      metricsA,
-      metricsB,
+      a,
+      b,
+      games: seeds.length,
+      seeds: [divergence],
+      traces: { a: loaded[a], b: loaded[b] },
+      steps: { a: buildTraceSteps(loaded[a]), b: buildTraceSteps(loaded[b]) },
     });
   } catch (err) {
     res.status(500).json({ error: String(err) });
@@ -191,6 +671,38 @@ app.get('/api/results/:timestamp/traces/:filename', (req, res) => {
   }
 });
 
+/**
+ * A trace with the state before its first event and after each one, rebuilt by the engine. A
+ * trace that no longer replays (an illegal event, or an outcome the engine disagrees with) is a 422.
+ */
+app.get('/api/results/:timestamp/traces/:filename/steps', (req, res) => {
+  const { timestamp, filename } = req.params;
+
+  if (!safeTimestamp(timestamp) || !safeFilename(filename)) {
+    res.status(400).json({ error: 'Invalid parameters' });
+    return;
+  }
+
+  const tracePath = path.join(resultsDir, timestamp, 'traces', filename);
+  if (!fs.existsSync(tracePath) || !fs.statSync(tracePath).isFile()) {
+    res.status(404).json({ error: 'Trace not found' });
+    return;
+  }
+
+  let trace: GameTrace;
+  try {
+    trace = JSON.parse(fs.readFileSync(tracePath, 'utf-8'));
+  } catch (err) {
+    res.status(500).json({ error: String(err) });
+    return;
+  }
+  try {
+    res.json({ trace, steps: buildTraceSteps(trace) });
+  } catch (err) {
+    res.status(422).json({ error: `Trace does not replay: ${err instanceof Error ? err.message : String(err)}` });
+  }
+});
+
 const PORT = process.env.PORT || 3000;
 app.listen(PORT, () => {
   console.log(`Hanabi Simulator UI at http://localhost:${PORT}`);